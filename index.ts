@@ -1,2 +1,30 @@
 #!/usr/bin/env bun
-import './src/cli/cli';
+export {
+    GithubLinearSync,
+    type GithubLinearSyncOptions,
+    type SyncDirection,
+    type SyncEvents,
+    type SyncRun,
+    type SyncRunOptions
+} from './src/sync/engine';
+export {AuthError, ConfigError, NotFoundError, PlanConflictError, RateLimitError, SyncError} from './src/errors';
+export {silentLogger, type Logger} from './src/logger';
+export {
+    createGithubClient,
+    getGithubClient,
+    listGithubRepos,
+    searchGithubIssues,
+    type GithubIssueFilter
+} from './src/api/github';
+export {githubAuthFromEnv, type GithubAuthOptions} from './src/api/auth';
+export {getLinearClient, type GithubIssue, type SyncResult} from './src/api/linear';
+export {defineConfig, findConfigFile, loadConfig, type ResolvedRoute, type SyncConfig, type SyncRoute} from './src/config/config';
+export {DEFAULT_STORE_PATH, LinkStore} from './src/sync/store';
+export {DEFAULT_JOURNAL_DIR, RunJournal, type SyncRunRecord, type UndoResults} from './src/sync/journal';
+export type {SyncPlan, IssuePlan, PlanReviewOptions} from './src/sync/plan';
+export type {DoctorFixResults, DoctorReport} from './src/sync/doctor';
+
+// Run as the CLI, not when imported as a package
+if (import.meta.main) {
+    await import('./src/cli/cli');
+}
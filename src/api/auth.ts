@@ -0,0 +1,171 @@
+import {createSign} from 'node:crypto';
+import {readFileSync} from 'node:fs';
+import {Octokit} from '@octokit/rest';
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * How GitHub requests are authenticated. Requests go out with the token of
+ * the owner (user or organization) they concern: its entry in `tokens`, its
+ * GitHub App installation, or else `token`.
+ */
+export interface GithubAuthOptions {
+    // Classic or fine-grained personal access token
+    token?: string;
+    // Owner → token, e.g. a fine-grained token per organization
+    tokens?: Record<string, string>;
+    // GitHub App, whose installation tokens are created per owner
+    app?: { appId: string; privateKey: string };
+    // REST API URL, e.g. https://github.example.com/api/v3 for GitHub Enterprise Server
+    baseUrl?: string;
+}
+
+/**
+ * Reads the GitHub credentials from the environment:
+ * - GITHUB_TOKEN: token for every owner without its own
+ * - GITHUB_TOKENS: per-owner tokens, as `org=token,other-org=token`
+ * - GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY: GitHub App, the key as PEM or a path to the PEM file
+ * - GITHUB_API_URL: API URL of GitHub Enterprise Server
+ * @throws when no credentials are set
+ */
+export function githubAuthFromEnv(env: NodeJS.ProcessEnv = process.env): GithubAuthOptions {
+    const tokens = Object.fromEntries(
+        (env.GITHUB_TOKENS ?? '')
+            .split(',')
+            .map(entry => entry.trim().split('='))
+            .filter(([owner, token]) => owner && token)
+            .map(([owner, token]) => [owner.toLowerCase(), token])
+    );
+
+    let app: GithubAuthOptions['app'];
+    if (env.GITHUB_APP_ID || env.GITHUB_APP_PRIVATE_KEY) {
+        if (!env.GITHUB_APP_ID || !env.GITHUB_APP_PRIVATE_KEY) {
+            throw new Error('GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY must be set together');
+        }
+        const key = env.GITHUB_APP_PRIVATE_KEY;
+        app = {
+            appId: env.GITHUB_APP_ID,
+            // Keys in .env files usually have their line breaks escaped
+            privateKey: key.includes('-----BEGIN') ? key.replace(/\\n/g, '\n') : readFileSync(key, 'utf8')
+        };
+    }
+
+    if (!env.GITHUB_TOKEN && !Object.keys(tokens).length && !app) {
+        throw new Error('Set GITHUB_TOKEN, GITHUB_TOKENS or GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY to access GitHub');
+    }
+    return {
+        token: env.GITHUB_TOKEN || undefined,
+        tokens,
+        app,
+        baseUrl: env.GITHUB_API_URL || undefined
+    };
+}
+
+const base64url = (data: string | Buffer) => Buffer.from(data).toString('base64url');
+
+// The short-lived JWT a GitHub App authenticates as itself with
+function createAppJwt(appId: string, privateKey: string) {
+    const now = Math.floor(Date.now() / 1000);
+    // Backdated a minute against clock drift, GitHub allows at most ten minutes
+    const payload = { iat: now - 60, exp: now + 540, iss: appId };
+    const unsigned = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey);
+    return `${unsigned}.${base64url(signature)}`;
+}
+
+// Installation tokens are replaced this long before they expire
+const TOKEN_REFRESH_MS = 5 * 60_000;
+
+/**
+ * Creates and renews the installation tokens of a GitHub App, one per
+ * account the app is installed on
+ * @returns the token for an owner, undefined when the app isn't installed there
+ */
+function appTokens(app: NonNullable<GithubAuthOptions['app']>, options: ConstructorParameters<typeof Octokit>[0]) {
+    const appClient = () => new Octokit({ ...options, auth: createAppJwt(app.appId, app.privateKey) });
+    let installations: Promise<Map<string, number>> | undefined;
+    const tokens = new Map<number, Promise<{ token: string; expiresAt: number }>>();
+
+    const listInstallations = async () => {
+        const client = appClient();
+        const list = await client.paginate(client.apps.listInstallations, { per_page: 100 });
+        return new Map(list.map(installation => [installation.account?.login?.toLowerCase() ?? '', installation.id]));
+    };
+
+    return async (owner: string | undefined): Promise<string | undefined> => {
+        installations ??= listInstallations();
+        installations.catch(() => installations = undefined);
+        const ids = await installations;
+
+        // Requests not about an owner, e.g. uploaded images, use any installation
+        const id = owner ? ids.get(owner.toLowerCase()) : ids.values().next().value;
+        if (id === undefined) {
+            return undefined;
+        }
+
+        const current = await tokens.get(id)?.catch(() => undefined);
+        if (current && current.expiresAt - Date.now() > TOKEN_REFRESH_MS) {
+            return current.token;
+        }
+        const created = appClient().apps.createInstallationAccessToken({ installation_id: id })
+            .then(({ data }) => ({ token: data.token, expiresAt: new Date(data.expires_at).getTime() }));
+        tokens.set(id, created);
+        return (await created).token;
+    };
+}
+
+// Pagination links name repositories and organizations by ID instead of by owner
+const ID_PATH = /\/(repositories|organizations)\/(\d+)\//;
+
+function requestOwner(options: Record<string, unknown>, owners: Map<string, string>): string | undefined {
+    const variables = options.variables as Record<string, unknown> | undefined;
+    // Users looked up by name are no owner of the request, any token can read them
+    const owner = options.owner ?? options.org ?? variables?.owner ?? variables?.org;
+    if (typeof owner === 'string') {
+        return owner;
+    }
+    const url = String(options.url ?? '');
+    const byId = url.match(ID_PATH);
+    return byId ? owners.get(`${byId[1]}/${byId[2]}`) : url.match(/^(?:https?:\/\/[^/]+)?(?:\/api\/v3)?\/(?:repos|orgs)\/([\w.-]+)/)?.[1];
+}
+
+/**
+ * Creates an Octokit client that picks the token for each request from the
+ * owner it concerns, see {@link GithubAuthOptions}
+ */
+export function createAuthenticatedOctokit(auth: GithubAuthOptions, options: ConstructorParameters<typeof Octokit>[0] = {}) {
+    const baseUrl = auth.baseUrl?.replace(/\/+$/, '') ?? DEFAULT_GITHUB_API_URL;
+    options = { ...options, baseUrl };
+    const octokit = new Octokit(options);
+    const tokens = new Map(Object.entries(auth.tokens ?? {}).map(([owner, token]) => [owner.toLowerCase(), token]));
+    const appToken = auth.app && appTokens(auth.app, options);
+    const owners = new Map<string, string>();
+
+    const tokenFor = async (owner: string | undefined) => {
+        const ownToken = owner && (tokens.get(owner.toLowerCase()) || await appToken?.(owner));
+        const token = ownToken || auth.token || await appToken?.(undefined);
+        if (!token && (owner || appToken)) {
+            throw new Error(`No GitHub token or GitHub App installation for ${owner ?? 'requests without an owner'}`);
+        }
+        return token;
+    };
+
+    octokit.hook.wrap('request', async (request, requestOptions) => {
+        const owner = requestOwner(requestOptions as Record<string, unknown>, owners);
+        const token = await tokenFor(owner);
+        if (token) {
+            requestOptions.headers.authorization = `token ${token}`;
+        }
+
+        const response = await request(requestOptions);
+        // Remembered so the next pages of this listing use the same token
+        if (owner) {
+            for (const [, kind, id] of String(response.headers.link ?? '').matchAll(new RegExp(ID_PATH, 'g'))) {
+                owners.set(`${kind}/${id}`, owner);
+            }
+        }
+        return response;
+    });
+
+    return octokit;
+}
@@ -0,0 +1,180 @@
+import {describe, expect, test} from 'bun:test';
+import type {Octokit} from '@octokit/rest';
+import {AuthError, RateLimitError} from '../errors';
+import {silentLogger, type Logger} from '../logger';
+import {
+    fetchGithubIssues,
+    githubSearchQualifiers,
+    listGithubRepos,
+    matchesIssueFilter,
+    searchGithubIssues,
+    validateGithubToken
+} from './github';
+import type {GithubIssue} from './linear';
+
+const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+
+// A fine-grained token, which reports no scopes, with the given read access per repository
+const fineGrainedToken = (
+    access: Record<string, { pull: boolean } | undefined>,
+    listForRepo = async (): Promise<unknown> => ({ data: [] })
+) => ({
+    request: async () => ({ headers: {} }),
+    repos: {
+        get: async ({ owner, repo }: { owner: string; repo: string }) => {
+            const key = `${owner}/${repo}`;
+            if (!(key in access)) {
+                throw notFound;
+            }
+            return { data: { permissions: access[key] } };
+        }
+    },
+    issues: { listForRepo }
+}) as unknown as Octokit;
+
+describe('validateGithubToken', () => {
+    test('probes each repository for read access', async () => {
+        const github = fineGrainedToken({ 'acme/app': { pull: true }, 'acme/api': { pull: false } });
+
+        await validateGithubToken(github, { repos: ['acme/app'], logger: silentLogger });
+        const rejected = validateGithubToken(github, { repos: ['acme/app', 'acme/api', 'acme/web'], logger: silentLogger });
+        await expect(rejected).rejects.toThrow(AuthError);
+        await expect(rejected).rejects.toThrow("GitHub credentials can't read acme/api, acme/web");
+    });
+
+    test('lists an issue for GitHub App installations, which get no permissions', async () => {
+        const installed = fineGrainedToken({ 'acme/app': undefined });
+        const forbidden = fineGrainedToken({ 'acme/app': undefined }, async () => {
+            throw Object.assign(new Error('Forbidden'), { status: 403 });
+        });
+
+        await validateGithubToken(installed, { repos: ['acme/app'], logger: silentLogger });
+        await expect(validateGithubToken(forbidden, { repos: ['acme/app'], logger: silentLogger })).rejects.toThrow(AuthError);
+    });
+
+    test('requires the repo scope of classic tokens', async () => {
+        const github = {
+            request: async () => ({ headers: { 'x-oauth-scopes': 'read:org, gist' } }),
+            users: { getAuthenticated: async () => ({ data: { login: 'octocat' } }) }
+        } as unknown as Octokit;
+
+        await expect(validateGithubToken(github, { logger: silentLogger })).rejects.toThrow('missing required repo scope');
+    });
+});
+
+describe('fetchGithubIssues', () => {
+    const github = (listForRepo: () => Promise<unknown>) => ({
+        repos: { get: async () => ({ data: { permissions: { pull: true } } }) },
+        issues: { listForRepo },
+        paginate: async (method: () => Promise<unknown>) => method()
+    }) as unknown as Octokit;
+
+    test('skips repositories it fails to read', async () => {
+        const issues = await fetchGithubIssues(github(async () => { throw notFound; }), { repos: ['acme/app'], logger: silentLogger });
+
+        expect(issues).toEqual([]);
+    });
+
+    test('fails on a rate limit that outlasted the retries', async () => {
+        const limited = github(async () => { throw new RateLimitError('GitHub rate limit hit, it resets in 3600s', 3_600_000); });
+
+        await expect(fetchGithubIssues(limited, { repos: ['acme/app'], logger: silentLogger })).rejects.toThrow(RateLimitError);
+    });
+});
+
+const githubIssue = (fields: Record<string, unknown> = {}) => ({
+    state: 'open',
+    labels: [{ name: 'Bug' }, 'ui'],
+    assignees: [{ login: 'Octocat' }],
+    milestone: { title: 'v2.0', number: 3 },
+    type: { name: 'Bug' },
+    ...fields
+}) as unknown as GithubIssue;
+
+describe('matchesIssueFilter', () => {
+    test('matches labels, excluded labels, assignee, milestone, state and type', () => {
+        const issue = githubIssue();
+
+        expect(matchesIssueFilter(issue, {})).toBe(true);
+        expect(matchesIssueFilter(issue, { labels: ['bug', 'UI'], excludeLabels: ['wontfix'], assignee: 'octocat', milestone: 'V2.0', state: 'open', type: 'bug' }))
+            .toBe(true);
+        expect(matchesIssueFilter(issue, { labels: ['bug', 'docs'] })).toBe(false);
+        expect(matchesIssueFilter(issue, { excludeLabels: ['Bug'] })).toBe(false);
+        expect(matchesIssueFilter(issue, { milestone: '3' })).toBe(true);
+        expect(matchesIssueFilter(issue, { state: 'closed' })).toBe(false);
+        expect(matchesIssueFilter(issue, { type: 'Feature' })).toBe(false);
+    });
+
+    test('matches none and * for assignees and milestones', () => {
+        const unassigned = githubIssue({ assignees: [], milestone: null });
+
+        expect(matchesIssueFilter(unassigned, { assignee: 'none', milestone: 'none' })).toBe(true);
+        expect(matchesIssueFilter(unassigned, { assignee: '*' })).toBe(false);
+        expect(matchesIssueFilter(githubIssue(), { assignee: '*', milestone: '*' })).toBe(true);
+    });
+});
+
+describe('searchGithubIssues', () => {
+    // GitHub search answering with `items` out of `total` matches, recording the query
+    function fakeSearch(items: unknown[], total = items.length) {
+        const queries: string[] = [];
+        const github = {
+            search: { issuesAndPullRequests: {} },
+            paginate: async (_method: unknown, { q }: { q: string }, map: (response: unknown) => unknown[]) => {
+                queries.push(q);
+                return map({ data: Object.assign([...items], { total_count: total }) });
+            }
+        } as unknown as Octokit;
+        return { github, queries };
+    }
+
+    test('adds the date and filter to the query and leaves out pull requests', async () => {
+        const { github, queries } = fakeSearch([{ number: 1 }, { number: 2, pull_request: {} }]);
+
+        const issues = await searchGithubIssues(github, {
+            query: 'org:acme -label:wontfix',
+            since: new Date('2024-03-01T10:00:00.123Z'),
+            filter: { labels: ['good first issue'], assignee: 'none', state: 'open' },
+            logger: silentLogger
+        });
+
+        expect(issues.map(issue => issue.number)).toEqual([1]);
+        expect(queries).toEqual(['org:acme -label:wontfix is:issue updated:>=2024-03-01T10:00:00Z label:"good first issue" no:assignee state:open']);
+    });
+
+    test('keeps the query\'s own is: qualifier and warns about truncated results', async () => {
+        const { github, queries } = fakeSearch([], 1500);
+        const warnings: string[] = [];
+        const logger: Logger = { ...silentLogger, warn: message => warnings.push(message) };
+
+        await searchGithubIssues(github, { query: 'repo:acme/app is:issue', logger });
+
+        expect(queries).toEqual(['repo:acme/app is:issue']);
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain('1500 issues match');
+    });
+});
+
+describe('githubSearchQualifiers', () => {
+    test('writes the filter in search syntax', () => {
+        expect(githubSearchQualifiers({ excludeLabels: ['wontfix'], assignee: '*', milestone: 'v2.0', type: 'Bug', state: 'all' }))
+            .toEqual(['-label:wontfix', '-no:assignee', 'milestone:v2.0', 'type:Bug']);
+    });
+});
+
+describe('listGithubRepos', () => {
+    test('lists the repositories of an organization, without archived ones and forks when asked', async () => {
+        const repos = [
+            { name: 'app', owner: { login: 'acme' }, archived: false, fork: false },
+            { name: 'old', owner: { login: 'acme' }, archived: true, fork: false },
+            { name: 'lib', owner: { login: 'acme' }, archived: false, fork: true }
+        ];
+        const github = {
+            repos: { listForOrg: {} },
+            paginate: async (method: unknown) => method === github.repos.listForOrg ? repos : []
+        } as unknown as Octokit;
+
+        expect(await listGithubRepos(github, { org: 'acme' })).toEqual(['acme/app', 'acme/old', 'acme/lib']);
+        expect(await listGithubRepos(github, { org: 'acme', excludeArchived: true, excludeForks: true })).toEqual(['acme/app']);
+    });
+});
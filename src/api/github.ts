@@ -1,5 +1,10 @@
-import {Octokit} from "@octokit/rest";
+import type {Octokit} from "@octokit/rest";
 import type { components } from '@octokit/openapi-types'
+import {AuthError, RateLimitError} from '../errors';
+import type {Logger} from '../logger';
+import {createAuthenticatedOctokit, githubAuthFromEnv, type GithubAuthOptions} from './auth';
+import {withGithubRateLimit} from './ratelimit';
+import type {GithubIssue} from './linear';
 
 interface GitHubErrorResponse {
     status: number;
@@ -15,46 +20,263 @@ function isGitHubError(error: unknown): error is GitHubErrorResponse {
     );
 }
 
-export const createGithubClient = (token: string) => new Octokit({
-    auth: token,
-    headers: {
-        'X-GitHub-Api-Version': '2022-11-28',
-        accept: 'application/vnd.github.v3+json',
-    },
-    baseUrl: 'https://api.github.com'
-});
+function logRepoError(logger: Logger, owner: string, repo: string, error: unknown) {
+    if (isGitHubError(error)) {
+        if (error.status === 404) {
+            logger.error(`Repository ${owner}/${repo} not found or no access`);
+        } else {
+            logger.error(`Error fetching ${owner}/${repo}:`, error.message);
+        }
+    } else {
+        logger.error(`Unexpected error fetching ${owner}/${repo}`);
+    }
+}
+
+export type GithubPullRequest = components['schemas']['pull-request-simple'];
+
+/**
+ * Creates the GitHub client, authenticated with a token or as described by
+ * `auth`, see {@link GithubAuthOptions}
+ */
+export const createGithubClient = (auth: string | GithubAuthOptions, logger?: Logger) => withGithubRateLimit(
+    createAuthenticatedOctokit(
+        typeof auth === 'string' ? { token: auth } : auth,
+        {
+            headers: {
+                'X-GitHub-Api-Version': '2022-11-28',
+                accept: 'application/vnd.github.v3+json',
+            }
+        }
+    ),
+    logger
+);
 
-export async function validateGithubToken(github: Octokit) {
+/**
+ * The GitHub client for the credentials in the environment, see githubAuthFromEnv
+ * @throws {AuthError} when no usable credentials are set
+ */
+export function getGithubClient(logger?: Logger): Octokit {
     try {
-        const { data: user } = await github.users.getAuthenticated();
-        console.log(`Authenticated as GitHub user: ${user.login}`);
+        return createGithubClient(githubAuthFromEnv(), logger);
+    } catch (error) {
+        throw new AuthError(error instanceof Error ? error.message : String(error), { cause: error });
+    }
+}
 
-        // Check token scopes
+/**
+ * Checks that GitHub accepts the credentials. Classic tokens need the `repo`
+ * scope. Fine-grained tokens and GitHub App installations have no scopes,
+ * so every repository in `repos` is probed for read access.
+ * @throws {AuthError} when the credentials are rejected, lack the `repo` scope or can't read one of `repos`
+ */
+export async function validateGithubToken(
+    github: Octokit,
+    { repos = [], logger = console }: { repos?: string[]; logger?: Logger } = {}
+) {
+    let scopes: string[] | undefined;
+    try {
         const { headers } = await github.request('GET /');
-        const scopes = headers['x-oauth-scopes']?.split(', ') || [];
+        // Only classic tokens report scopes
+        const scopeHeader = headers['x-oauth-scopes'];
+        if (scopeHeader !== undefined) {
+            const { data: user } = await github.users.getAuthenticated();
+            logger.log(`Authenticated as GitHub user: ${user.login}`);
+            scopes = scopeHeader.split(', ');
+        } else if (!repos.length) {
+            await logGithubIdentity(github, logger);
+        }
+    } catch (error) {
+        throw new AuthError(`GitHub authentication failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+
+    if (scopes && !scopes.includes('repo')) {
+        throw new AuthError(`GitHub token missing required repo scope, current scopes: ${scopes.join(', ')}`);
+    }
 
-        if (!scopes.includes('repo')) {
-            console.error('GitHub token missing required repo scope');
-            console.error('Current scopes:', scopes.join(', '));
-            process.exit(1);
+    const unreadable: string[] = [];
+    for (const fullName of repos) {
+        if (!await canReadRepo(github, fullName)) {
+            unreadable.push(fullName);
         }
+    }
+    if (unreadable.length) {
+        throw new AuthError(`GitHub credentials can't read ${unreadable.join(', ')}`);
+    }
+    if (repos.length) {
+        logger.log(`GitHub access checked for ${repos.join(', ')}`);
+    }
+}
+
+async function logGithubIdentity(github: Octokit, logger: Logger) {
+    try {
+        const { data: user } = await github.users.getAuthenticated();
+        logger.log(`Authenticated as GitHub user: ${user.login} (fine-grained token)`);
     } catch (error) {
-        console.error('GitHub authentication failed:', error);
-        process.exit(1);
+        // Installation tokens act as the app, not as a user
+        if (!isGitHubError(error) || error.status !== 403) {
+            throw error;
+        }
+        const { data } = await github.apps.listReposAccessibleToInstallation({ per_page: 1 });
+        logger.log(`Authenticated as GitHub App installation with access to ${data.total_count} repositories`);
+    }
+}
+
+/**
+ * Whether the credentials can read the issues of an owner/repo repository
+ * @throws {AuthError} when GitHub rejects the credentials
+ */
+async function canReadRepo(github: Octokit, fullName: string): Promise<boolean> {
+    const [owner, repo] = fullName.split('/');
+    try {
+        const { data } = await github.repos.get({ owner, repo });
+        // GitHub Apps get no permissions here, listing an issue shows their access
+        if (data.permissions) {
+            return data.permissions.pull;
+        }
+        await github.issues.listForRepo({ owner, repo, per_page: 1 });
+        return true;
+    } catch (error) {
+        if (isGitHubError(error) && (error.status === 403 || error.status === 404)) {
+            return false;
+        }
+        throw new AuthError(`GitHub authentication failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+}
+
+/**
+ * Which issues of a repository are synced. Every condition present must match.
+ */
+export interface GithubIssueFilter {
+    // All of these labels (case-insensitive)
+    labels?: string[];
+    // None of these labels (case-insensitive)
+    excludeLabels?: string[];
+    // Login of an assignee, `none` for unassigned or `*` for assigned issues
+    assignee?: string;
+    // Milestone title or number, `none` or `*`
+    milestone?: string;
+    state?: 'open' | 'closed' | 'all';
+    // Issue type name, e.g. Bug
+    type?: string;
+}
+
+// Issue types aren't in the REST schema of this Octokit version yet
+const issueType = (issue: GithubIssue) => (issue as { type?: { name: string } | null }).type?.name;
+
+const issueLabelNames = (issue: GithubIssue) =>
+    issue.labels.map(l => (typeof l === 'string' ? l : l.name ?? '').toLowerCase());
+
+export function matchesIssueFilter(issue: GithubIssue, filter: GithubIssueFilter = {}): boolean {
+    const labels = issueLabelNames(issue);
+    const assignees = (issue.assignees ?? []).map(user => user.login.toLowerCase());
+    const { assignee, milestone, state, type } = filter;
+
+    return (filter.labels ?? []).every(label => labels.includes(label.toLowerCase()))
+        && !(filter.excludeLabels ?? []).some(label => labels.includes(label.toLowerCase()))
+        && (!assignee || (assignee === 'none' ? !assignees.length
+            : assignee === '*' ? assignees.length > 0
+            : assignees.includes(assignee.toLowerCase())))
+        && (!milestone || (milestone === 'none' ? !issue.milestone
+            : milestone === '*' ? Boolean(issue.milestone)
+            : issue.milestone?.title.toLowerCase() === milestone.toLowerCase() || String(issue.milestone?.number) === milestone))
+        && (!state || state === 'all' || issue.state === state)
+        && (!type || issueType(issue)?.toLowerCase() === type.toLowerCase());
+}
+
+const quote = (value: string) => /[\s:"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// The filter in GitHub search syntax
+export function githubSearchQualifiers(filter: GithubIssueFilter = {}): string[] {
+    const { assignee, milestone, state, type } = filter;
+    return [
+        ...(filter.labels ?? []).map(label => `label:${quote(label)}`),
+        ...(filter.excludeLabels ?? []).map(label => `-label:${quote(label)}`),
+        ...(assignee ? [assignee === 'none' ? 'no:assignee' : assignee === '*' ? '-no:assignee' : `assignee:${assignee}`] : []),
+        ...(milestone ? [milestone === 'none' ? 'no:milestone' : milestone === '*' ? '-no:milestone' : `milestone:${quote(milestone)}`] : []),
+        ...(state && state !== 'all' ? [`state:${state}`] : []),
+        ...(type ? [`type:${quote(type)}`] : [])
+    ];
+}
+
+// GitHub search returns at most this many results per query
+const SEARCH_RESULT_LIMIT = 1000;
+
+/**
+ * Fetches the issues matching a GitHub search query, e.g.
+ * `org:acme label:bug -label:wontfix is:open`. Pull requests are left out.
+ * @param options.since - Only issues updated since, added to the query
+ * @param options.filter - Added to the query as qualifiers
+ * @param options.logger - Where a truncated result is reported, the console by default
+ */
+export async function searchGithubIssues(
+    octokit: Octokit,
+    { query, since, filter, logger = console }: {
+        query: string
+        since?: Date
+        filter?: GithubIssueFilter
+        logger?: Logger
+    }
+): Promise<GithubIssue[]> {
+    const q = [
+        query,
+        ...(/\bis:(issue|pr|pull-request)\b/.test(query) ? [] : ['is:issue']),
+        ...(since ? [`updated:>=${since.toISOString().replace(/\.\d+Z$/, 'Z')}`] : []),
+        ...githubSearchQualifiers(filter)
+    ].join(' ');
+
+    let total = 0;
+    const items = await octokit.paginate(octokit.search.issuesAndPullRequests, { q, per_page: 100 }, response => {
+        // Pagination unwraps the items and keeps the count on the array
+        total = (response.data as unknown as { total_count?: number }).total_count ?? total;
+        return response.data;
+    });
+    if (total > SEARCH_RESULT_LIMIT) {
+        logger.warn(`⚠️ ${total} issues match "${q}", GitHub search only returns the first ${SEARCH_RESULT_LIMIT}; narrow the query`);
     }
+    // Search results carry the fields of an issue, less some this tool doesn't read
+    return (items as unknown as GithubIssue[]).filter(issue => !issue.pull_request);
+}
+
+/**
+ * The repositories of an organization or a user, or of the authenticated user
+ * when neither is given
+ * @param options.excludeArchived - Leave out archived repositories
+ * @param options.excludeForks - Leave out forks
+ * @returns the repositories in 'owner/repo' format
+ */
+export async function listGithubRepos(
+    octokit: Octokit,
+    { org, user, excludeArchived = false, excludeForks = false }: {
+        org?: string
+        user?: string
+        excludeArchived?: boolean
+        excludeForks?: boolean
+    } = {}
+): Promise<string[]> {
+    const repos = org
+        ? await octokit.paginate(octokit.repos.listForOrg, { org, per_page: 100 })
+        : user
+        ? await octokit.paginate(octokit.repos.listForUser, { username: user, per_page: 100 })
+        : await octokit.paginate(octokit.repos.listForAuthenticatedUser, { per_page: 100 });
+    return repos
+        .filter(repo => !(excludeArchived && repo.archived) && !(excludeForks && repo.fork))
+        .map(repo => `${repo.owner.login}/${repo.name}`);
 }
 
 /**
- * Fetches GitHub issues from multiple repositories in parallel
+ * Fetches GitHub issues from multiple repositories in parallel.
+ * The credentials are checked once per run with validateGithubToken, not here.
  * @param octokit - Authenticated Octokit client
  * @param options - Fetch options
  * @param options.repos - Array of repositories in 'owner/repo' format
  * @param options.authors - Optional array of GitHub usernames to filter by
  * @param options.since - Optional date to fetch issues updated after
+ * @param options.filter - Optional labels, assignee, milestone, state and type the issues must match
+ * @param options.logger - Where inaccessible repositories are reported, the console by default
  * @returns Promise of GitHub issues array
  * @example
  * ```ts
- * const github = createGithubClient(process.env.GITHUB_TOKEN)
+ * const github = getGithubClient()
  * const issues = await fetchGithubIssues(github, {
  *   repos: ['owner/repo1', 'owner/repo2'],
  *   authors: ['username1', 'username2'],
@@ -64,58 +286,49 @@ export async function validateGithubToken(github: Octokit) {
  */
 export async function fetchGithubIssues(
     octokit: Octokit,
-    { repos, authors, since }: {
+    { repos, authors, since, filter = {}, logger = console }: {
         repos: string[]
         authors?: string[]
         since?: Date
+        filter?: GithubIssueFilter
+        logger?: Logger
     }
 ) {
-    // Validate token first
-    await validateGithubToken(octokit);
-
     const fetchRepoIssues = async ([owner, repo]: string[]) => {
         try {
             // Check if repo exists and we have access
-            const { data: repoData } = await octokit.repos.get({
-                owner,
-                repo,
-                headers: {
-                    // Some orgs require this for private repos
-                    authorization: `token ${process.env.GITHUB_TOKEN}`,
-                }
-            });
+            const { data: repoData } = await octokit.repos.get({ owner, repo });
 
             // console.log(`repository data: ${JSON.stringify(repoData)}`);
 
-            if (!repoData.permissions?.pull) {
-                console.error(`No read access to ${owner}/${repo}`);
+            // GitHub Apps get no permissions here, their access shows when listing
+            if (repoData.permissions && !repoData.permissions.pull) {
+                logger.error(`No read access to ${owner}/${repo}`);
                 return [];
             }
 
-            const { data } = await octokit.issues.listForRepo({
+            // GitHub filters what it can, milestones only by number; the rest is matched below
+            const data = await octokit.paginate(octokit.issues.listForRepo, {
                 owner,
                 repo,
-                state: 'all',
+                state: filter.state ?? 'all',
+                labels: filter.labels?.join(','),
+                assignee: filter.assignee,
+                milestone: filter.milestone && /^(\d+|none|\*)$/.test(filter.milestone) ? filter.milestone : undefined,
                 per_page: 100,
-                since: since?.toISOString(),
-                headers: {
-                    authorization: `token ${process.env.GITHUB_TOKEN}`,
-                }
+                since: since?.toISOString()
             });
 
             return data
                 .filter(issue => !issue.pull_request)
                 .filter(issue => issue.user && (!authors?.length || authors.map(a=> a.toLowerCase()).includes(issue.user.login.toLowerCase())))
+                .filter(issue => matchesIssueFilter(issue, filter))
         } catch (error) {
-            if (isGitHubError(error)) {
-                if (error.status === 404) {
-                    console.error(`Repository ${owner}/${repo} not found or no access`);
-                } else {
-                    console.error(`Error fetching ${owner}/${repo}:`, error.message);
-                }
-            } else {
-                console.error(`Unexpected error fetching ${owner}/${repo}`);
+            // Out of retries, the other repositories would hit the same limit
+            if (error instanceof RateLimitError) {
+                throw error;
             }
+            logRepoError(logger, owner, repo, error);
             return [];
         }
     };
@@ -128,3 +341,54 @@ export async function fetchGithubIssues(
     const issuesPerRepo = await Promise.all(repoPromises);
     return issuesPerRepo.flat();
 }
+
+/**
+ * Fetches the pull requests of multiple repositories in parallel
+ * @param octokit - Authenticated Octokit client
+ * @param options.repos - Array of repositories in 'owner/repo' format
+ * @param options.state - Only open or closed pull requests, all by default
+ * @param options.since - Optional date to fetch pull requests updated after
+ * @param options.logger - Where inaccessible repositories are reported, the console by default
+ * @returns Promise of GitHub pull requests array, most recently updated first per repository
+ */
+export async function fetchGithubPullRequests(
+    octokit: Octokit,
+    { repos, state = 'all', since, logger = console }: {
+        repos: string[]
+        state?: 'open' | 'closed' | 'all'
+        since?: Date
+        logger?: Logger
+    }
+): Promise<GithubPullRequest[]> {
+    const fetchRepoPullRequests = async ([owner, repo]: string[]) => {
+        try {
+            // The pulls API has no `since`, so stop paging at the first older pull request
+            return await octokit.paginate(
+                octokit.pulls.list,
+                { owner, repo, state, sort: 'updated', direction: 'desc', per_page: 100 },
+                (response, done) => {
+                    const pulls = response.data.filter(pr => !since || new Date(pr.updated_at) >= since);
+                    if (pulls.length < response.data.length) {
+                        done();
+                    }
+                    return pulls;
+                }
+            );
+        } catch (error) {
+            // Out of retries, the other repositories would hit the same limit
+            if (error instanceof RateLimitError) {
+                throw error;
+            }
+            logRepoError(logger, owner, repo, error);
+            return [];
+        }
+    };
+
+    const pullsPerRepo = await Promise.all(
+        repos
+            .map(repo => repo.split('/'))
+            .filter(([owner, repo]) => owner && repo)
+            .map(fetchRepoPullRequests)
+    );
+    return pullsPerRepo.flat();
+}
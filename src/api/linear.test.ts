@@ -0,0 +1,97 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import {LinkStore} from '../sync/store';
+import {findExistingIssue, findExistingIssues, type GithubIssue} from './linear';
+
+const githubIssue = {
+    node_id: 'I_1',
+    number: 1,
+    title: 'Crash on start',
+    labels: [],
+    html_url: 'https://github.com/acme/app/issues/1',
+    repository_url: 'https://api.github.com/repos/acme/app'
+} as unknown as GithubIssue;
+
+const emptyConnection = { nodes: [], pageInfo: { hasNextPage: false } };
+
+// Linear answering the lookup of the linked issue with `issue`, and finding nothing else
+const fakeLinear = (issue: () => Promise<unknown>) => ({
+    issue,
+    attachmentsForURL: async () => emptyConnection,
+    issues: async () => emptyConnection
+}) as unknown as LinearClient;
+
+function linkedStore() {
+    const store = new LinkStore('/dev/null');
+    store.set({ githubNodeId: 'I_1', githubUrl: githubIssue.html_url, linearId: 'lin-1', linearHash: 'hash' });
+    return store;
+}
+
+describe('findExistingIssue', () => {
+    test('returns the linked issue', async () => {
+        const store = linkedStore();
+        const issue = await findExistingIssue(fakeLinear(async () => ({ id: 'lin-1' })), githubIssue, store);
+
+        expect(issue).toMatchObject({ id: 'lin-1' });
+    });
+
+    test('drops the link of an issue deleted in Linear', async () => {
+        const store = linkedStore();
+        const notFound = fakeLinear(async () => {
+            throw new Error('Entity not found: Issue - Could not find referenced Issue.');
+        });
+
+        expect(await findExistingIssue(notFound, githubIssue, store)).toBeNull();
+        expect(store.get('I_1')).toBeUndefined();
+    });
+
+    test('keeps the link when Linear fails otherwise', async () => {
+        const store = linkedStore();
+        const down = fakeLinear(async () => {
+            throw new Error('Internal server error');
+        });
+
+        await expect(findExistingIssue(down, githubIssue, store)).rejects.toThrow('Internal server error');
+        expect(store.get('I_1')?.linearHash).toBe('hash');
+    });
+});
+
+describe('findExistingIssues', () => {
+    const issue = (number: number) => ({
+        ...githubIssue,
+        node_id: `I_${number}`,
+        number,
+        html_url: `https://github.com/acme/app/issues/${number}`
+    }) as GithubIssue;
+
+    test('resolves links, attachments and mentions with one query each', async () => {
+        const store = new LinkStore('/dev/null');
+        store.set({ githubNodeId: 'I_1', githubUrl: issue(1).html_url, linearId: 'lin-1' });
+        const requests: string[] = [];
+        const linear = {
+            issues: async ({ filter }: { filter: { id?: { in: string[] } } }) => {
+                requests.push(filter.id ? `issues ${filter.id.in}` : 'search');
+                const nodes = filter.id
+                    ? filter.id.in.map(id => ({ id }))
+                    : [{ id: 'lin-3', description: `Reported in ${issue(3).html_url}` }, { id: 'lin-x', description: `See ${issue(4).html_url}2` }];
+                return { nodes, pageInfo: { hasNextPage: false } };
+            },
+            client: {
+                request: async () => {
+                    requests.push('attachments');
+                    return { attachments: { nodes: [{ url: issue(2).html_url, issue: { id: 'lin-2' } }] } };
+                }
+            }
+        } as unknown as LinearClient;
+
+        const found = await findExistingIssues(linear, [issue(1), issue(2), issue(3), issue(4)], store);
+
+        expect([...found].map(([nodeId, linearIssue]) => [nodeId, linearIssue?.id ?? null])).toEqual([
+            ['I_1', 'lin-1'],
+            ['I_2', 'lin-2'],
+            ['I_3', 'lin-3'],
+            ['I_4', null]
+        ]);
+        expect(requests).toEqual(['issues lin-1', 'attachments', 'issues lin-2', 'search']);
+    });
+});
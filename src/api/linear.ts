@@ -1,134 +1,278 @@
 // src/linear.ts
-import type {IssueCreateInput} from "@linear/sdk/dist/_generated_documents";
-import {LinearClient, Issue as LinearIssue, WorkflowState, IssuePayload} from '@linear/sdk'
+import {LinearClient, Issue as LinearIssue, type Connection, type LinearError} from '@linear/sdk'
 import type { components } from '@octokit/openapi-types'
 import type {Octokit} from "@octokit/rest";
+import {hashContent, type LinkStore} from "../sync/store";
+import type {ResolvedRoute} from "../config/config";
+import {applyIssuePlan, planGithubIssueSync, type IssuePlan} from "../sync/plan";
+import {SyncCache} from "../sync/cache";
+import {DEFAULT_CONCURRENCY, settleWithConcurrency} from "../sync/concurrency";
+import {withLinearRateLimit} from "./ratelimit";
+import {AuthError, NotFoundError} from "../errors";
+import type {Logger} from "../logger";
+import {
+    DEFAULT_DESCRIPTION_TEMPLATE,
+    DEFAULT_TITLE_TEMPLATE,
+    DELETED_NOTICE,
+    extractSyncedBlock,
+    mergeSyncedBlock,
+    parseTemplate,
+    renderTemplate,
+    templateVariables
+} from "../sync/template";
+
+export const githubIssueRepo = (issue: GithubIssue) =>
+    issue.repository_url?.split('/').slice(-2).join('/') ?? '';
+
+export const githubIssueLabels = (issue: GithubIssue) =>
+    issue.labels.map(l => (typeof l === 'string' ? l : l.name ?? '').toLowerCase());
+
+// See templateVariables for the supported variables
+export function createGithubTitle(issue: GithubIssue, template = DEFAULT_TITLE_TEMPLATE) {
+    return renderTemplate(template, templateVariables(issue));
+}
 
-const createGithubTitle = (issue: GithubIssue) =>
-    `[🛠️GH] ${issue.repository_url?.split('/').slice(-2).join('/')}#${issue.number}: ${issue.title}`;
-
-
-
-type GithubIssue = components['schemas']['issue']
+// Inverse of createGithubTitle, titles renamed beyond recognition are used as-is
+export function parseGithubTitle(title: string, template = DEFAULT_TITLE_TEMPLATE) {
+    return parseTemplate(title, template, 'title') ?? title;
+}
 
-// Adding proper interface for sync results
-export interface SyncResults {
-    succeeded: IssuePayload[];
-    failed: Array<{
-        error: unknown;
-        message: string;
-    }>;
+/**
+ * Renders the description template into the synced block of the Linear
+ * issue's current description, leaving the rest of it alone
+ */
+export function createGithubDescription(
+    issue: GithubIssue,
+    exists: boolean,
+    template = DEFAULT_DESCRIPTION_TEMPLATE,
+    current?: string | null
+) {
+    const content = [renderTemplate(template, templateVariables(issue)).trim(), exists ? '' : DELETED_NOTICE]
+        .filter(Boolean)
+        .join('\n\n');
+    return mergeSyncedBlock(current, content);
 }
 
-export function getLinearClient(): LinearClient {
-    const apiKey = process.env.LINEAR_API_KEY;
-    if (!apiKey) {
-        console.error('LINEAR_API_KEY environment variable is required');
-        process.exit(1);
+/**
+ * Inverse of createGithubDescription: the GitHub body in the synced block
+ * @returns undefined when the description template has no {body} or the block doesn't match it
+ */
+export function parseGithubDescription(description: string | undefined, template = DEFAULT_DESCRIPTION_TEMPLATE) {
+    const block = extractSyncedBlock(description);
+    if (block !== undefined) {
+        const content = block.split('\n').filter(line => line !== DELETED_NOTICE).join('\n').trim();
+        return parseTemplate(content, template, 'body')?.trim();
     }
-    return new LinearClient({ apiKey });
-}
 
-interface LinkedIssue {
-    linearId: string;
-    githubUrl: string;
-    isDeleted?: boolean;
+    // Issues synced before synced blocks end in a `GitHub:` and `Last Synced:` footer
+    const lines = (description ?? '').split('\n');
+    while (lines.length && (
+        lines[lines.length - 1].startsWith('GitHub: ') ||
+        lines[lines.length - 1].startsWith('Last Synced: ') ||
+        lines[lines.length - 1] === DELETED_NOTICE ||
+        lines[lines.length - 1].trim() === ''
+    )) {
+        lines.pop();
+    }
+    return lines.join('\n');
 }
 
 
-export async function validateLinearProject(
-    client: LinearClient,
-    projectIdOrSlug: string
-): Promise<boolean> {
-    try {
-        // First try to find project by listing all and filtering
-        const { nodes } = await client.projects({});
-        const project = nodes.find(p =>
-            p.id === projectIdOrSlug ||
-            p.slugId === projectIdOrSlug ||
-            p.url.includes(projectIdOrSlug)
-        );
 
-        if (!project) {
-            console.error(`No project found matching: ${projectIdOrSlug}`);
-            return false;
+export type GithubIssue = components['schemas']['issue']
+
+// The outcome of syncing one GitHub issue
+export interface SyncResult {
+    action: 'created' | 'updated' | 'skipped' | 'failed';
+    githubUrl: string;
+    // Missing when the Linear issue wasn't created or couldn't be found
+    linearIdentifier?: string;
+    durationMs: number;
+    // Why the issue was skipped or failed
+    message?: string;
+    error?: unknown;
+    githubIssue: GithubIssue;
+    plan?: IssuePlan;
+}
+
+const RESULT_ACTIONS = { create: 'created', update: 'updated', skip: 'skipped' } as const;
+
+/**
+ * Runs `sync` for each item, at most `concurrency` at a time, and records
+ * what happened to each issue and how long it took
+ */
+export async function collectSyncResults<T>(
+    items: T[],
+    concurrency: number,
+    // The issue an item syncs, and its Linear counterpart when already known
+    subject: (item: T) => Pick<IssuePlan, 'githubIssue' | 'linearIssue'>,
+    sync: (item: T) => Promise<IssuePlan>
+): Promise<SyncResult[]> {
+    const durations: number[] = new Array(items.length);
+    const settled = await settleWithConcurrency(items, concurrency, async (item, i) => {
+        const startedAt = Date.now();
+        try {
+            return await sync(item);
+        } finally {
+            durations[i] = Date.now() - startedAt;
         }
+    });
 
-        // Store the actual ID for later use
-        projectIdOrSlug = project.id;
-        return true;
-    } catch (error) {
-        if (error instanceof Error) {
-            console.error('Project validation error:', error.message);
+    return settled.map((result, i): SyncResult => {
+        const { githubIssue, linearIssue } = subject(items[i]);
+        if (result.status === 'rejected') {
+            return {
+                action: 'failed',
+                githubUrl: githubIssue.html_url,
+                linearIdentifier: linearIssue?.identifier,
+                durationMs: durations[i],
+                message: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+                error: result.reason,
+                githubIssue
+            };
         }
-        return false;
+        const plan = result.value;
+        return {
+            action: RESULT_ACTIONS[plan.action],
+            githubUrl: githubIssue.html_url,
+            linearIdentifier: plan.linearIssue?.identifier,
+            durationMs: durations[i],
+            message: plan.reason,
+            githubIssue,
+            plan
+        };
+    });
+}
+
+// Follows a connection's pages until every node is loaded
+export async function fetchAllNodes<T>(connection: Connection<T> | Promise<Connection<T>>): Promise<T[]> {
+    const page = await connection;
+    while (page.pageInfo.hasNextPage) {
+        await page.fetchNext();
     }
+    return page.nodes;
 }
 
+/**
+ * The Linear client for LINEAR_API_KEY
+ * @throws {AuthError} when it isn't set
+ */
+export function getLinearClient(apiKey = process.env.LINEAR_API_KEY, logger?: Logger): LinearClient {
+    if (!apiKey) {
+        throw new AuthError('LINEAR_API_KEY environment variable is required');
+    }
+    return withLinearRateLimit(new LinearClient({ apiKey }), logger);
+}
 
-export async function checkGithubIssueExists(
-    octokit: Octokit,
-    issueUrl: string
-): Promise<boolean> {
-    const [owner, repo, number] = issueUrl
-        .replace('https://github.com/', '')
-        .replace('/issues/', '/')
-        .split('/');
+// github.com or a GitHub Enterprise Server host
+const GITHUB_ISSUE_URL = /https:\/\/[\w.-]+(?::\d+)?\/([\w.-]+)\/([\w.-]+)\/issues\/(\d+)/;
 
-    try {
-        await octokit.issues.get({
-            owner,
-            repo,
-            issue_number: parseInt(number)
-        });
-        return true;
-    } catch {
-        return false;
+export function parseGithubIssueUrl(url: string) {
+    const match = url.match(GITHUB_ISSUE_URL);
+    if (!match) {
+        return null;
     }
+    const [htmlUrl, owner, repo, number] = match;
+    return { htmlUrl, owner, repo, number: parseInt(number) };
 }
 
-interface WorkflowStates {
-    backlog: WorkflowState
-    done: WorkflowState
+export const hashGithubIssue = (issue: GithubIssue) =>
+    hashContent(issue.title, issue.body, issue.state);
+
+export const hashLinearIssue = (issue: Pick<LinearIssue, 'title' | 'description'>, stateId: string | undefined) =>
+    hashContent(issue.title, issue.description, stateId);
+
+
+export async function findLinearProject(
+    client: LinearClient,
+    projectIdOrSlug: string,
+    cache = new SyncCache(client)
+) {
+    const nodes = await cache.projects();
+    return nodes.find(p =>
+        p.id === projectIdOrSlug ||
+        p.slugId === projectIdOrSlug ||
+        p.url.includes(projectIdOrSlug) ||
+        p.name.toLowerCase() === projectIdOrSlug.toLowerCase()
+    );
 }
 
-// Step 1: Get workflow states with error handling
-async function getWorkflowStates(
+// Teams can be referenced by ID, key (e.g. ENG) or name
+export async function findLinearTeam(
     client: LinearClient,
-    teamId: string
-): Promise<WorkflowStates> {
-    const workflow = await client.workflowStates({
-        filter: {
-            team: { id: { eq: teamId } }
-        }
-    })
+    teamIdOrKey: string,
+    cache = new SyncCache(client)
+) {
+    const nodes = await cache.teams();
+    const wanted = teamIdOrKey.toLowerCase();
+    return nodes.find(t =>
+        t.id === teamIdOrKey ||
+        t.key.toLowerCase() === wanted ||
+        t.name.toLowerCase() === wanted
+    );
+}
 
-    const backlog = workflow.nodes.find(s => s.name === 'Backlog')
-    const done = workflow.nodes.find(s => s.name === 'Done')
+/**
+ * @returns the ID of a project referenced by ID, slug or name
+ * @throws {NotFoundError} when there is no such project
+ */
+export async function validateLinearProject(
+    client: LinearClient,
+    projectIdOrSlug: string
+): Promise<string> {
+    const project = await findLinearProject(client, projectIdOrSlug);
+    if (!project) {
+        throw new NotFoundError(`No project found matching: ${projectIdOrSlug}`);
+    }
+    return project.id;
+}
 
-    if (!backlog || !done) {
-        const missing = [
-            !backlog && 'Backlog',
-            !done && 'Done'
-        ].filter(Boolean).join(', ')
 
-        throw new Error(
-            `Required workflow states missing for team ${teamId}: ${missing}`
-        )
-    }
+export const CLOSED_STATE_TYPES = ['completed', 'canceled'];
 
-    return { backlog, done }
+// Linear answers lookups of deleted or unknown IDs with "Entity not found"
+export function isLinearNotFound(error: unknown): boolean {
+    const { message, errors } = error as Partial<LinearError>;
+    return [message, ...(errors ?? []).map(e => e.message)].some(text => /entity not found/i.test(text ?? ''));
 }
 
 // Step 2: Find existing issue with error handling
-// Update findExistingIssue to check all possible linking fields
+// Lookup order: local link store, Linear attachments, then legacy text matching
 export async function findExistingIssue(
     client: LinearClient,
-    githubIssue: GithubIssue
+    githubIssue: GithubIssue,
+    store?: LinkStore
 ): Promise<LinearIssue | null> {
     const issueUrl = githubIssue.html_url!;
-    const title = createGithubTitle(githubIssue);
 
+    const link = store?.get(githubIssue.node_id);
+    if (link) {
+        let linked: LinearIssue | null | undefined;
+        try {
+            linked = await client.issue(link.linearId);
+        } catch (error) {
+            // Rate limits, timeouts and outages must not cost the link its comments and hashes
+            if (!isLinearNotFound(error)) {
+                throw error;
+            }
+        }
+        if (linked) {
+            return linked;
+        }
+        // Linked issue was deleted in Linear, fall through and relink
+        store!.delete(githubIssue.node_id);
+    }
+
+    const attachments = await fetchAllNodes(client.attachmentsForURL(issueUrl));
+    for (const attachment of attachments) {
+        const issue = await attachment.issue;
+        if (issue) {
+            return issue;
+        }
+    }
+
+    // Issues synced before links were tracked only carry the URL in their description
+    const title = createGithubTitle(githubIssue);
     const issues = await client.issues({
         filter: {
             or: [
@@ -137,70 +281,240 @@ export async function findExistingIssue(
             ]
         }
     });
-    return issues.nodes[0] ?? null;
+    // The filter also matches longer URLs, e.g. …/issues/12 for …/issues/1
+    return issues.nodes.find(issue => mentionsUrl(issue.description, issueUrl) || issue.title === title) ?? null;
 }
 
+// Keeps batched filters well under Linear's query complexity limit
+const LOOKUP_BATCH_SIZE = 50;
 
-// Step 3: Main sync function with comprehensive error handling
-export async function syncGithubIssueToLinear(
+const chunk = <T>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// The SDK's Attachment model doesn't expose the issue ID, so this one is queried directly
+const ATTACHMENT_ISSUES_QUERY = `
+    query AttachmentIssues($urls: [String!]!) {
+        attachments(first: 250, filter: { url: { in: $urls } }) {
+            nodes { url issue { id } }
+        }
+    }
+`;
+
+interface AttachmentIssuesData {
+    attachments: { nodes: Array<{ url: string; issue: { id: string } | null }> };
+}
+
+async function fetchIssuesById(client: LinearClient, ids: string[]): Promise<LinearIssue[]> {
+    const batches = await Promise.all(
+        chunk([...new Set(ids)], LOOKUP_BATCH_SIZE).map(batch => fetchAllNodes(client.issues({
+            first: LOOKUP_BATCH_SIZE,
+            includeArchived: true,
+            filter: { id: { in: batch } }
+        })))
+    );
+    return batches.flat();
+}
+
+// "…/issues/1" must not match a description linking "…/issues/12"
+const mentionsUrl = (text: string | undefined, url: string) =>
+    (text ?? '').split(url).slice(1).some(rest => !/^\d/.test(rest));
+
+/**
+ * Batched variant of {@link findExistingIssue}: resolves the Linear
+ * counterparts of many GitHub issues with a handful of queries, following
+ * the same lookup order. Issues without a counterpart map to null.
+ */
+export async function findExistingIssues(
     client: LinearClient,
-    githubClient: Octokit,
-    githubIssue: GithubIssue,
-    projectIdOrSlug: string,
-    teamId: string
-): Promise<IssuePayload> {
-    if (!githubIssue.html_url) {
-        throw new Error('GitHub issue URL is required');
+    githubIssues: GithubIssue[],
+    store?: LinkStore
+): Promise<Map<string, LinearIssue | null>> {
+    const found = new Map<string, LinearIssue | null>();
+
+    const linked = githubIssues.filter(issue => store?.get(issue.node_id));
+    const byId = new Map(
+        (await fetchIssuesById(client, linked.map(issue => store!.get(issue.node_id)!.linearId)))
+            .map(issue => [issue.id, issue])
+    );
+    for (const issue of linked) {
+        const linearIssue = byId.get(store!.get(issue.node_id)!.linearId);
+        if (linearIssue) {
+            found.set(issue.node_id, linearIssue);
+        } else {
+            // Linked issue was deleted in Linear, look it up below and relink
+            store!.delete(issue.node_id);
+        }
     }
 
-    // Get the actual project first
-    const { nodes } = await client.projects({});
-    const project = nodes.find(p =>
-        p.id === projectIdOrSlug ||
-        p.slugId === projectIdOrSlug ||
-        p.url.includes(projectIdOrSlug)
+    let remaining = githubIssues.filter(issue => !found.has(issue.node_id));
+    const attachedIds = new Map<string, string>();
+    for (const batch of chunk(remaining.map(issue => issue.html_url), LOOKUP_BATCH_SIZE)) {
+        const data = await client.client.request<AttachmentIssuesData, { urls: string[] }>(
+            ATTACHMENT_ISSUES_QUERY,
+            { urls: batch }
+        );
+        for (const attachment of data.attachments.nodes) {
+            if (attachment.issue && !attachedIds.has(attachment.url)) {
+                attachedIds.set(attachment.url, attachment.issue.id);
+            }
+        }
+    }
+    const attached = new Map(
+        (await fetchIssuesById(client, [...attachedIds.values()])).map(issue => [issue.id, issue])
     );
+    for (const issue of remaining) {
+        const linearIssue = attached.get(attachedIds.get(issue.html_url) ?? '');
+        if (linearIssue) {
+            found.set(issue.node_id, linearIssue);
+        }
+    }
 
-    if (!project) {
-        throw new Error(`Linear project not found: ${projectIdOrSlug}`);
+    remaining = remaining.filter(issue => !found.has(issue.node_id));
+    for (const batch of chunk(remaining, LOOKUP_BATCH_SIZE / 2)) {
+        const candidates = await fetchAllNodes(client.issues({
+            first: 100,
+            filter: {
+                or: batch.flatMap(issue => [
+                    { description: { contains: issue.html_url } },
+                    { title: { eq: createGithubTitle(issue) } }
+                ])
+            }
+        }));
+        for (const issue of batch) {
+            const title = createGithubTitle(issue);
+            found.set(issue.node_id, candidates.find(c =>
+                mentionsUrl(c.description, issue.html_url) || c.title === title
+            ) ?? null);
+        }
     }
 
-    // Use the correct project ID for the rest of the sync
-    const projectId = project.id;
+    return found;
+}
 
-    const states = await getWorkflowStates(client, teamId);
-    const existingIssue = await findExistingIssue(client, githubIssue);
-    const githubIssueExists = await checkGithubIssueExists(
-        githubClient,
-        githubIssue.html_url
-    );
+/**
+ * Attaches the GitHub issue to the Linear issue so the link can be
+ * recovered from Linear alone, and records it in the link store.
+ */
+export async function linkGithubIssue(
+    client: LinearClient,
+    linearIssue: Pick<LinearIssue, 'id' | 'identifier'>,
+    githubIssue: GithubIssue,
+    store?: LinkStore
+) {
+    const repo = githubIssue.repository_url?.split('/').slice(-2).join('/');
+    await client.createAttachment({
+        issueId: linearIssue.id,
+        url: githubIssue.html_url!,
+        title: `${repo}#${githubIssue.number}`,
+        subtitle: githubIssue.title,
+        metadata: {
+            githubNodeId: githubIssue.node_id,
+            githubUrl: githubIssue.html_url,
+            repository: repo,
+            number: githubIssue.number
+        }
+    });
 
-    // Short circuit: Don't create new Linear issues for closed GitHub issues
-    if (!existingIssue && githubIssue.state.toLowerCase() === 'closed') {
-        throw new Error(
-            `Skipping closed GitHub issue: ${githubIssue.html_url}`
-        );
+    store?.set({
+        ...store.get(githubIssue.node_id),
+        githubNodeId: githubIssue.node_id,
+        githubUrl: githubIssue.html_url!,
+        linearId: linearIssue.id,
+        linearIdentifier: linearIssue.identifier
+    });
+}
+
+/**
+ * The GitHub issue a Linear issue is linked to, the counterpart of
+ * findExistingIssue: the link store first, then GitHub attachments, then the
+ * `GitHub: <url>` description line of issues synced before links were tracked.
+ */
+export async function findLinkedGithubIssue(
+    linearIssue: Pick<LinearIssue, 'id' | 'description' | 'attachments'>,
+    store?: LinkStore
+): Promise<ReturnType<typeof parseGithubIssueUrl>> {
+    const link = store?.findByLinearId(linearIssue.id);
+    if (link) {
+        return parseGithubIssueUrl(link.githubUrl);
     }
 
-    const issueData: IssueCreateInput = {
-        title: createGithubTitle(githubIssue),
-        description: [
-            githubIssue.body,
-            '',
-            `GitHub: ${githubIssue.html_url}`,
-            githubIssueExists ? '' : '⚠️ Original GitHub issue was deleted',
-            `Last Synced: ${new Date().toISOString()}`
-        ].filter(Boolean).join('\n'),
-        projectId,
-        teamId,
-        stateId: githubIssue.state.toLowerCase() === 'closed' || !githubIssueExists
-            ? states.done.id
-            : states.backlog.id,
-    };
+    const attachments = await fetchAllNodes(linearIssue.attachments());
+    return [...attachments.map(a => a.url), linearIssue.description ?? '']
+        .map(text => parseGithubIssueUrl(text))
+        .find(Boolean) ?? null;
+}
 
-    return existingIssue
-        ? await existingIssue.update(issueData)
-        : await client.createIssue(issueData);
+interface LinkedIssueSummary {
+    linearIdentifier: string;
+    githubUrl: string;
+}
+
+/**
+ * Rebuilds the link store from existing Linear issues, using GitHub
+ * attachments first and the `GitHub: <url>` description line as fallback.
+ */
+export async function relinkFromLinear(
+    client: LinearClient,
+    githubClient: Octokit,
+    store: LinkStore,
+    teamId?: string
+): Promise<{ linked: LinkedIssueSummary[]; failed: string[] }> {
+    const issues = await fetchAllNodes(client.issues({
+        first: 100,
+        filter: {
+            ...(teamId ? { team: { id: { eq: teamId } } } : {}),
+            or: [
+                { attachments: { url: { contains: 'github.com/' } } },
+                { description: { contains: 'https://github.com/' } }
+            ]
+        }
+    }));
+
+    const linked: LinkedIssueSummary[] = [];
+    const failed: string[] = [];
+
+    for (const issue of issues) {
+        const url = await findLinkedGithubIssue(issue);
+        if (!url) {
+            continue;
+        }
+
+        try {
+            const { data: githubIssue } = await githubClient.issues.get({
+                owner: url.owner,
+                repo: url.repo,
+                issue_number: url.number
+            });
+            await linkGithubIssue(client, issue, githubIssue, store);
+            linked.push({ linearIdentifier: issue.identifier, githubUrl: githubIssue.html_url });
+        } catch (error) {
+            failed.push(`${issue.identifier} → ${url.htmlUrl}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    return { linked, failed };
+}
+
+// Step 3: Main sync function with comprehensive error handling
+// Plans and applies right away; `sync --dry-run` and `sync apply` split the two steps
+export async function syncGithubIssueToLinear(
+    client: LinearClient,
+    githubClient: Octokit,
+    githubIssue: GithubIssue,
+    route: ResolvedRoute,
+    store: LinkStore,
+    cache = new SyncCache(client),
+    logger?: Logger
+): Promise<IssuePlan> {
+    const plan = await planGithubIssueSync(client, githubClient, githubIssue, route, store, cache);
+    return applyIssuePlan(client, githubClient, plan, store, cache, logger);
+}
+
+export interface SyncIssuesOptions {
+    // Shared across routes of one run; a fresh cache is used when omitted
+    cache?: SyncCache;
+    // Issues synced at the same time
+    concurrency?: number;
 }
 
 // Step 4: Usage example
@@ -208,44 +522,30 @@ export async function syncIssues(
     client: LinearClient,
     githubClient: Octokit,
     issues: GithubIssue[],
-    projectId: string,
-    teamId: string
-): Promise<SyncResults> {
-    const results = await Promise.allSettled(
-        issues.map(issue =>
-            syncGithubIssueToLinear(
-                client,
-                githubClient,
-                issue,
-                projectId,
-                teamId
-            )
-        )
+    route: ResolvedRoute,
+    store: LinkStore,
+    { cache = new SyncCache(client), concurrency = DEFAULT_CONCURRENCY }: SyncIssuesOptions = {}
+): Promise<SyncResult[]> {
+    // These were just listed from GitHub, so they don't need to be fetched again to check they exist
+    issues.forEach(issue => cache.fetchedIssues.add(issue.node_id));
+
+    const missing = issues.filter(issue => !cache.existingIssues.has(issue.node_id));
+    if (missing.length) {
+        const existing = await findExistingIssues(client, missing, store);
+        existing.forEach((issue, nodeId) => cache.existingIssues.set(nodeId, issue));
+    }
+    await cache.prefetchSnapshots(
+        issues.map(issue => cache.existingIssues.get(issue.node_id)?.id).filter(id => id !== undefined)
     );
 
-    return {
-        succeeded: results
-            .filter((r): r is PromiseFulfilledResult<IssuePayload> =>
-                r.status === 'fulfilled'
-            )
-            .map(r => r.value),
-        failed: results
-            .filter((r): r is PromiseRejectedResult =>
-                r.status === 'rejected'
-            )
-            .map(r => ({
-                error: r.reason,
-                message: r.reason instanceof Error ? r.reason.message : 'Unknown error'
-            }))
-    };
-}
-
-
-// src/types.ts
-export interface SyncResult {
-    succeeded: LinearIssue[]
-    failed: Array<{
-        error: unknown
-        message: string
-    }>
+    return collectSyncResults(issues, concurrency, githubIssue => ({ githubIssue }), issue =>
+        syncGithubIssueToLinear(
+            client,
+            githubClient,
+            issue,
+            route,
+            store,
+            cache
+        )
+    );
 }
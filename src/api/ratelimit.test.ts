@@ -0,0 +1,142 @@
+import {afterEach, describe, expect, mock, spyOn, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import {Octokit} from '@octokit/rest';
+import {RateLimitError} from '../errors';
+import {silentLogger} from '../logger';
+import {requestCount, withGithubRateLimit, withLinearRateLimit} from './ratelimit';
+
+const NOW = 1_700_000_000_000;
+
+// A fake clock: sleeping moves it forward at once, and jitter adds `random` × 25%
+function fakeClock(random = 0) {
+    let now = NOW;
+    const waits: number[] = [];
+    spyOn(Date, 'now').mockImplementation(() => now);
+    spyOn(Math, 'random').mockReturnValue(random);
+    spyOn(globalThis, 'setTimeout').mockImplementation(((resolve: () => void, ms: number) => {
+        waits.push(ms);
+        now += ms;
+        resolve();
+        return 0;
+    }) as unknown as typeof setTimeout);
+    return waits;
+}
+
+afterEach(() => mock.restore());
+
+const githubResponse = (status: number, headers: Record<string, string> = {}, message = 'Forbidden') =>
+    new Response(JSON.stringify(status < 400 ? { login: 'octocat' } : { message }), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers }
+    });
+
+// GitHub answering each request with the next response, the last one repeating
+function fakeGithub(...responses: Array<() => Response>) {
+    let calls = 0;
+    const fetch = async () => responses[Math.min(calls++, responses.length - 1)]();
+    const log = { debug() {}, info() {}, warn() {}, error() {} };
+    return withGithubRateLimit(new Octokit({ request: { fetch }, log }), silentLogger);
+}
+
+const ok = () => githubResponse(200);
+
+describe('withGithubRateLimit', () => {
+    test('retries after retry-after, with jitter on top', async () => {
+        const waits = fakeClock(1);
+        const github = fakeGithub(() => githubResponse(429, { 'retry-after': '30' }), ok);
+
+        const { data } = await github.users.getAuthenticated();
+
+        expect(data.login).toBe('octocat');
+        expect(waits).toEqual([37_500]);
+        expect(requestCount(github)).toBe(2);
+    });
+
+    test('waits for x-ratelimit-reset once the quota is used up', async () => {
+        const waits = fakeClock();
+        const exhausted = { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(NOW / 1000 + 120) };
+        const github = fakeGithub(() => githubResponse(403, exhausted, 'API rate limit exceeded'), ok);
+
+        await github.users.getAuthenticated();
+
+        expect(waits).toEqual([120_000]);
+    });
+
+    test('pauses the next request when a response used up the quota', async () => {
+        const waits = fakeClock();
+        const github = fakeGithub(() => githubResponse(200, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(NOW / 1000 + 60) }), ok);
+
+        await github.users.getAuthenticated();
+        expect(waits).toEqual([]);
+        await github.users.getAuthenticated();
+        expect(waits).toEqual([60_000]);
+    });
+
+    test('backs off secondary limits exponentially, giving up past the longest wait', async () => {
+        const waits = fakeClock();
+        const github = fakeGithub(() => githubResponse(403, {}, 'You have exceeded a secondary rate limit'));
+
+        const request = github.users.getAuthenticated();
+
+        await expect(request).rejects.toThrow(RateLimitError);
+        await expect(request).rejects.toThrow('GitHub rate limit hit, it resets in 960s');
+        expect(waits).toEqual([60_000, 120_000, 240_000, 480_000]);
+    });
+
+    test('does not retry a plain permission error', async () => {
+        const waits = fakeClock();
+        const github = fakeGithub(() => githubResponse(403, {}, 'Resource not accessible by integration'));
+
+        await expect(github.users.getAuthenticated()).rejects.toMatchObject({ status: 403 });
+        expect(waits).toEqual([]);
+        expect(requestCount(github)).toBe(1);
+    });
+});
+
+const linearRateLimited = (headers: Record<string, string> = {}) =>
+    Object.assign(new Error('Rate limit exceeded'), { response: { status: 429, headers: new Headers(headers) } });
+
+// Linear failing each request with the next error, then answering
+function fakeLinear(...errors: Error[]) {
+    let calls = 0;
+    const request = async () => {
+        const error = errors[calls++];
+        if (error) {
+            throw error;
+        }
+        return { viewer: { id: 'user-1' } };
+    };
+    return withLinearRateLimit({ client: { request } } as unknown as LinearClient, silentLogger);
+}
+
+describe('withLinearRateLimit', () => {
+    test('waits until the exhausted budget resets', async () => {
+        const waits = fakeClock();
+        const linear = fakeLinear(linearRateLimited({
+            'x-ratelimit-requests-remaining': '120',
+            'x-ratelimit-complexity-remaining': '0',
+            'x-ratelimit-complexity-reset': String(NOW + 10_000)
+        }));
+
+        expect(await linear.client.request<unknown, {}>('query { viewer { id } }')).toEqual({ viewer: { id: 'user-1' } });
+        expect(waits).toEqual([10_000]);
+        expect(requestCount(linear)).toBe(2);
+    });
+
+    test('backs off without reset headers, giving up after the retries', async () => {
+        const waits = fakeClock();
+        const linear = fakeLinear(...Array.from({ length: 6 }, () => linearRateLimited()));
+
+        await expect(linear.client.request('query { viewer { id } }')).rejects.toThrow(RateLimitError);
+        expect(waits).toEqual([5_000, 10_000, 20_000, 40_000, 80_000]);
+        expect(requestCount(linear)).toBe(6);
+    });
+
+    test('does not retry other errors', async () => {
+        const waits = fakeClock();
+        const linear = fakeLinear(Object.assign(new Error('Authentication required'), { response: { status: 401 } }));
+
+        await expect(linear.client.request('query { viewer { id } }')).rejects.toThrow('Authentication required');
+        expect(waits).toEqual([]);
+    });
+});
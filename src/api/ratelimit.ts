@@ -0,0 +1,160 @@
+import {LinearErrorType, parseLinearError, type LinearClient, type LinearErrorRaw} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {RateLimitError} from '../errors';
+import type {Logger} from '../logger';
+
+// Attempts after the first before a rate-limited request gives up
+const MAX_RETRIES = 5;
+// Longer waits (e.g. an exhausted hourly quota) fail instead of hanging the run
+const MAX_WAIT_MS = 15 * 60_000;
+// GitHub asks to wait at least a minute on secondary limits without retry-after
+const GITHUB_SECONDARY_DELAY_MS = 60_000;
+const LINEAR_RETRY_DELAY_MS = 5_000;
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+// Requests sent per client, retries included
+const requestCounts = new WeakMap<object, number>();
+
+const countRequest = (client: object) => requestCounts.set(client, requestCount(client) + 1);
+
+export const requestCount = (client: object) => requestCounts.get(client) ?? 0;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Adds up to 25% on top, so concurrent requests don't all retry at once
+const jitter = (ms: number) => Math.round(ms * (1 + Math.random() * 0.25));
+
+const backoff = (base: number, attempt: number) => jitter(base * 2 ** attempt);
+
+function logWait(logger: Logger, api: string, ms: number, attempt: number) {
+    logger.log(`⏳ ${api} rate limit hit, retrying in ${Math.ceil(ms / 1000)}s (${attempt + 1}/${MAX_RETRIES})`);
+}
+
+const rateLimitError = (api: string, delay: number, error: unknown) => new RateLimitError(
+    `${api} rate limit hit, it resets in ${Math.ceil(delay / 1000)}s`,
+    delay,
+    { cause: error }
+);
+
+// Time until GitHub's quota resets, when the headers say it is used up
+function githubResetDelay(headers: ResponseHeaders): number | undefined {
+    if (headers['retry-after'] !== undefined) {
+        return Number(headers['retry-after']) * 1000;
+    }
+    if (String(headers['x-ratelimit-remaining']) === '0' && headers['x-ratelimit-reset'] !== undefined) {
+        return Math.max(0, Number(headers['x-ratelimit-reset']) * 1000 - Date.now());
+    }
+    return undefined;
+}
+
+function githubRetryDelay(error: unknown, attempt: number): number | undefined {
+    const { status, message, response } = error as {
+        status?: number;
+        message?: string;
+        response?: { headers?: ResponseHeaders };
+    };
+    if (status !== 403 && status !== 429) {
+        return undefined;
+    }
+
+    const reset = githubResetDelay(response?.headers ?? {});
+    if (reset !== undefined) {
+        return jitter(reset);
+    }
+    // A 403 without rate limit headers is a plain permission error
+    if (status === 429 || /secondary rate limit/i.test(message ?? '')) {
+        return backoff(GITHUB_SECONDARY_DELAY_MS, attempt);
+    }
+    return undefined;
+}
+
+/**
+ * Makes the client wait out GitHub rate limits. Once a response reports no
+ * remaining quota, further requests pause until it resets; requests that hit
+ * a primary or secondary limit are retried after retry-after, the reset time
+ * or an exponential backoff with jitter.
+ * @throws {RateLimitError} when the limit doesn't reset within the retries
+ */
+export function withGithubRateLimit(octokit: Octokit, logger: Logger = console): Octokit {
+    let resumeAt = 0;
+
+    octokit.hook.wrap('request', async (request, options) => {
+        for (let attempt = 0; ; attempt++) {
+            const pause = resumeAt - Date.now();
+            if (pause > 0) {
+                await sleep(pause);
+            }
+
+            try {
+                countRequest(octokit);
+                const response = await request(options);
+                if (String(response.headers['x-ratelimit-remaining']) === '0') {
+                    resumeAt = Date.now() + (githubResetDelay(response.headers) ?? 0);
+                }
+                return response;
+            } catch (error) {
+                const delay = githubRetryDelay(error, attempt);
+                if (delay === undefined) {
+                    throw error;
+                }
+                if (attempt >= MAX_RETRIES || delay > MAX_WAIT_MS) {
+                    throw rateLimitError('GitHub', delay, error);
+                }
+                logWait(logger, 'GitHub', delay, attempt);
+                resumeAt = Math.max(resumeAt, Date.now() + delay);
+            }
+        }
+    });
+
+    return octokit;
+}
+
+// Linear sends separate request and complexity budgets, with resets in epoch milliseconds
+function linearRetryDelay(error: unknown, attempt: number): number | undefined {
+    const parsed = parseLinearError(error as LinearErrorRaw);
+    if (parsed.type !== LinearErrorType.Ratelimited && parsed.status !== 429) {
+        return undefined;
+    }
+
+    const headers = parsed.raw?.response?.headers;
+    const resets = ['requests', 'complexity']
+        .filter(budget => Number(headers?.get(`x-ratelimit-${budget}-remaining`) ?? 1) <= 0)
+        .map(budget => Number(headers?.get(`x-ratelimit-${budget}-reset`)) - Date.now())
+        .filter(ms => Number.isFinite(ms) && ms > 0);
+
+    return resets.length
+        ? jitter(Math.max(...resets))
+        : backoff(LINEAR_RETRY_DELAY_MS, attempt);
+}
+
+/**
+ * Retries Linear requests rejected by the request or complexity rate limit,
+ * waiting until the exhausted budget resets or backing off exponentially.
+ * @throws {RateLimitError} when the budget doesn't reset within the retries
+ */
+export function withLinearRateLimit(client: LinearClient, logger: Logger = console): LinearClient {
+    const graphql = client.client;
+    const request = graphql.request.bind(graphql);
+
+    graphql.request = (async (...args: Parameters<typeof request>) => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                countRequest(client);
+                return await request(...args);
+            } catch (error) {
+                const delay = linearRetryDelay(error, attempt);
+                if (delay === undefined) {
+                    throw error;
+                }
+                if (attempt >= MAX_RETRIES || delay > MAX_WAIT_MS) {
+                    throw rateLimitError('Linear', delay, error);
+                }
+                logWait(logger, 'Linear', delay, attempt);
+                await sleep(delay);
+            }
+        }
+    }) as typeof graphql.request;
+
+    return client;
+}
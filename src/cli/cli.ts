@@ -1,13 +1,61 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
-import {findExistingIssue, getLinearClient, syncIssues, type SyncResults} from '../api/LinearAPI';
-import {createGithubClient, fetchGithubIssues, validateGithubToken} from '../api/GitHubAPI';
-import { LinearClient, IssuePayload } from '@linear/sdk';
+import { Command, Option } from 'commander';
+import {Console} from 'node:console';
+import {readFileSync, writeFileSync} from 'node:fs';
+import type {Octokit} from '@octokit/rest';
+import {
+    fetchAllNodes,
+    getLinearClient,
+    parseGithubIssueUrl,
+    relinkFromLinear,
+    type SyncResult
+} from '../api/linear';
+import {
+    fetchGithubIssues,
+    fetchGithubPullRequests,
+    getGithubClient,
+    listGithubRepos,
+    validateGithubToken,
+    type GithubIssueFilter
+} from '../api/github';
+import {requestCount} from '../api/ratelimit';
+import {ConfigError, NotFoundError, PlanConflictError, SyncError} from '../errors';
+import {silentLogger, type Logger} from '../logger';
+import type {CommentSyncMode} from '../sync/comments';
+import {DEFAULT_CONCURRENCY} from '../sync/concurrency';
+import {GithubLinearSync, type SyncDirection} from '../sync/engine';
+import type {SyncPlan} from '../sync/plan';
+import {DEFAULT_JOURNAL_DIR, RunJournal, type SyncRunRecord} from '../sync/journal';
+import {DEFAULT_STORE_PATH, LinkStore} from '../sync/store';
+import {getTeamWorkflowStates, loadStateMapping} from '../sync/states';
+import {findPullRequestReferences, pullRequestStage} from '../sync/pulls';
+import {
+    CONFIG_FILES,
+    findConfigFile,
+    loadConfig,
+    validateConfig,
+    type SyncConfig
+} from '../config/config';
+import {startWebhookServer} from '../server/server';
+import {printPlan, reviewPlan} from './interactive';
+import {
+    countResults,
+    FAIL_ON,
+    formatReport,
+    OUTPUT_FORMATS,
+    resultConflicts,
+    shouldFail,
+    type FailOn,
+    type OutputFormat
+} from './output';
+import { LinearClient } from '@linear/sdk';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const program = new Command();
+const program = new Command()
+    // Lets subcommands such as `sync status` reuse option names of their parent command
+    .enablePositionalOptions();
 
 function validateEnvVars(...vars: string[]) {
     const missing = vars.filter(v => !process.env[v]);
@@ -17,6 +65,193 @@ function validateEnvVars(...vars: string[]) {
     }
 }
 
+function validateOptions<T extends object, K extends keyof T & string>(
+    opts: T,
+    ...names: K[]
+): asserts opts is T & { [P in K]-?: NonNullable<T[P]> } {
+    const missing = names.filter(name => opts[name] === undefined);
+    if (missing.length) {
+        console.error(`Missing required options: ${missing.map(name => `--${name}`).join(', ')}`);
+        process.exit(1);
+    }
+}
+
+// The flags of the sync command that select the routes and issues
+interface SyncSelectionOptions {
+    config?: string | boolean;
+    repos?: string[];
+    org?: string;
+    excludeArchived?: boolean;
+    excludeForks?: boolean;
+    query?: string;
+    team?: string;
+    project?: string;
+    authors?: string[];
+    label?: string[];
+    excludeLabel?: string[];
+    assignee?: string;
+    milestone?: string;
+    state?: GithubIssueFilter['state'];
+    type?: string;
+    since?: string;
+    stateMapping?: string;
+}
+
+// The flags of the sync command, as commander parses them
+interface SyncCommandOptions extends SyncSelectionOptions {
+    interactive?: boolean;
+    yes?: boolean;
+    full?: boolean;
+    store?: string;
+    runs: string;
+    concurrency: string;
+    dryRun?: boolean;
+    planOut?: string;
+    pullRequests: boolean;
+    linearLabel?: string[];
+    linearProject?: string;
+    linearState?: string[];
+    output?: OutputFormat;
+    failOn: FailOn;
+    direction: SyncDirection;
+    comments?: CommentSyncMode;
+}
+
+// Repositories a search query is limited to by its repo:, org: and user: qualifiers
+async function queryRepos(github: Octokit, query: string, opts: SyncSelectionOptions): Promise<string[]> {
+    const repos: string[] = [];
+    for (const [, qualifier, value] of query.matchAll(/(?:^|\s)(repo|org|user):"?([\w.\/-]+)"?/g)) {
+        repos.push(...qualifier === 'repo' ? [value] : await listGithubRepos(github, { ...opts, org: undefined, [qualifier]: value }));
+    }
+    return repos;
+}
+
+/**
+ * Builds the sync config from --config, a config file in the working
+ * directory, or the --repos/--org/--query and --team/--project flags, in that order
+ */
+async function loadSyncConfig(opts: SyncSelectionOptions, github?: Octokit, logger: Logger = console): Promise<SyncConfig> {
+    const filter = Object.fromEntries(Object.entries({
+        labels: opts.label,
+        excludeLabels: opts.excludeLabel,
+        assignee: opts.assignee,
+        milestone: opts.milestone,
+        state: opts.state,
+        type: opts.type
+    }).filter(([, value]) => value !== undefined)) as GithubIssueFilter;
+    const withFilter = (config: SyncConfig): SyncConfig => Object.keys(filter).length
+        ? { ...config, routes: config.routes.map(route => ({ filter, ...route })) }
+        : config;
+
+    if (opts.config || !(opts.repos || opts.org || opts.team)) {
+        const path = typeof opts.config === 'string' ? opts.config : findConfigFile();
+        if (path) {
+            logger.log(`Using config ${path}`);
+            return withFilter(await loadConfig(path));
+        }
+        if (opts.config) {
+            console.error(`No config file found, expected one of: ${CONFIG_FILES.join(', ')}`);
+            process.exit(1);
+        }
+    }
+
+    validateOptions(opts, 'team', 'project');
+    const repos = opts.repos
+        ?? (github && opts.org ? await listRepos(github, opts) : undefined)
+        ?? (github && opts.query ? await queryRepos(github, opts.query, opts) : []);
+    if (!repos.length) {
+        console.error('No repositories to sync, pass --repos, --org or a --query with repo:, org: or user: qualifiers');
+        process.exit(1);
+    }
+    const states = opts.stateMapping ? loadStateMapping(opts.stateMapping) : undefined;
+    return withFilter({
+        routes: [...new Set<string>(repos)].map(repo => ({
+            repo,
+            team: opts.team,
+            project: opts.project,
+            authors: opts.authors,
+            since: opts.since,
+            states
+        }))
+    });
+}
+
+function parseConcurrency(value: string): number {
+    const concurrency = parseInt(value);
+    if (!(concurrency > 0)) {
+        console.error(`--concurrency must be a positive number, got: ${value}`);
+        process.exit(1);
+    }
+    return concurrency;
+}
+
+// Machine-readable reports go to stdout, so progress is printed to stderr with one
+function progressConsole(format: OutputFormat | undefined): Console {
+    return format ? new Console({ stdout: process.stderr, stderr: process.stderr }) : console;
+}
+
+function printRunId(runId: string | undefined, logger: Logger) {
+    if (runId) {
+        logger.log(`📒 Run ${runId} recorded, \`runs undo ${runId}\` reverts it`);
+    }
+}
+
+/**
+ * Prints the results in the chosen format and exits non-zero when the
+ * --fail-on policy is violated
+ */
+function reportSyncResults(
+    results: SyncResult[],
+    { linear, github, startedAt, output, failOn }: {
+        linear: LinearClient;
+        github: Octokit;
+        startedAt: number;
+        output?: OutputFormat;
+        failOn: FailOn;
+    }
+) {
+    const durationMs = Date.now() - startedAt;
+    if (output) {
+        process.stdout.write(`${formatReport({ startedAt: new Date(startedAt), durationMs, results }, output)}\n`);
+    } else {
+        const seconds = durationMs / 1000;
+        const { total, created, updated, skipped, failed } = countResults(results);
+
+        console.log('\nSync complete:');
+        console.log(`⏱️ ${total} issues in ${seconds.toFixed(1)}s (${(total / Math.max(seconds, 0.001)).toFixed(1)} issues/s)`);
+        console.log(`📡 ${requestCount(github)} GitHub requests, ${requestCount(linear)} Linear requests`);
+        console.log(`✅ ${total - failed} issues synced successfully (${created} created, ${updated} updated, ${skipped} unchanged)`);
+        if (failed) {
+            console.log(`❌ ${failed} issues failed to sync:`);
+            results
+                .filter(result => result.action === 'failed')
+                .forEach(({ githubUrl, message }) => console.log(`  - ${githubUrl}: ${message}`));
+        }
+        const conflicts = results.flatMap(result => resultConflicts(result).map(conflict => ({ result, conflict })));
+        if (conflicts.length) {
+            console.log(`⚠️ ${conflicts.length} fields changed in both GitHub and Linear:`);
+            conflicts.forEach(({ result, conflict }) => console.log(
+                `  - ${result.linearIdentifier ?? result.githubUrl} ${conflict.field}: ${conflict.resolution === 'flagged' ? 'flagged, Linear kept' : `${conflict.resolution} kept`} (${conflict.policy})`
+            ));
+        }
+    }
+
+    if (shouldFail(results, failOn)) {
+        process.exitCode = 1;
+    }
+}
+
+// Repositories given with --repo, of --org, or of the authenticated user
+async function listRepos(
+    github: Octokit,
+    opts: { repo?: string; org?: string; excludeArchived?: boolean; excludeForks?: boolean }
+): Promise<string[]> {
+    if (opts.repo) {
+        return [opts.repo];
+    }
+    return listGithubRepos(github, opts);
+}
+
 program
     .command('linear')
     .description('Linear-related commands')
@@ -25,18 +260,17 @@ program
             .description('List Linear resources')
             // Keep existing general ls command
             .action(async () => {
-                validateEnvVars('LINEAR_API_KEY');
                 const linear = getLinearClient();
 
-                const teams = await linear.teams();
+                const teams = await fetchAllNodes(linear.teams({ first: 250 }));
                 console.log('\nTeams:');
-                for (const team of teams.nodes) {
+                for (const team of teams) {
                     console.log(`- ${team.name} (${team.id})`);
                 }
 
-                const projects = await linear.projects();
+                const projects = await fetchAllNodes(linear.projects({ first: 250 }));
                 console.log('\nProjects:');
-                for (const project of projects.nodes) {
+                for (const project of projects) {
                     console.log(`- ${project.name} (${project.id})`);
                 }
             })
@@ -46,22 +280,21 @@ program
                     .description('List all accessible Linear teams and their IDs')
                     .option('-j, --json', 'Output in JSON format')
                     .action(async (opts) => {
-                        validateEnvVars('LINEAR_API_KEY');
                         const linear = getLinearClient();
-                        const teams = await linear.teams();
+                        const teams = await fetchAllNodes(linear.teams({ first: 250 }));
 
-                        if (teams.nodes.length === 0) {
+                        if (teams.length === 0) {
                             console.log('No teams found');
                             return;
                         }
 
                         if (opts.json) {
-                            console.log(JSON.stringify(teams.nodes, null, 2));
+                            console.log(JSON.stringify(teams, null, 2));
                             return;
                         }
 
                         console.table(
-                            teams.nodes.map(team => ({
+                            teams.map(team => ({
                                 Name: team.name,
                                 ID: team.id,
                                 Key: team.key,
@@ -71,107 +304,288 @@ program
                         );
                     })
             )
+            .addCommand(
+                new Command('states')
+                    .description('List the workflow states of each Linear team')
+                    .option('-t, --team <id>', 'Only list states of this team')
+                    .option('-j, --json', 'Output in JSON format')
+                    .action(async (opts) => {
+                        const linear = getLinearClient();
+                        const teams = opts.team
+                            ? [await linear.team(opts.team)]
+                            : await fetchAllNodes(linear.teams({ first: 250 }));
+
+                        const states = await Promise.all(
+                            teams.map(async team => ({
+                                team,
+                                states: (await getTeamWorkflowStates(linear, team.id))
+                                    .sort((a, b) => a.position - b.position)
+                            }))
+                        );
+
+                        if (opts.json) {
+                            console.log(JSON.stringify(states.map(({ team, states }) => ({
+                                team: { id: team.id, key: team.key, name: team.name },
+                                states: states.map(({ id, name, type, position }) => ({ id, name, type, position }))
+                            })), null, 2));
+                            return;
+                        }
+
+                        for (const { team, states: teamStates } of states) {
+                            console.log(`\n${team.name} (${team.key}):`);
+                            console.table(
+                                teamStates.map(state => ({
+                                    Name: state.name,
+                                    Type: state.type,
+                                    ID: state.id
+                                }))
+                            );
+                        }
+                    })
+            )
     );
 
 
 program
     .command('sync')
     .description('Sync GitHub issues to Linear')
-    .requiredOption('-r, --repos <repos...>', 'GitHub repositories (owner/repo format)')
-    .requiredOption('-t, --team <id>', 'Linear team ID')
-    .requiredOption('-p, --project <id>', 'Linear project ID')
+    .enablePositionalOptions()
+    // Not declared as required options: commander would then also demand them for subcommands
+    .option('-c, --config [path]', 'Sync config file (default: github-linear-sync.config.ts or .json)')
+    .option('-r, --repos <repos...>', 'GitHub repositories (owner/repo format)')
+    .option('--org <org>', 'Sync every repository of this GitHub organization')
+    .option('--exclude-archived', 'With --org: leave out archived repositories')
+    .option('--exclude-forks', 'With --org: leave out forks')
+    .option('-q, --query <query>', 'Only issues matching this GitHub search, e.g. "org:acme label:bug -label:wontfix is:open"')
+    .option('-t, --team <id>', 'Linear team ID or key')
+    .option('-p, --project <id>', 'Linear project ID')
     .option('-a, --authors <authors...>', 'Filter by GitHub usernames')
+    .option('--label <labels...>', 'Only issues with all of these labels, for routes without a filter')
+    .option('--exclude-label <labels...>', 'Only issues with none of these labels, for routes without a filter')
+    .option('--assignee <login>', 'Only issues assigned to this user, `none` or `*`, for routes without a filter')
+    .option('--milestone <milestone>', 'Only issues of this milestone title or number, `none` or `*`, for routes without a filter')
+    .addOption(
+        new Option('--state <state>', 'Only open or closed issues, for routes without a filter')
+            .choices(['open', 'closed', 'all'])
+    )
+    .option('--type <type>', 'Only issues of this issue type, for routes without a filter')
     .option('-s, --since <date>', 'Sync issues updated since date (YYYY-MM-DD)')
-    .option('-i, --interactive', 'Interactively sync issues (default: true)', true)
-    .action(async (opts) => {
-        validateEnvVars('GITHUB_TOKEN', 'LINEAR_API_KEY');
+    .option('-i, --interactive', 'Review, select and adjust the planned changes before syncing (default)')
+    .option('--no-interactive', 'Sync without prompting')
+    .option('-y, --yes', 'Apply the plan without prompting, for CI')
+    .option('--full', 'Ignore the stored per-repo cursors and re-sync every issue')
+    .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+    .option('--runs <dir>', 'Directory of the run journal', DEFAULT_JOURNAL_DIR)
+    .option('--state-mapping <path>', 'JSON file mapping GitHub state, state reason and labels to Linear states')
+    .option('--concurrency <n>', 'Number of issues synced at the same time', String(DEFAULT_CONCURRENCY))
+    .option('--dry-run', 'Show what would change in Linear without writing anything')
+    .option('--plan-out <path>', 'Write the planned changes to a JSON file for `sync apply`, without writing anything')
+    .option('--no-pull-requests', 'Don\'t link pull requests to the Linear issues they reference')
+    .option('--linear-label <labels...>', 'With linear-to-github: only Linear issues with all of these labels')
+    .option('--linear-project <id>', 'With linear-to-github: only Linear issues of this project')
+    .option('--linear-state <states...>', 'With linear-to-github: only Linear issues in one of these states')
+    .addOption(
+        new Option('-o, --output <format>', 'Print the results in a machine-readable format to stdout')
+            .choices(OUTPUT_FORMATS)
+            // Nothing is synced, so there are no results to report; --plan-out writes the plan as JSON
+            .conflicts(['dryRun', 'planOut'])
+    )
+    .addOption(
+        new Option('--fail-on <policy>', 'Exit with code 1 when an issue failed (error) or was also skipped (any-skip)')
+            .choices(FAIL_ON)
+            .default('error')
+    )
+    .addOption(
+        new Option('-d, --direction <direction>', 'Sync direction')
+            .choices(['github-to-linear', 'linear-to-github', 'both'])
+            .default('github-to-linear')
+    )
+    .addOption(
+        new Option('--comments <mode>', 'Comment mirroring, for routes that don\'t configure it')
+            .choices(['github-to-linear', 'both', 'none'])
+    )
+    .action(async (opts: SyncCommandOptions) => {
+        // The reports list GitHub issues synced to Linear, which linear-to-github doesn't sync
+        if (opts.output && opts.direction === 'linear-to-github') {
+            console.error('--output reports GitHub → Linear results, it can\'t be combined with --direction linear-to-github');
+            process.exit(1);
+        }
+        const out = progressConsole(opts.output);
+        const concurrency = parseConcurrency(opts.concurrency);
+        const dryRun = !!(opts.dryRun || opts.planOut);
+        const interactive = opts.interactive !== false && !opts.yes && !dryRun && opts.direction !== 'linear-to-github';
+        if (interactive && !process.stdin.isTTY) {
+            console.error('Not running in a terminal, pass --yes or --no-interactive to sync without prompting');
+            process.exit(1);
+        }
 
-        const github = createGithubClient(process.env.GITHUB_TOKEN!);
+        const github = getGithubClient();
         const linear = getLinearClient();
 
-        // Validate authors if provided
-        if (opts.authors?.length) {
-            console.log('Validating GitHub users...');
-            const authorValidations = await Promise.all(
-                opts.authors.map(async (author: any) => {
-                    try {
-                        await github.users.getByUsername({username: author});
-                        return {author, valid: true};
-                    } catch {
-                        return {author, valid: false};
-                    }
-                })
-            );
-            const invalidAuthors = authorValidations.filter(v => !v.valid);
-            if (invalidAuthors.length) {
-                console.error('Invalid GitHub usernames:', invalidAuthors.map(a => a.author).join(', '));
-                process.exit(1);
-            }
-            console.log(`Users validated ${opts.authors}`);
+        const config = await loadSyncConfig(opts, github, out);
+        if (opts.comments) {
+            config.routes = config.routes.map(route => ({ comments: opts.comments, ...route }));
         }
-
-        console.log(`Fetching GitHub issues [authors: ${opts.authors}] [repos: ${opts.repos}]...`);
-        const issues = await fetchGithubIssues(github, {
-            repos: opts.repos,
-            authors: opts.authors,
-            since: opts.since ? new Date(opts.since) : undefined
+        const sync = new GithubLinearSync({
+            linear,
+            github,
+            config,
+            store: LinkStore.load(opts.store),
+            journal: new RunJournal(opts.runs),
+            logger: out,
+            concurrency
+        });
+        sync.on('plan', plan => printPlan(plan, out));
+
+        const run = await sync.sync({
+            direction: opts.direction,
+            full: opts.full,
+            dryRun,
+            pullRequests: opts.pullRequests,
+            linearFilter: { labels: opts.linearLabel, project: opts.linearProject, states: opts.linearState },
+            query: opts.query,
+            review: interactive ? (plan, options) => reviewPlan(plan, options, out) : undefined
         });
 
-        if (issues.length === 0) {
-            console.log(`No issues found, exiting...`)
-            process.exit(0);
+        if (run.imported) {
+            if (run.imported.failed.length) {
+                process.exitCode = 1;
+            }
+            return;
         }
-        console.log(`Found ${issues.length} issues to sync`);
-
-        const filteredIssues = await Promise.all(
-            issues.map(async (issue) => {
-                const existingIssue = await findExistingIssue(linear, issue);
-                return (existingIssue === null && issue.state.toLowerCase() === 'closed') ? undefined : issue;
-            })
-        );
-        const filtered = filteredIssues.filter(issue => issue !== undefined);
-        console.log(`Filtered ${issues.length - filtered.length} issues which were closed on Github and did not exist on Linear`);
-
-        // Preview issues in interactive mode
-        if (opts.interactive) {
-            console.log('\nIssues to be synced:');
-            console.table(
-                filtered
-                    .map(issue => ({
-                    'GitHub Title': issue.title,
-                    'GitHub State': issue.state,
-                    'GitHub URL': issue.html_url,
-                    'Linear State': issue.state === 'closed' ? 'Done' : 'Backlog',
-                    'Linear Title': issue.title,
-                    'Linear Project': opts.project
-                }))
-            );
-
-            const response = confirm(`Proceed with syncing ${filtered.length} issues?`);
-            if (!response) {
-                console.log('Sync cancelled');
-                return;
+        if (!run.plan) {
+            if (opts.output) {
+                reportSyncResults([], { linear, github, startedAt: run.startedAt, output: opts.output, failOn: opts.failOn });
             }
+            return;
+        }
+        if (opts.planOut) {
+            writeFileSync(opts.planOut, JSON.stringify(run.plan, null, 2));
+            out.log(`Plan written to ${opts.planOut}, run \`sync apply ${opts.planOut}\` to execute it`);
+        }
+        if (dryRun) {
+            run.results.forEach(({ githubUrl, message }) => out.log(`❌ ${githubUrl}: ${message}`));
+            out.log('Dry run, nothing was written');
+            return;
+        }
+        if (run.cancelled) {
+            out.log('Sync cancelled');
+            return;
         }
 
-        console.log('Syncing to Linear...');
-        const results = await syncIssues(
-            linear,
-            github,
-            filtered,
-            opts.project,
-            opts.team
-        ) as SyncResults;
+        reportSyncResults(run.results, { linear, github, startedAt: run.startedAt, output: opts.output, failOn: opts.failOn });
+        printRunId(run.runId, out);
+    })
+    .addCommand(
+        new Command('apply')
+            .description('Execute a plan written by `sync --plan-out`')
+            .argument('<plan>', 'Plan JSON file')
+            .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+            .option('--runs <dir>', 'Directory of the run journal', DEFAULT_JOURNAL_DIR)
+            .option('--concurrency <n>', 'Number of issues synced at the same time', String(DEFAULT_CONCURRENCY))
+            .addOption(
+                new Option('-o, --output <format>', 'Print the results in a machine-readable format to stdout')
+                    .choices(OUTPUT_FORMATS)
+            )
+            .addOption(
+                new Option('--fail-on <policy>', 'Exit with code 1 when an issue failed (error) or was also skipped (any-skip)')
+                    .choices(FAIL_ON)
+                    .default('error')
+            )
+            .action(async (planPath: string, opts) => {
+                const out = progressConsole(opts.output);
+                const concurrency = parseConcurrency(opts.concurrency);
+
+                const plan: SyncPlan = JSON.parse(readFileSync(planPath, 'utf8'));
+                if (plan.version !== 1 || !Array.isArray(plan.issues)) {
+                    console.error(`${planPath} is not a sync plan`);
+                    process.exit(1);
+                }
 
-        console.log('\nSync complete:');
-        console.log(`✅ ${results.succeeded.length} issues synced successfully`);
-        if (results.failed.length) {
-            console.log(`❌ ${results.failed.length} issues failed to sync:`);
-            results.failed.forEach(({ message }: { message: string }) => {
-                console.log(`  - ${message}`);
-            });
-        }
-    });
+                const github = getGithubClient();
+                const linear = getLinearClient();
+                const sync = new GithubLinearSync({
+                    linear,
+                    github,
+                    store: LinkStore.load(opts.store),
+                    journal: new RunJournal(opts.runs),
+                    logger: out,
+                    concurrency
+                });
+
+                const startedAt = Date.now();
+                let applied: Awaited<ReturnType<GithubLinearSync['apply']>>;
+                try {
+                    applied = await sync.apply(plan);
+                } catch (error) {
+                    if (error instanceof PlanConflictError) {
+                        console.error(`❌ ${error.message}`);
+                        console.error('Run `sync --plan-out` again to make a new plan');
+                        process.exit(1);
+                    }
+                    throw error;
+                }
+
+                reportSyncResults(applied.results, { linear, github, startedAt, output: opts.output, failOn: opts.failOn });
+                printRunId(applied.runId, out);
+            })
+    )
+    .addCommand(
+        new Command('status')
+            .description('Show the stored sync cursor and link count of each repository')
+            .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+            .option('-j, --json', 'Output in JSON format')
+            .action((opts) => {
+                const store = LinkStore.load(opts.store);
+                const links = store.all();
+                const status = store.allCursors().map(({ repo, cursor }) => ({
+                    repo,
+                    cursor,
+                    links: links.filter(link => {
+                        const url = parseGithubIssueUrl(link.githubUrl);
+                        return url && `${url.owner}/${url.repo}`.toLowerCase() === repo;
+                    }).length
+                }));
+
+                if (opts.json) {
+                    console.log(JSON.stringify(status, null, 2));
+                    return;
+                }
+                if (status.length === 0) {
+                    console.log(`No sync cursors in ${store.path}, the next sync fetches every issue`);
+                    return;
+                }
+
+                console.table(
+                    status.map(({ repo, cursor, links }) => ({
+                        Repository: repo,
+                        'Synced Up To': cursor,
+                        'Linked Issues': links
+                    }))
+                );
+            })
+    )
+    .addCommand(
+        new Command('relink')
+            .description('Rebuild the link store from existing Linear issues')
+            .option('-t, --team <id>', 'Only scan issues of this Linear team')
+            .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+            .action(async (opts) => {
+                const github = getGithubClient();
+                const linear = getLinearClient();
+                const store = LinkStore.load(opts.store);
+
+                console.log('Scanning Linear issues for GitHub links...');
+                const { linked, failed } = await relinkFromLinear(linear, github, store, opts.team);
+                store.save();
+
+                console.log(`✅ ${linked.length} issues linked (${store.path})`);
+                if (failed.length) {
+                    console.log(`❌ ${failed.length} issues could not be linked:`);
+                    failed.forEach(message => console.log(`  - ${message}`));
+                }
+            })
+    );
 
 
 // Add this to the existing CLI file, before program.parse()
@@ -187,24 +601,25 @@ program
                     .description('List accessible GitHub organizations')
                     .option('-j, --json', 'Output in JSON format')
                     .action(async (opts) => {
-                        validateEnvVars('GITHUB_TOKEN');
-                        const github = createGithubClient(process.env.GITHUB_TOKEN!);
+                        const github = getGithubClient();
                         await validateGithubToken(github);
 
-                        const response = await github.orgs.listMembershipsForAuthenticatedUser();
+                        const memberships = await github.paginate(github.orgs.listMembershipsForAuthenticatedUser, {
+                            per_page: 100
+                        });
 
-                        if (response.data.length === 0) {
-                            console.log(`No organizations found [${JSON.stringify(response)}]`);
+                        if (memberships.length === 0) {
+                            console.log('No organizations found');
                             return;
                         }
 
                         if (opts.json) {
-                            console.log(JSON.stringify(response.data, null, 2));
+                            console.log(JSON.stringify(memberships, null, 2));
                             return;
                         }
 
                         console.table(
-                            response.data.map(org => ({
+                            memberships.map(org => ({
                                 Name: org.organization,
                                 URL: org.url,
                                 State: org.state
@@ -218,29 +633,15 @@ program
                     .description('List GitHub issues')
                     .option('-o, --org <org>', 'Filter by organization')
                     .option('-r, --repo <repo>', 'Filter by repository (format: owner/repo)')
+                    .option('--exclude-archived', 'Leave out archived repositories')
+                    .option('--exclude-forks', 'Leave out forks')
                     .option('-a, --author <author>', 'Filter by issue author')
                     .option('-s, --since <date>', 'Filter by issues updated since date (YYYY-MM-DD)')
                     .option('-j, --json', 'Output in JSON format')
                     .action(async (opts) => {
-                        validateEnvVars('GITHUB_TOKEN');
-                        const github = createGithubClient(process.env.GITHUB_TOKEN!);
-
-                        let repos: string[] = [];
-
-                        if (opts.repo) {
-                            repos = [opts.repo];
-                        } else if (opts.org) {
-                            const { data: orgRepos } = await github.repos.listForOrg({
-                                org: opts.org,
-                                per_page: 100
-                            });
-                            repos = orgRepos.map(repo => `${repo.owner.login}/${repo.name}`);
-                        } else {
-                            const { data: userRepos } = await github.repos.listForAuthenticatedUser({
-                                per_page: 100
-                            });
-                            repos = userRepos.map(repo => `${repo.owner.login}/${repo.name}`);
-                        }
+                        const github = getGithubClient();
+
+                        const repos = await listRepos(github, opts);
 
                         console.log(`Fetching issues from ${repos.length} repositories...`);
 
@@ -272,7 +673,333 @@ program
                         );
                     })
             )
+            .addCommand(
+                new Command('prs')
+                    .description('List GitHub pull requests and the issues they reference')
+                    .option('-o, --org <org>', 'Filter by organization')
+                    .option('-r, --repo <repo>', 'Filter by repository (format: owner/repo)')
+                    .option('--exclude-archived', 'Leave out archived repositories')
+                    .option('--exclude-forks', 'Leave out forks')
+                    .addOption(
+                        new Option('--state <state>', 'Filter by state')
+                            .choices(['open', 'closed', 'all'])
+                            .default('open')
+                    )
+                    .option('-s, --since <date>', 'Filter by pull requests updated since date (YYYY-MM-DD)')
+                    .option('-j, --json', 'Output in JSON format')
+                    .action(async (opts) => {
+                        const github = getGithubClient();
+                        // Linear identifiers are only recognized for existing team keys
+                        const teamKeys = process.env.LINEAR_API_KEY
+                            ? (await fetchAllNodes(getLinearClient().teams({ first: 250 }))).map(team => team.key)
+                            : [];
+
+                        const repos = await listRepos(github, opts);
+                        console.log(`Fetching pull requests from ${repos.length} repositories...`);
+
+                        const pulls = await fetchGithubPullRequests(github, {
+                            repos,
+                            state: opts.state,
+                            since: opts.since ? new Date(opts.since) : undefined
+                        });
+
+                        if (pulls.length === 0) {
+                            console.log('No pull requests found');
+                            return;
+                        }
+
+                        if (opts.json) {
+                            console.log(JSON.stringify(pulls.map(pr => ({
+                                ...pr,
+                                references: findPullRequestReferences(pr, teamKeys)
+                            })), null, 2));
+                            return;
+                        }
+
+                        console.table(
+                            pulls.map(pr => {
+                                const { githubUrls, identifiers } = findPullRequestReferences(pr, teamKeys);
+                                return {
+                                    Title: pr.title,
+                                    State: pullRequestStage(pr) ?? 'closed',
+                                    Repository: pr.base.repo.full_name,
+                                    Author: pr.user?.login || '-',
+                                    References: [
+                                        ...githubUrls.map(url => `#${url.split('/').pop()}`),
+                                        ...identifiers
+                                    ].join(', ') || '-',
+                                    URL: pr.html_url,
+                                    Updated: new Date(pr.updated_at).toLocaleDateString()
+                                };
+                            })
+                        );
+                    })
+            )
+    );
+
+program
+    .command('serve')
+    .description('Start a webhook server that syncs issues as GitHub and Linear report changes')
+    .option('-c, --config [path]', 'Sync config file (default: github-linear-sync.config.ts or .json)')
+    .option('-r, --repos <repos...>', 'GitHub repositories (owner/repo format)')
+    .option('-t, --team <id>', 'Linear team ID or key')
+    .option('-p, --project <id>', 'Linear project ID')
+    .option('--port <port>', 'Port to listen on', process.env.PORT ?? '3000')
+    .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+    .addOption(
+        new Option('-d, --direction <direction>', 'Sync direction')
+            .choices(['github-to-linear', 'both'])
+            .default('github-to-linear')
+    )
+    .option('--allow-unsigned', 'Accept webhooks without a valid signature (local testing only)')
+    .action(async (opts) => {
+        if (!opts.allowUnsigned) {
+            validateEnvVars('GITHUB_WEBHOOK_SECRET', ...(opts.direction === 'both' ? ['LINEAR_WEBHOOK_SECRET'] : []));
+        } else {
+            console.warn('⚠️ Webhook signatures are not verified');
+        }
+
+        const github = getGithubClient();
+        const linear = getLinearClient();
+        const store = LinkStore.load(opts.store);
+
+        const config = await loadSyncConfig(opts);
+        console.log('Validating config against Linear...');
+        const routes = await new GithubLinearSync({ linear, github, config, store }).validate();
+
+        startWebhookServer({
+            port: parseInt(opts.port),
+            linear,
+            github,
+            store,
+            routes,
+            bidirectional: opts.direction === 'both',
+            githubSecret: process.env.GITHUB_WEBHOOK_SECRET,
+            linearSecret: process.env.LINEAR_WEBHOOK_SECRET,
+            allowUnsigned: opts.allowUnsigned
+        });
+    });
+
+program
+    .command('config')
+    .description('Sync config commands')
+    .addCommand(
+        new Command('validate')
+            .description('Check every team, project and state the config references against Linear')
+            .option('-c, --config <path>', 'Sync config file (default: github-linear-sync.config.ts or .json)')
+            .action(async (opts) => {
+                const linear = getLinearClient();
+
+                const config = await loadSyncConfig({ config: opts.config ?? true });
+                const { routes, errors } = await validateConfig(linear, config);
+                if (errors.length) {
+                    throw new ConfigError(errors);
+                }
+
+                console.log(`✅ Config is valid, ${routes.length} routes:`);
+                console.table(
+                    routes.map(route => ({
+                        Repository: route.repo,
+                        Labels: route.labels?.join(', ') ?? '-',
+                        Team: route.team,
+                        Project: route.project ?? '-',
+                        'State Rules': route.states.length
+                    }))
+                );
+            })
+    );
+
+program
+    .command('doctor')
+    .description('Find duplicate Linear issues, broken GitHub links, unsynced issues and state mismatches')
+    .option('-t, --team <id>', 'Only scan issues of this Linear team')
+    .option('-c, --config [path]', 'Sync config file, whose repositories are checked for unsynced issues')
+    .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+    .option('--fix', 'Mark duplicates as duplicate of the canonical issue and repair the links')
+    .option('--concurrency <n>', 'Number of GitHub issues checked at the same time', parseConcurrency, DEFAULT_CONCURRENCY)
+    .option('-j, --json', 'Output in JSON format')
+    .action(async (opts) => {
+        const github = getGithubClient();
+        const linear = getLinearClient();
+        const path = typeof opts.config === 'string' ? opts.config : findConfigFile();
+        if (opts.config && !path) {
+            console.error(`No config file found, expected one of: ${CONFIG_FILES.join(', ')}`);
+            process.exit(1);
+        }
+        const config = path ? await loadConfig(path) : undefined;
+        if (!config && !opts.json) {
+            console.log('No sync config, skipping the check for unsynced issues');
+        }
+
+        const sync = new GithubLinearSync({
+            linear,
+            github,
+            config,
+            store: LinkStore.load(opts.store),
+            journal: false,
+            // Progress would mix with the JSON output
+            logger: opts.json ? silentLogger : console,
+            concurrency: opts.concurrency
+        });
+        const { report, fixed } = await sync.doctor({ team: opts.team, fix: opts.fix });
+        if (opts.json) {
+            console.log(JSON.stringify({ report, fixed }, null, 2));
+            return;
+        }
+
+        const section = <T>(marker: string, title: string, items: T[], line: (item: T) => string) => {
+            console.log(`${items.length ? marker : '✅'} ${items.length} ${title}`);
+            items.forEach(item => console.log(`  - ${line(item)}`));
+        };
+        console.log(`Scanned ${report.scanned} Linear issues with GitHub links`);
+        section('❌', 'GitHub issues with duplicate Linear issues', report.duplicates, ({ githubUrl, canonical, duplicates }) =>
+            `${githubUrl}: ${canonical.identifier}, duplicates ${duplicates.map(issue => issue.identifier).join(', ')}`);
+        section('❌', 'Linear issues whose GitHub issue is gone', report.gone, ({ issue, lifecycle, handled }) =>
+            `${issue.identifier} → ${issue.githubUrl} ${lifecycle.outcome}${handled ? ', already handled' : ''}`);
+        section('❌', 'Linear issues whose GitHub issue moved', report.moved, ({ issue, movedTo }) =>
+            `${issue.identifier} → ${issue.githubUrl}, now ${movedTo}`);
+        section('❌', 'Linear issues missing from the link store', report.unlinked, ({ issue }) =>
+            `${issue.identifier} → ${issue.githubUrl}`);
+        section('❌', 'links to deleted Linear issues', report.staleLinks, ({ githubUrl, linearIdentifier }) =>
+            `${linearIdentifier ?? 'unknown'} → ${githubUrl}`);
+        section('⚠️', 'open GitHub issues not in Linear', report.unsynced, ({ githubUrl, title }) => `${githubUrl}: ${title}`);
+        section('⚠️', 'state mismatches', report.stateMismatches, ({ issue, githubState }) =>
+            `${issue.identifier} is ${issue.state?.name ?? 'without state'}, ${issue.githubUrl} is ${githubState}`);
+        if (report.failed.length) {
+            console.log(`❌ ${report.failed.length} GitHub issues could not be checked:`);
+            report.failed.forEach(({ githubUrl, message }) => console.log(`  - ${githubUrl}: ${message}`));
+        }
+
+        if (fixed) {
+            console.log(`🔀 ${fixed.merged.length} duplicates marked as duplicate`);
+            console.log(`🔗 ${fixed.relinked.length} links repaired, ${fixed.removed.length} removed (${sync.store.path})`);
+            console.log(`🗑️ ${fixed.handled.length} deleted or converted GitHub issues handled by their lifecycle actions`);
+            if (fixed.failed.length) {
+                console.log(`❌ ${fixed.failed.length} issues could not be repaired:`);
+                fixed.failed.forEach(({ identifier, message }) => console.log(`  - ${identifier}: ${message}`));
+                process.exitCode = 1;
+            }
+        } else if (report.duplicates.length || report.gone.some(gone => !gone.handled) || report.moved.length ||
+            report.unlinked.length || report.staleLinks.length) {
+            console.log('Run with --fix to repair the duplicates and links; the next sync picks up unsynced issues and state mismatches');
+        }
+    });
+
+const countActions = (run: SyncRunRecord, action: string) => run.issues.filter(issue => issue.action === action).length;
+
+program
+    .command('runs')
+    .description('Inspect and undo recorded sync runs')
+    .addCommand(
+        new Command('ls')
+            .description('List the recorded runs, newest first')
+            .option('--runs <dir>', 'Directory of the run journal', DEFAULT_JOURNAL_DIR)
+            .option('-j, --json', 'Output in JSON format')
+            .action((opts) => {
+                const runs = new RunJournal(opts.runs).list();
+                if (opts.json) {
+                    console.log(JSON.stringify(runs, null, 2));
+                    return;
+                }
+                if (runs.length === 0) {
+                    console.log(`No runs recorded in ${opts.runs}`);
+                    return;
+                }
+
+                console.table(
+                    runs.map(run => ({
+                        ID: run.id,
+                        Command: run.command,
+                        Started: new Date(run.startedAt).toLocaleString(),
+                        Repositories: run.cursors.map(cursor => cursor.repo).join(', '),
+                        Created: countActions(run, 'created'),
+                        Updated: countActions(run, 'updated'),
+                        Failed: countActions(run, 'failed'),
+                        Undone: run.undoneAt ? new Date(run.undoneAt).toLocaleString() : '-'
+                    }))
+                );
+            })
+    )
+    .addCommand(
+        new Command('show')
+            .description('Show the options and issue changes of a run')
+            .argument('<id>', 'Run ID, or a unique prefix of it')
+            .option('--runs <dir>', 'Directory of the run journal', DEFAULT_JOURNAL_DIR)
+            .option('-j, --json', 'Output in JSON format')
+            .action((id: string, opts) => {
+                const run = new RunJournal(opts.runs).find(id);
+                if (!run) {
+                    throw new NotFoundError(`No run found matching: ${id}`);
+                }
+                if (opts.json) {
+                    console.log(JSON.stringify(run, null, 2));
+                    return;
+                }
+
+                console.log(`Run ${run.id} (${run.command})`);
+                console.log(`Started ${run.startedAt}, finished ${run.finishedAt}`);
+                if (run.undoneAt) {
+                    console.log(`Undone ${run.undoneAt}`);
+                }
+                console.log(`Options: ${JSON.stringify(run.options)}`);
+                for (const issue of run.issues.filter(issue => issue.action !== 'skipped')) {
+                    console.log(`\n${issue.action.padEnd(7)} ${issue.githubUrl} → ${issue.linearIdentifier ?? '-'}`);
+                    if (issue.message) {
+                        console.log(`    ${issue.message}`);
+                    }
+                    for (const { field, from, to } of issue.changes) {
+                        console.log(field === 'description'
+                            ? '    description: updated'
+                            : `    ${field}: ${from ?? '-'} → ${to ?? '-'}`);
+                    }
+                }
+                console.log(`\n${countActions(run, 'skipped')} issues were unchanged`);
+            })
+    )
+    .addCommand(
+        new Command('undo')
+            .description('Archive the Linear issues a run created and restore the ones it updated, unless edited since')
+            .argument('<id>', 'Run ID, or a unique prefix of it')
+            .option('--runs <dir>', 'Directory of the run journal', DEFAULT_JOURNAL_DIR)
+            .option('--store <path>', 'Path to the GitHub ↔ Linear link store', DEFAULT_STORE_PATH)
+            .option('--dry-run', 'Show what would be undone without writing anything')
+            .action(async (id: string, opts) => {
+                const sync = new GithubLinearSync({
+                    linear: getLinearClient(),
+                    github: getGithubClient(),
+                    store: LinkStore.load(opts.store),
+                    journal: new RunJournal(opts.runs)
+                });
+
+                const { run, results } = await sync.undo(id, { dryRun: opts.dryRun });
+
+                const would = opts.dryRun ? ' would be' : '';
+                console.log(`Undoing run ${run.id} of ${run.startedAt}`);
+                console.log(`🗄️ ${results.archived.length} created issues${would} archived`);
+                results.archived.forEach(identifier => console.log(`  - ${identifier}`));
+                console.log(`↩️ ${results.restored.length} updated issues${would} restored`);
+                results.restored.forEach(identifier => console.log(`  - ${identifier}`));
+                if (results.skipped.length) {
+                    console.log(`⚠️ ${results.skipped.length} issues left alone:`);
+                    results.skipped.forEach(({ identifier, reason }) => console.log(`  - ${identifier}: ${reason}`));
+                }
+                if (results.failed.length) {
+                    console.log(`❌ ${results.failed.length} issues failed to undo:`);
+                    results.failed.forEach(({ identifier, message }) => console.log(`  - ${identifier}: ${message}`));
+                    process.exitCode = 1;
+                }
+                if (opts.dryRun) {
+                    console.log('Dry run, nothing was written');
+                }
+            })
     );
 
 program.version('1.0.0');
-program.parse(process.argv);
+
+program.parseAsync(process.argv).catch(error => {
+    if (error instanceof SyncError) {
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+    }
+    throw error;
+});
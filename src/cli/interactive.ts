@@ -0,0 +1,220 @@
+import enquirer from 'enquirer';
+import type {FieldChange, IssuePlan, PlanReviewOptions, SyncPlan} from '../sync/plan';
+
+// Enquirer doesn't export its option types
+type ArrayPromptOptions = Extract<Parameters<typeof enquirer.prompt>[0], { choices: unknown }>;
+
+// Multiselect takes the names of the choices selected at first, the typings only allow an index
+interface MultiSelectPromptOptions extends Omit<ArrayPromptOptions, 'type' | 'initial'> {
+    type: 'multiselect';
+    initial: string[];
+}
+
+const truncate = (text: string | null, length = 60) => {
+    const line = (text ?? '-').replace(/\s+/g, ' ');
+    return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+};
+
+const describeIssue = (issue: IssuePlan) =>
+    `${issue.action.padEnd(6)} ${issue.githubIssue.html_url} → ${issue.linearIssue?.identifier ?? 'new'}`;
+
+// Printed to `out`, stderr when a machine-readable report goes to stdout
+export function printPlan(plan: SyncPlan, out: Pick<Console, 'log' | 'table'> = console) {
+    if (plan.issues.length === 0) {
+        out.log('Nothing to sync');
+        return;
+    }
+
+    out.log('\nPlanned changes:');
+    out.table(
+        plan.issues.map(issue => ({
+            Action: issue.action,
+            'GitHub URL': issue.githubIssue.html_url,
+            'Linear Issue': issue.linearIssue?.identifier ?? '-',
+            Changes: issue.action === 'skip'
+                ? issue.reason
+                : issue.changes.map(c => c.field).join(', ')
+        }))
+    );
+
+    const count = (action: string) => plan.issues.filter(issue => issue.action === action).length;
+    out.log(`${count('create')} to create, ${count('update')} to update, ${count('skip')} unchanged`);
+}
+
+// Every change of every issue, shown right before applying
+function printSummary(issues: IssuePlan[], out: Pick<Console, 'log'>) {
+    out.log('\nSummary:');
+    for (const issue of issues) {
+        out.log(`\n${describeIssue(issue)}`);
+        if (issue.action === 'skip') {
+            out.log(`    ${issue.reason ?? 'No changes'}, refreshing link and comments only`);
+        }
+        for (const { field, from, to } of issue.changes) {
+            out.log(field === 'description'
+                ? '    description: updated'
+                : `    ${field}: ${truncate(from)} → ${truncate(to)}`);
+        }
+    }
+}
+
+/**
+ * Records an edit made in review. The original value is kept as `from`,
+ * so reverting the edit drops the change again.
+ */
+function setChange(issue: IssuePlan, field: FieldChange['field'], from: string | null, to: string | null) {
+    const original = issue.changes.find(c => c.field === field)?.from ?? from;
+    issue.changes = issue.changes.filter(c => c.field !== field);
+    if (original !== to) {
+        issue.changes.push({ field, from: original, to });
+    }
+    if (issue.linearIssue) {
+        issue.action = issue.changes.length ? 'update' : 'skip';
+        issue.reason = issue.changes.length ? undefined : 'Up to date';
+    }
+}
+
+async function select(message: string, choices: Array<{ name: string; message: string }>, initial?: string) {
+    const { value } = await enquirer.prompt<{ value: string }>({
+        type: 'select',
+        name: 'value',
+        message,
+        choices,
+        initial: Math.max(0, choices.findIndex(c => c.name === initial))
+    });
+    return value;
+}
+
+async function customizeIssue(issue: IssuePlan, options: PlanReviewOptions): Promise<IssuePlan> {
+    for (;;) {
+        const choice = await select(`${describeIssue(issue)}: ${issue.input.title}`, [
+            { name: 'done', message: 'Done' },
+            { name: 'team', message: 'Change team' },
+            { name: 'project', message: 'Change project' },
+            { name: 'state', message: 'Change state' },
+            { name: 'title', message: 'Edit title' }
+        ]);
+
+        switch (choice) {
+            case 'done':
+                return issue;
+
+            case 'team': {
+                const teams = await options.teams();
+                const teamId = await select(
+                    'Team',
+                    teams.map(t => ({ name: t.id, message: `${t.key} ${t.name}` })),
+                    issue.route.teamId
+                );
+                const projectId = await selectProject(teamId, issue.route.projectId, options);
+                issue = await options.replan(issue, { teamId, projectId });
+                break;
+            }
+
+            case 'project': {
+                const projectId = await selectProject(issue.route.teamId, issue.route.projectId, options);
+                issue = await options.replan(issue, { teamId: issue.route.teamId, projectId });
+                break;
+            }
+
+            case 'state': {
+                const states = await options.states(issue.route.teamId);
+                const stateId = await select(
+                    'State',
+                    states.map(s => ({ name: s.id, message: s.name })),
+                    issue.input.stateId ?? undefined
+                );
+                const current = states.find(s => s.id === issue.input.stateId)?.name ?? null;
+                issue.input.stateId = stateId;
+                setChange(issue, 'state', current, states.find(s => s.id === stateId)!.name);
+                break;
+            }
+
+            case 'title': {
+                const { title } = await enquirer.prompt<{ title: string }>({
+                    type: 'input',
+                    name: 'title',
+                    message: 'Title',
+                    initial: issue.input.title ?? ''
+                });
+                setChange(issue, 'title', issue.input.title ?? null, title);
+                issue.input.title = title;
+                break;
+            }
+        }
+    }
+}
+
+const NO_PROJECT = '-';
+
+async function selectProject(teamId: string, current: string | undefined, options: PlanReviewOptions) {
+    const projects = await options.projects(teamId);
+    const projectId = await select(
+        'Project',
+        [{ name: NO_PROJECT, message: 'No project' }, ...projects.map(p => ({ name: p.id, message: p.name }))],
+        current ?? NO_PROJECT
+    );
+    return projectId === NO_PROJECT ? undefined : projectId;
+}
+
+/**
+ * Lets the user pick the issues to sync, adjust their team, project, state
+ * or title, and confirm a summary of the result, printed to `out`.
+ * @returns the reviewed plan, or undefined when the user cancels
+ */
+export async function reviewPlan(
+    plan: SyncPlan,
+    options: PlanReviewOptions,
+    out: Pick<Console, 'log'> = console
+): Promise<SyncPlan | undefined> {
+    try {
+        const issuePrompt: MultiSelectPromptOptions = {
+            type: 'multiselect',
+            name: 'selected',
+            message: 'Select the issues to sync (space toggles, a toggles all)',
+            // Issues with changes start selected. Enquirer ignores `enabled` on choices.
+            initial: plan.issues.flatMap((issue, i) => issue.action === 'skip' ? [] : [String(i)]),
+            choices: plan.issues.map((issue, i) => ({
+                name: String(i),
+                message: `${describeIssue(issue)}  ${issue.action === 'skip'
+                    ? issue.reason
+                    : issue.changes.map(c => c.field).join(', ')}`,
+                // Nothing can be synced for issues without a Linear counterpart that won't be created
+                disabled: issue.action === 'skip' && !issue.linearIssue ? issue.reason : false
+            }))
+        };
+        const { selected } = await enquirer.prompt<{ selected: string[] }>(issuePrompt);
+        let issues = selected.map(i => plan.issues[Number(i)]);
+        if (issues.length === 0) {
+            return undefined;
+        }
+
+        const { customize } = await enquirer.prompt<{ customize: boolean }>({
+            type: 'confirm',
+            name: 'customize',
+            message: 'Change the team, project, state or title of individual issues?',
+            initial: false
+        });
+        if (customize) {
+            const customized: IssuePlan[] = [];
+            for (const issue of issues) {
+                customized.push(await customizeIssue(issue, options));
+            }
+            issues = customized;
+        }
+
+        printSummary(issues, out);
+        const { proceed } = await enquirer.prompt<{ proceed: boolean }>({
+            type: 'confirm',
+            name: 'proceed',
+            message: `Sync ${issues.length} issues?`,
+            initial: true
+        });
+        return proceed ? { ...plan, issues } : undefined;
+    } catch (error) {
+        // Enquirer rejects with an empty string when the prompt is cancelled
+        if (error === '') {
+            return undefined;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,83 @@
+import {describe, expect, test} from 'bun:test';
+import type {GithubIssue, SyncResult} from '../api/linear';
+import {formatReport, shouldFail, type SyncReport} from './output';
+
+const result = (action: SyncResult['action'], number: number, fields: Partial<SyncResult> = {}): SyncResult => ({
+    action,
+    githubUrl: `https://github.com/acme/app/issues/${number}`,
+    githubIssue: { repository_url: 'https://api.github.com/repos/acme/app' } as GithubIssue,
+    durationMs: 1500,
+    ...fields
+});
+
+const report: SyncReport = {
+    startedAt: new Date('2024-08-01T09:00:00Z'),
+    durationMs: 4000,
+    results: [
+        result('created', 1, { linearIdentifier: 'ENG-1' }),
+        result('skipped', 2, { linearIdentifier: 'ENG-2', message: 'Up to date' }),
+        result('failed', 3, { message: 'Team <ENG> | not found' })
+    ]
+};
+
+describe('formatReport', () => {
+    test('json has a summary and one record per issue', () => {
+        const json = JSON.parse(formatReport(report, 'json'));
+
+        expect(json.summary).toEqual({ total: 3, created: 1, updated: 0, skipped: 1, failed: 1 });
+        expect(json.results[0]).toEqual({
+            action: 'created',
+            githubUrl: 'https://github.com/acme/app/issues/1',
+            linearIdentifier: 'ENG-1',
+            durationMs: 1500,
+            message: null,
+            conflicts: []
+        });
+    });
+
+    test('ndjson has one line per issue', () => {
+        const lines = formatReport(report, 'ndjson').split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(JSON.parse(lines[2])).toMatchObject({ action: 'failed', linearIdentifier: null });
+    });
+
+    test('markdown escapes table separators in messages', () => {
+        const markdown = formatReport(report, 'markdown');
+
+        expect(markdown).toContain('3 issues in 4.0s: 1 created, 0 updated, 1 skipped, 1 failed');
+        expect(markdown).toContain('| failed | https://github.com/acme/app/issues/3 | - | 1500ms | Team <ENG> \\| not found |');
+        expect(markdown).not.toContain('### Conflicts');
+    });
+
+    test('markdown lists conflicts', () => {
+        const conflicted = result('updated', 4, {
+            linearIdentifier: 'ENG-4',
+            plan: { conflicts: [{ field: 'title', policy: 'flag', resolution: 'flagged', github: 'a', linear: 'b' }] } as SyncResult['plan']
+        });
+        const markdown = formatReport({ ...report, results: [conflicted] }, 'markdown');
+
+        expect(markdown).toContain('### Conflicts');
+        expect(markdown).toContain('| https://github.com/acme/app/issues/4 | ENG-4 | title | flag | flagged |');
+    });
+
+    test('junit has a failure and a skipped test case, with XML escaped', () => {
+        const junit = formatReport(report, 'junit');
+
+        expect(junit).toContain('<testsuites tests="3" failures="1" skipped="1" time="4.000">');
+        expect(junit).toContain('timestamp="2024-08-01T09:00:00.000Z"');
+        expect(junit).toContain('<testcase classname="acme/app" name="https://github.com/acme/app/issues/1" time="1.500"/>');
+        expect(junit).toContain('<skipped message="Up to date"/>');
+        expect(junit).toContain('<failure message="Team &#60;ENG&#62; | not found"/>');
+    });
+});
+
+describe('shouldFail', () => {
+    test('fails on errors, and on skips with any-skip', () => {
+        const skipped = [result('created', 1), result('skipped', 2)];
+
+        expect(shouldFail(report.results, 'error')).toBe(true);
+        expect(shouldFail(skipped, 'error')).toBe(false);
+        expect(shouldFail(skipped, 'any-skip')).toBe(true);
+    });
+});
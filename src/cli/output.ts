@@ -0,0 +1,119 @@
+import type {SyncResult} from '../api/linear';
+
+export const OUTPUT_FORMATS = ['json', 'ndjson', 'markdown', 'junit'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// `error` fails the run when an issue failed to sync, `any-skip` also when one was skipped
+export const FAIL_ON = ['error', 'any-skip'] as const;
+export type FailOn = typeof FAIL_ON[number];
+
+export interface SyncReport {
+    startedAt: Date;
+    durationMs: number;
+    results: SyncResult[];
+}
+
+export function countResults(results: SyncResult[]) {
+    const count = (action: SyncResult['action']) => results.filter(result => result.action === action).length;
+    return {
+        total: results.length,
+        created: count('created'),
+        updated: count('updated'),
+        skipped: count('skipped'),
+        failed: count('failed')
+    };
+}
+
+export function shouldFail(results: SyncResult[], failOn: FailOn): boolean {
+    const { skipped, failed } = countResults(results);
+    return failed > 0 || (failOn === 'any-skip' && skipped > 0);
+}
+
+// Fields changed on both sides since the last sync, with the side kept
+export const resultConflicts = (result: SyncResult) => result.plan?.conflicts ?? [];
+
+// The serializable part of a result
+const toRecord = (result: SyncResult) => ({
+    action: result.action,
+    githubUrl: result.githubUrl,
+    linearIdentifier: result.linearIdentifier ?? null,
+    durationMs: result.durationMs,
+    message: result.message ?? null,
+    conflicts: resultConflicts(result).map(({ field, policy, resolution }) => ({ field, policy, resolution }))
+});
+
+const escapeXml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const escapeMarkdown = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+function toMarkdown({ durationMs, results }: SyncReport): string {
+    const { total, created, updated, skipped, failed } = countResults(results);
+    const conflicts = results.flatMap(result => resultConflicts(result).map(conflict => ({ result, conflict })));
+    return [
+        '## GitHub → Linear sync',
+        '',
+        `${total} issues in ${(durationMs / 1000).toFixed(1)}s: ${created} created, ${updated} updated, ${skipped} skipped, ${failed} failed`,
+        '',
+        '| Action | GitHub Issue | Linear Issue | Duration | Message |',
+        '| --- | --- | --- | --- | --- |',
+        ...results.map(result =>
+            `| ${result.action} | ${result.githubUrl} | ${result.linearIdentifier ?? '-'} | ${result.durationMs}ms | ${escapeMarkdown(result.message ?? '')} |`
+        ),
+        ...(conflicts.length ? [
+            '',
+            '### Conflicts',
+            '',
+            '| GitHub Issue | Linear Issue | Field | Policy | Kept |',
+            '| --- | --- | --- | --- | --- |',
+            ...conflicts.map(({ result, conflict }) =>
+                `| ${result.githubUrl} | ${result.linearIdentifier ?? '-'} | ${conflict.field} | ${conflict.policy} | ${conflict.resolution} |`
+            )
+        ] : [])
+    ].join('\n');
+}
+
+// One test case per issue, named after its GitHub URL and grouped by repository
+function toJunit({ startedAt, durationMs, results }: SyncReport): string {
+    const { total, skipped, failed } = countResults(results);
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+    const testCases = results.map(result => {
+        const repo = result.githubIssue.repository_url.split('/').slice(-2).join('/');
+        const open = `    <testcase classname="${escapeXml(repo)}" name="${escapeXml(result.githubUrl)}" time="${seconds(result.durationMs)}"`;
+        const message = escapeXml(result.message ?? '');
+        if (result.action === 'failed') {
+            return `${open}>\n      <failure message="${message}"/>\n    </testcase>`;
+        }
+        if (result.action === 'skipped') {
+            return `${open}>\n      <skipped message="${message}"/>\n    </testcase>`;
+        }
+        return `${open}/>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites tests="${total}" failures="${failed}" skipped="${skipped}" time="${seconds(durationMs)}">`,
+        `  <testsuite name="github-linear-sync" tests="${total}" failures="${failed}" skipped="${skipped}" time="${seconds(durationMs)}" timestamp="${startedAt.toISOString()}">`,
+        ...testCases,
+        '  </testsuite>',
+        '</testsuites>'
+    ].join('\n');
+}
+
+export function formatReport(report: SyncReport, format: OutputFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify({
+                startedAt: report.startedAt.toISOString(),
+                durationMs: report.durationMs,
+                summary: countResults(report.results),
+                results: report.results.map(toRecord)
+            }, null, 2);
+        case 'ndjson':
+            return report.results.map(result => JSON.stringify(toRecord(result))).join('\n');
+        case 'markdown':
+            return toMarkdown(report);
+        case 'junit':
+            return toJunit(report);
+    }
+}
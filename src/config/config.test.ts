@@ -0,0 +1,113 @@
+import {afterEach, describe, expect, test} from 'bun:test';
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import type {LinearClient} from '@linear/sdk';
+import type {GithubIssue} from '../api/linear';
+import type {SyncCache} from '../sync/cache';
+import {findRoute, loadConfig, validateConfig, type SyncConfig, type SyncRoute} from './config';
+
+const connection = <T>(nodes: T[]) => ({ nodes, pageInfo: { hasNextPage: false } });
+
+// Team ENG with project API, team DES without projects
+const fakeCache = () => ({
+    teams: async () => [
+        { id: 'team-eng', key: 'ENG', name: 'Engineering' },
+        { id: 'team-des', key: 'DES', name: 'Design' }
+    ],
+    projects: async () => [
+        { id: 'project-api', slugId: 'api-1', url: 'https://linear.app/acme/project/api-1', name: 'API', teams: async () => connection([{ id: 'team-eng' }]) }
+    ],
+    workflowStates: async () => [
+        { id: 'todo', name: 'Todo', type: 'unstarted', position: 0 },
+        { id: 'in-progress', name: 'In Progress', type: 'started', position: 1 },
+        { id: 'in-review', name: 'In Review', type: 'started', position: 2 },
+        { id: 'done', name: 'Done', type: 'completed', position: 3 },
+        { id: 'canceled', name: 'Canceled', type: 'canceled', position: 4 }
+    ],
+    users: async () => []
+}) as unknown as SyncCache;
+
+const linear = {} as LinearClient;
+
+const githubIssue = (repo: string, labels: string[] = []) =>
+    ({ repository_url: `https://api.github.com/repos/${repo}`, labels: labels.map(name => ({ name })) }) as unknown as GithubIssue;
+
+describe('loadConfig', () => {
+    let dir: string;
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    test('applies the defaults to every route', async () => {
+        dir = mkdtempSync(join(tmpdir(), 'config-'));
+        const path = join(dir, 'github-linear-sync.config.json');
+        writeFileSync(path, JSON.stringify({
+            defaults: { team: 'ENG', since: '2024-01-01' },
+            routes: [{ repo: 'org/api', project: 'API' }, { repo: 'org/web', team: 'DES' }]
+        }));
+
+        const config = await loadConfig(path);
+
+        expect(config.routes).toEqual([
+            { repo: 'org/api', team: 'ENG', since: '2024-01-01', project: 'API' },
+            { repo: 'org/web', team: 'DES', since: '2024-01-01' }
+        ]);
+    });
+
+    test('requires a route', async () => {
+        dir = mkdtempSync(join(tmpdir(), 'config-'));
+        const path = join(dir, 'github-linear-sync.config.json');
+        writeFileSync(path, JSON.stringify({ routes: [] }));
+
+        await expect(loadConfig(path)).rejects.toThrow('must define at least one route');
+    });
+});
+
+describe('findRoute', () => {
+    const routes = [
+        { repo: 'org/web', labels: ['Design'], team: 'DES' },
+        { repo: 'org/web', team: 'ENG' },
+        { repo: 'org/api', team: 'ENG' }
+    ];
+
+    test('picks the first route whose repo and labels match', () => {
+        expect(findRoute(routes, githubIssue('Org/Web', ['design', 'bug']))).toBe(routes[0]);
+        expect(findRoute(routes, githubIssue('org/web', ['bug']))).toBe(routes[1]);
+        expect(findRoute(routes, githubIssue('org/cli'))).toBeUndefined();
+    });
+});
+
+describe('validateConfig', () => {
+    test('resolves the teams and projects of valid routes', async () => {
+        const config: SyncConfig = { routes: [{ repo: 'org/api', team: 'eng', project: 'API' }, { repo: 'org/web', team: 'Design' }] };
+
+        const { routes, errors } = await validateConfig(linear, config, fakeCache());
+
+        expect(errors).toEqual([]);
+        expect(routes.map(({ teamId, projectId }) => ({ teamId, projectId }))).toEqual([
+            { teamId: 'team-eng', projectId: 'project-api' },
+            { teamId: 'team-des', projectId: undefined }
+        ]);
+    });
+
+    test('reports every problem of a route', async () => {
+        const config: SyncConfig = {
+            routes: [
+                { repo: 'api', team: 'OPS' },
+                // As a JSON config can have it
+                { repo: 'org/web', team: 'DES', project: 'API', since: 'yesterday', titleTemplate: '{titel}', states: [{ linear: { type: 'shipped' } }] } as unknown as SyncRoute
+            ]
+        };
+
+        const { routes, errors } = await validateConfig(linear, config, fakeCache());
+
+        expect(routes).toEqual([]);
+        expect(errors).toEqual([
+            'Route 1 (api): repo "api" is not in owner/repo format',
+            'Route 1 (api): Linear team not found: OPS',
+            'Route 2 (org/web): since "yesterday" is not a valid date',
+            'Route 2 (org/web): titleTemplate uses unknown variables {titel}',
+            'Route 2 (org/web): Linear project API does not belong to team DES',
+            'Route 2 (org/web): state mapping rule 1 has unknown state type "shipped", expected one of: triage, backlog, unstarted, started, completed, canceled'
+        ]);
+    });
+});
@@ -0,0 +1,249 @@
+import {existsSync, readFileSync} from 'node:fs';
+import {resolve} from 'node:path';
+import {pathToFileURL} from 'node:url';
+import type {LinearClient} from '@linear/sdk';
+import {fetchAllNodes, findLinearProject, findLinearTeam, githubIssueLabels, githubIssueRepo, type GithubIssue} from '../api/linear';
+import {
+    DEFAULT_STATE_MAPPING,
+    describeStateRef,
+    fallbackStateTypes,
+    resolveWorkflowState,
+    stateMappingErrors,
+    type StateMappingRule
+} from '../sync/states';
+import type {CommentSyncMode} from '../sync/comments';
+import {pullRequestStates, type PullRequestConfig} from '../sync/pulls';
+import type {LinearImportFilter} from '../sync/sync';
+import {GITHUB_ISSUE_OUTCOMES, LIFECYCLE_ACTIONS, type LifecycleConfig} from '../sync/lifecycle';
+import {CONFLICT_FIELDS, CONFLICT_POLICIES, type ConflictConfig} from '../sync/conflicts';
+import type {GithubIssueFilter} from '../api/github';
+import {unknownTemplateVariables} from '../sync/template';
+import {SyncCache} from '../sync/cache';
+import {findLinearUser, type FieldMapping} from '../sync/fields';
+
+export const CONFIG_FILES = [
+    'github-linear-sync.config.ts',
+    'github-linear-sync.config.json'
+];
+
+/**
+ * Where the issues of one GitHub repository go in Linear.
+ * Routes are matched in order; the first route whose repo and labels
+ * match an issue owns it.
+ */
+export interface SyncRoute {
+    // Repository in 'owner/repo' format
+    repo: string;
+    // Only issues carrying all of these labels (case-insensitive)
+    labels?: string[];
+    // Linear team ID, key or name
+    team: string;
+    // Linear project ID, slug or name
+    project?: string;
+    authors?: string[];
+    // Only issues matching labels, excluded labels, assignee, milestone, state and issue type
+    filter?: GithubIssueFilter;
+    // Only issues updated since this date (YYYY-MM-DD)
+    since?: string;
+    states?: StateMappingRule[];
+    // Templates with {repo}, {number}, {title}, {author}, {labels}, {state}, {body} and {url}.
+    // The description template fills a synced block, the rest of the Linear description is left alone.
+    titleTemplate?: string;
+    descriptionTemplate?: string;
+    // Defaults to mirroring GitHub comments onto Linear only
+    comments?: CommentSyncMode;
+    fields?: FieldMapping;
+    // Pull requests are attached to the issues they reference unless set to false
+    pullRequests?: PullRequestConfig | false;
+    // Linear issues to create GitHub issues for with `--direction linear-to-github`
+    linearToGithub?: LinearImportFilter;
+    // What happens in Linear when the GitHub issue is deleted, transferred, locked or converted
+    lifecycle?: LifecycleConfig;
+    // Who wins when a field changed in both GitHub and Linear since the last sync, `flag` by default
+    conflicts?: ConflictConfig;
+    // Sub-issues and task lists become Linear sub-issues, "blocked by" and "duplicate of" relations, unless set to false
+    hierarchy?: boolean;
+}
+
+export interface SyncConfig {
+    // Applied to every route that doesn't set the field itself
+    defaults?: Partial<Omit<SyncRoute, 'repo'>>;
+    routes: SyncRoute[];
+}
+
+/**
+ * A route whose team and project were looked up in Linear
+ */
+export interface ResolvedRoute extends SyncRoute {
+    teamId: string;
+    projectId?: string;
+    states: StateMappingRule[];
+}
+
+// Typed helper for github-linear-sync.config.ts files
+export const defineConfig = (config: SyncConfig) => config;
+
+export function findConfigFile(dir = process.cwd()): string | undefined {
+    return CONFIG_FILES
+        .map(file => resolve(dir, file))
+        .find(path => existsSync(path));
+}
+
+/**
+ * Loads a JSON or TypeScript config file. TypeScript configs must
+ * `export default` the config, ideally through `defineConfig`.
+ */
+export async function loadConfig(path: string): Promise<SyncConfig> {
+    const config: SyncConfig = path.endsWith('.json')
+        ? JSON.parse(readFileSync(path, 'utf8'))
+        : (await import(pathToFileURL(resolve(path)).href)).default;
+
+    if (!config || !Array.isArray(config.routes) || config.routes.length === 0) {
+        throw new Error(`Config ${path} must define at least one route`);
+    }
+
+    return {
+        ...config,
+        routes: config.routes.map(route => ({ ...config.defaults, ...route }) as SyncRoute)
+    };
+}
+
+export function findRoute<T extends SyncRoute>(routes: T[], issue: GithubIssue): T | undefined {
+    const repo = githubIssueRepo(issue).toLowerCase();
+    const labels = githubIssueLabels(issue);
+    return routes.find(route =>
+        route.repo.toLowerCase() === repo &&
+        (route.labels ?? []).every(l => labels.includes(l.toLowerCase()))
+    );
+}
+
+/**
+ * Checks every team, project and state a config references against Linear
+ * @returns the resolved routes, or the problems found when there are any
+ */
+export async function validateConfig(
+    client: LinearClient,
+    config: SyncConfig,
+    cache = new SyncCache(client)
+): Promise<{ routes: ResolvedRoute[]; errors: string[] }> {
+    const errors: string[] = [];
+    const routes: ResolvedRoute[] = [];
+
+    for (const [i, route] of config.routes.entries()) {
+        const name = `Route ${i + 1} (${route.repo}${route.labels?.length ? ` label:${route.labels.join(',')}` : ''})`;
+        const routeErrors: string[] = [];
+
+        if (!/^[\w.-]+\/[\w.-]+$/.test(route.repo ?? '')) {
+            routeErrors.push(`repo "${route.repo}" is not in owner/repo format`);
+        }
+        if (route.since && isNaN(new Date(route.since).getTime())) {
+            routeErrors.push(`since "${route.since}" is not a valid date`);
+        }
+
+        for (const key of ['titleTemplate', 'descriptionTemplate'] as const) {
+            const unknown = unknownTemplateVariables(route[key] ?? '');
+            if (unknown.length) {
+                routeErrors.push(`${key} uses unknown variables ${unknown.map(v => `{${v}}`).join(', ')}`);
+            }
+        }
+
+        const team = route.team ? await findLinearTeam(client, route.team, cache) : undefined;
+        if (!team) {
+            routeErrors.push(`Linear team not found: ${route.team}`);
+        }
+
+        const project = route.project ? await findLinearProject(client, route.project, cache) : undefined;
+        if (route.project && !project) {
+            routeErrors.push(`Linear project not found: ${route.project}`);
+        }
+        if (team && project) {
+            const projectTeams = await fetchAllNodes(project.teams());
+            if (!projectTeams.some(t => t.id === team.id)) {
+                routeErrors.push(`Linear project ${project.name} does not belong to team ${team.key}`);
+            }
+        }
+
+        const mappingErrors = stateMappingErrors(route.states ?? []);
+        routeErrors.push(...mappingErrors.map(e => `state mapping ${e}`));
+
+        if (team && !mappingErrors.length) {
+            const teamStates = await cache.workflowStates(team.id);
+            for (const rule of [...(route.states ?? []), ...DEFAULT_STATE_MAPPING]) {
+                const fallbackTypes = fallbackStateTypes(rule.state === 'closed');
+                if (!resolveWorkflowState(teamStates, rule.linear, fallbackTypes)) {
+                    routeErrors.push(`team ${team.key} has no workflow state matching "${describeStateRef(rule.linear)}"`);
+                }
+            }
+        }
+        if (team && route.pullRequests !== false) {
+            const teamStates = await cache.workflowStates(team.id);
+            for (const [stage, ref] of Object.entries(pullRequestStates(route.pullRequests))) {
+                if (ref && !resolveWorkflowState(teamStates, ref)) {
+                    routeErrors.push(`team ${team.key} has no workflow state matching "${describeStateRef(ref)}" for ${stage} pull requests`);
+                }
+            }
+        }
+
+        for (const [outcome, actions] of Object.entries(route.lifecycle ?? {})) {
+            if (!(GITHUB_ISSUE_OUTCOMES as readonly string[]).includes(outcome)) {
+                routeErrors.push(`lifecycle outcome "${outcome}" is not one of ${GITHUB_ISSUE_OUTCOMES.join(', ')}`);
+            }
+            const unknown = (actions ?? []).filter(action => !(LIFECYCLE_ACTIONS as readonly string[]).includes(action));
+            if (unknown.length) {
+                routeErrors.push(`lifecycle ${outcome} actions ${unknown.join(', ')} are not one of ${LIFECYCLE_ACTIONS.join(', ')}`);
+            }
+        }
+
+        if (route.filter?.state && !['open', 'closed', 'all'].includes(route.filter.state)) {
+            routeErrors.push(`filter state "${route.filter.state}" is not one of open, closed, all`);
+        }
+
+        const conflictPolicies = typeof route.conflicts === 'string' ? { all: route.conflicts } : route.conflicts ?? {};
+        for (const [field, policy] of Object.entries(conflictPolicies)) {
+            if (field !== 'all' && !(CONFLICT_FIELDS as readonly string[]).includes(field)) {
+                routeErrors.push(`conflicts field "${field}" is not one of ${CONFLICT_FIELDS.join(', ')}`);
+            }
+            if (!(CONFLICT_POLICIES as readonly string[]).includes(policy)) {
+                routeErrors.push(`conflicts policy "${policy}" is not one of ${CONFLICT_POLICIES.join(', ')}`);
+            }
+        }
+
+        const importFilter = route.linearToGithub ?? {};
+        if (importFilter.project && !await findLinearProject(client, importFilter.project, cache)) {
+            routeErrors.push(`linearToGithub project not found: ${importFilter.project}`);
+        }
+        if (team && importFilter.states?.length) {
+            const teamStates = await cache.workflowStates(team.id);
+            for (const ref of importFilter.states) {
+                if (!resolveWorkflowState(teamStates, ref)) {
+                    routeErrors.push(`team ${team.key} has no workflow state matching "${describeStateRef(ref)}" for linearToGithub`);
+                }
+            }
+        }
+
+        const fields = route.fields ?? {};
+        if (fields.milestones === 'project-milestone' && !route.project) {
+            routeErrors.push('milestones can only map to project milestones when the route has a project');
+        }
+        if (fields.users && Object.keys(fields.users).length) {
+            const users = await cache.users();
+            for (const [login, ref] of Object.entries(fields.users)) {
+                if (!findLinearUser(users, ref)) {
+                    routeErrors.push(`Linear user not found for GitHub user ${login}: ${ref}`);
+                }
+            }
+        }
+
+        errors.push(...routeErrors.map(e => `${name}: ${e}`));
+        if (team && !routeErrors.length) {
+            routes.push({
+                ...route,
+                teamId: team.id,
+                projectId: project?.id,
+                states: route.states ?? []
+            });
+        }
+    }
+
+    return { routes, errors };
+}
@@ -0,0 +1,42 @@
+/**
+ * Base class of the errors the sync throws on purpose, as opposed to bugs.
+ * The original error, when there is one, is the `cause`.
+ */
+export class SyncError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+// Missing or rejected GitHub or Linear credentials, or credentials lacking access
+export class AuthError extends SyncError {}
+
+// A repository, user, team, project or other referenced resource doesn't exist or isn't accessible
+export class NotFoundError extends SyncError {}
+
+// A rate limit that didn't reset within the retries
+export class RateLimitError extends SyncError {
+    constructor(
+        message: string,
+        // How long the API asked to wait, when it said
+        readonly retryAfterMs?: number,
+        options?: ErrorOptions
+    ) {
+        super(message, options);
+    }
+}
+
+// Problems found validating the sync config
+export class ConfigError extends SyncError {
+    constructor(readonly problems: string[]) {
+        super(`Config has ${problems.length} problems:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    }
+}
+
+// Linear changed since a plan was made, so applying it would overwrite those changes
+export class PlanConflictError extends SyncError {
+    constructor(readonly createdAt: string, readonly conflicts: string[]) {
+        super(`Linear changed since the plan was made on ${createdAt}:\n${conflicts.map(conflict => `  - ${conflict}`).join('\n')}`);
+    }
+}
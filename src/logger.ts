@@ -0,0 +1,11 @@
+/**
+ * Where progress and problems are reported, `console` by default. Embedders
+ * pass their own logger, or `silentLogger`.
+ */
+export type Logger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+export const silentLogger: Logger = {
+    log() {},
+    warn() {},
+    error() {}
+};
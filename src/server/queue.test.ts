@@ -0,0 +1,98 @@
+import {describe, expect, test} from 'bun:test';
+import {IssueQueue} from './queue';
+
+// A task that runs until `finish` is called, recording when it starts and ends
+function deferredTask(events: string[], name: string) {
+    let finish!: () => void;
+    let fail!: (error: Error) => void;
+    const done = new Promise<void>((resolve, reject) => {
+        finish = resolve;
+        fail = reject;
+    });
+    const run = async () => {
+        events.push(`${name} start`);
+        await done;
+        events.push(`${name} end`);
+    };
+    return { run, finish, fail };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('IssueQueue', () => {
+    test('runs the tasks of one key one after another', async () => {
+        const events: string[] = [];
+        const queue = new IssueQueue(() => {});
+        const first = deferredTask(events, 'first');
+        const second = deferredTask(events, 'second');
+
+        queue.enqueue('issue-1', 'd1', first.run);
+        queue.enqueue('issue-1', 'd2', second.run);
+        await tick();
+        expect(events).toEqual(['first start']);
+
+        first.finish();
+        second.finish();
+        await queue.drain();
+        expect(events).toEqual(['first start', 'first end', 'second start', 'second end']);
+    });
+
+    test('runs the tasks of different keys at the same time', async () => {
+        const events: string[] = [];
+        const queue = new IssueQueue(() => {});
+        const first = deferredTask(events, 'first');
+        const second = deferredTask(events, 'second');
+
+        queue.enqueue('issue-1', 'd1', first.run);
+        queue.enqueue('issue-2', 'd2', second.run);
+        await tick();
+        expect(events).toEqual(['first start', 'second start']);
+        expect(queue.pending).toBe(2);
+
+        first.finish();
+        second.finish();
+        await queue.drain();
+        expect(queue.pending).toBe(0);
+    });
+
+    test('rejects a delivery that is queued or was processed', async () => {
+        const queue = new IssueQueue(() => {});
+        const task = deferredTask([], 'task');
+
+        expect(queue.enqueue('issue-1', 'd1', task.run)).toBe(true);
+        expect(queue.enqueue('issue-1', 'd1', task.run)).toBe(false);
+        task.finish();
+        await queue.drain();
+        expect(queue.enqueue('issue-1', 'd1', async () => {})).toBe(false);
+        // Deliveries without an ID can't be told apart
+        expect(queue.enqueue('issue-1', undefined, async () => {})).toBe(true);
+        expect(queue.enqueue('issue-1', undefined, async () => {})).toBe(true);
+        await queue.drain();
+    });
+
+    test('forgets a delivery whose task failed, so redelivering it retries', async () => {
+        const errors: string[] = [];
+        const queue = new IssueQueue((key, error) => errors.push(`${key}: ${(error as Error).message}`));
+        const task = deferredTask([], 'task');
+
+        queue.enqueue('issue-1', 'd1', task.run);
+        task.fail(new Error('Linear is down'));
+        await queue.drain();
+
+        expect(errors).toEqual(['issue-1: Linear is down']);
+        expect(queue.enqueue('issue-1', 'd1', async () => {})).toBe(true);
+        await queue.drain();
+    });
+
+    test('forgets the oldest deliveries beyond its history', async () => {
+        const queue = new IssueQueue(() => {}, 2);
+        for (const id of ['d1', 'd2', 'd3']) {
+            queue.enqueue(id, id, async () => {});
+        }
+        await queue.drain();
+
+        expect(queue.enqueue('d1', 'd1', async () => {})).toBe(true);
+        expect(queue.enqueue('d3', 'd3', async () => {})).toBe(false);
+        await queue.drain();
+    });
+});
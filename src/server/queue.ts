@@ -0,0 +1,60 @@
+/**
+ * In-memory work queue. Tasks sharing a key run one after another, tasks
+ * with different keys run concurrently. Delivery IDs queued or processed
+ * before are rejected, so a redelivered webhook is processed only once. A
+ * delivery whose task failed is forgotten, so redelivering it retries.
+ */
+export class IssueQueue {
+    private tails = new Map<string, Promise<void>>();
+    private deliveries = new Set<string>();
+
+    constructor(
+        private readonly onError: (key: string, error: unknown) => void,
+        // Number of delivery IDs remembered for deduplication
+        private readonly deliveryHistory = 10_000
+    ) {}
+
+    /**
+     * @returns false when the delivery is queued or was processed before
+     */
+    enqueue(key: string, deliveryId: string | undefined, task: () => Promise<void>): boolean {
+        if (deliveryId) {
+            if (this.deliveries.has(deliveryId)) {
+                return false;
+            }
+            this.deliveries.add(deliveryId);
+            if (this.deliveries.size > this.deliveryHistory) {
+                // Sets iterate in insertion order, so this drops the oldest ID
+                this.deliveries.delete(this.deliveries.values().next().value!);
+            }
+        }
+
+        const previous = this.tails.get(key) ?? Promise.resolve();
+        const tail = previous
+            .then(task)
+            .catch(error => {
+                if (deliveryId) {
+                    this.deliveries.delete(deliveryId);
+                }
+                this.onError(key, error);
+            })
+            .finally(() => {
+                if (this.tails.get(key) === tail) {
+                    this.tails.delete(key);
+                }
+            });
+        this.tails.set(key, tail);
+        return true;
+    }
+
+    get pending(): number {
+        return this.tails.size;
+    }
+
+    // Resolves once every queued task has finished
+    async drain() {
+        while (this.tails.size) {
+            await Promise.all(this.tails.values());
+        }
+    }
+}
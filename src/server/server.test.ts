@@ -0,0 +1,127 @@
+import {describe, expect, test} from 'bun:test';
+import {createHmac} from 'node:crypto';
+import {readFileSync} from 'node:fs';
+import {join} from 'node:path';
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {silentLogger} from '../logger';
+import {LinkStore} from '../sync/store';
+import {createWebhookHandler} from './server';
+
+const GITHUB_SECRET = 'github-secret';
+const LINEAR_SECRET = 'linear-secret';
+
+// Payloads recorded from GitHub and Linear deliveries
+const fixture = (name: string) => readFileSync(join(import.meta.dir, 'fixtures', name), 'utf8');
+
+const hmac = (secret: string, body: string) => createHmac('sha256', secret).update(body).digest('hex');
+
+function webhookHandler() {
+    const store = new LinkStore('/dev/null');
+    store.set({
+        githubNodeId: 'I_kwDOAbCdEf6SAbCd',
+        githubUrl: 'https://github.com/acme/app/issues/42',
+        linearId: 'a1b2c3d4-e5f6-4789-8abc-def012345678'
+    });
+    const errors: string[] = [];
+    const handler = createWebhookHandler({
+        // Nothing is synced: no route matches the GitHub issue, and Linear deliveries fail on these clients
+        linear: {} as LinearClient,
+        github: {} as Octokit,
+        store,
+        routes: [],
+        bidirectional: true,
+        githubSecret: GITHUB_SECRET,
+        linearSecret: LINEAR_SECRET,
+        logger: { ...silentLogger, error: (message: string) => errors.push(message) }
+    });
+    return { handler, errors };
+}
+
+function githubDelivery(body: string, { event = 'issues', delivery = 'gh-1', signature = `sha256=${hmac(GITHUB_SECRET, body)}` } = {}) {
+    return new Request('http://localhost/webhooks/github', {
+        method: 'POST',
+        headers: { 'x-github-event': event, 'x-github-delivery': delivery, 'x-hub-signature-256': signature },
+        body
+    });
+}
+
+function linearDelivery(body: string, { delivery = 'lin-1', signature = hmac(LINEAR_SECRET, body) } = {}) {
+    return new Request('http://localhost/webhooks/linear', {
+        method: 'POST',
+        headers: { 'linear-delivery': delivery, 'linear-signature': signature },
+        body
+    });
+}
+
+// The recorded Linear payload, timestamped now so it isn't taken for a replay
+const linearIssueUpdate = (timestamp = Date.now()) =>
+    JSON.stringify({ ...JSON.parse(fixture('linear-issue-update.json')), webhookTimestamp: timestamp });
+
+describe('GitHub webhooks', () => {
+    test('rejects deliveries without a valid signature', async () => {
+        const { handler } = webhookHandler();
+        const body = fixture('github-issues-opened.json');
+
+        expect((await handler(githubDelivery(body, { signature: '' }))).status).toBe(401);
+        expect((await handler(githubDelivery(body, { signature: `sha256=${hmac('wrong', body)}` }))).status).toBe(401);
+        expect((await handler(githubDelivery('not json', { signature: '' }))).status).toBe(401);
+    });
+
+    test('queues a signed issue delivery once', async () => {
+        const { handler, errors } = webhookHandler();
+        const body = fixture('github-issues-opened.json');
+
+        const first = await handler(githubDelivery(body));
+        expect(first.status).toBe(202);
+        expect(await first.json()).toEqual({ queued: true, duplicate: false });
+
+        const redelivered = await handler(githubDelivery(body));
+        expect(redelivered.status).toBe(200);
+        expect(await redelivered.json()).toEqual({ queued: false, duplicate: true });
+
+        await handler.queue.drain();
+        expect(errors).toEqual([]);
+    });
+
+    test('ignores comments on pull requests and other events', async () => {
+        const { handler } = webhookHandler();
+        const comment = fixture('github-issue-comment-on-pull-request.json');
+
+        expect(await (await handler(githubDelivery(comment, { event: 'issue_comment' }))).json()).toEqual({ ignored: 'issue_comment' });
+        expect(await (await handler(githubDelivery('{}', { event: 'star' }))).json()).toEqual({ ignored: 'star' });
+        expect(handler.queue.pending).toBe(0);
+    });
+
+    test('answers 400 to a signed body that is not JSON', async () => {
+        const { handler } = webhookHandler();
+        expect((await handler(githubDelivery('not json'))).status).toBe(400);
+    });
+});
+
+describe('Linear webhooks', () => {
+    test('checks the signature before reading the body', async () => {
+        const { handler } = webhookHandler();
+
+        expect((await handler(linearDelivery('not json', { signature: 'forged' }))).status).toBe(401);
+        expect((await handler(linearDelivery('not json'))).status).toBe(400);
+    });
+
+    test('rejects replayed deliveries', async () => {
+        const { handler } = webhookHandler();
+        const stale = linearIssueUpdate(Date.now() - 5 * 60 * 1000);
+
+        expect((await handler(linearDelivery(stale))).status).toBe(401);
+    });
+
+    test('queues a linked issue, and takes a failed delivery again', async () => {
+        const { handler, errors } = webhookHandler();
+        const body = linearIssueUpdate();
+
+        expect((await handler(linearDelivery(body))).status).toBe(202);
+        await handler.queue.drain();
+        expect(errors).toHaveLength(1);
+        expect((await handler(linearDelivery(body))).status).toBe(202);
+        await handler.queue.drain();
+    });
+});
@@ -0,0 +1,240 @@
+import {createHmac, timingSafeEqual} from 'node:crypto';
+import {LINEAR_WEBHOOK_SIGNATURE_HEADER, LINEAR_WEBHOOK_TS_FIELD, LinearWebhooks, type LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {parseGithubIssueUrl, syncGithubIssueToLinear, type GithubIssue} from '../api/linear';
+import type {GithubPullRequest} from '../api/github';
+import {findRoute, type ResolvedRoute} from '../config/config';
+import type {Logger} from '../logger';
+import {SyncCache} from '../sync/cache';
+import {syncIssueComments} from '../sync/comments';
+import {markdownConverters} from '../sync/markdown';
+import {syncPullRequest} from '../sync/pulls';
+import type {LinkStore} from '../sync/store';
+import {syncLinearIssueToGithub} from '../sync/sync';
+import {IssueQueue} from './queue';
+
+export interface WebhookServerOptions {
+    linear: LinearClient;
+    github: Octokit;
+    store: LinkStore;
+    routes: ResolvedRoute[];
+    // Handle Linear webhooks too, pushing Linear changes back to GitHub
+    bidirectional: boolean;
+    githubSecret?: string;
+    linearSecret?: string;
+    // Skip signature checks, for posting recorded payloads locally
+    allowUnsigned?: boolean;
+    logger?: Logger;
+}
+
+const GITHUB_EVENTS = ['issues', 'issue_comment', 'pull_request'];
+
+function verifyGithubSignature(secret: string, body: string, signature: string | null) {
+    if (!signature?.startsWith('sha256=')) {
+        return false;
+    }
+    const encoder = new TextEncoder();
+    const expected = encoder.encode(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+    const actual = encoder.encode(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function verifyLinearSignature(secret: string, body: string, signature: string | null, timestamp?: number) {
+    if (!signature) {
+        return false;
+    }
+    try {
+        return new LinearWebhooks(secret).verify(Buffer.from(body), signature, timestamp);
+    } catch {
+        return false;
+    }
+}
+
+const json = (status: number, body: object) => Response.json(body, { status });
+
+// @returns undefined when the body isn't JSON
+function parsePayload(body: string) {
+    try {
+        return JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Builds the fetch handler of the webhook server. Deliveries are verified,
+ * queued per issue and acknowledged right away; the sync runs in the
+ * background through the same per-issue functions as `sync`.
+ */
+export function createWebhookHandler(options: WebhookServerOptions) {
+    const { linear, github, store, routes, logger = console } = options;
+
+    const queue = new IssueQueue((key, error) => {
+        logger.error(`❌ Sync failed for ${key}:`, error instanceof Error ? error.message : error);
+    });
+
+    const syncGithubIssue = async (issue: GithubIssue) => {
+        const route = findRoute(routes, issue);
+        if (!route) {
+            return;
+        }
+        await syncGithubIssueToLinear(linear, github, issue, route, store, new SyncCache(linear), logger);
+        store.save();
+        logger.log(`✅ Synced ${issue.html_url}`);
+    };
+
+    const syncGithubPullRequest = async (pr: GithubPullRequest) => {
+        const repo = pr.base.repo.full_name.toLowerCase();
+        const route = routes.find(route => route.repo.toLowerCase() === repo);
+        if (!route || route.pullRequests === false) {
+            return;
+        }
+        // A fresh cache per delivery, the issue states change between deliveries
+        const { linked } = await syncPullRequest(linear, pr, route.pullRequests, store, new SyncCache(linear));
+        if (linked.length) {
+            logger.log(`✅ Linked ${pr.html_url} to ${linked.join(', ')}`);
+        }
+    };
+
+    const syncLinearIssue = async (linearIssueId: string, commentsOnly: boolean) => {
+        const link = store.findByLinearId(linearIssueId);
+        if (!link) {
+            return;
+        }
+
+        if (!commentsOnly) {
+            await syncLinearIssueToGithub(linear, github, link, store, routes);
+        }
+
+        const url = parseGithubIssueUrl(link.githubUrl)!;
+        const { data: githubIssue } = await github.issues.get({
+            owner: url.owner,
+            repo: url.repo,
+            issue_number: url.number
+        });
+        const route = findRoute(routes, githubIssue);
+        if (route?.comments === 'both') {
+            const linearIssue = await linear.issue(linearIssueId);
+            const markdown = markdownConverters(linear, github, new SyncCache(linear), store, {
+                repo: `${url.owner}/${url.repo}`,
+                fields: route.fields
+            });
+            await syncIssueComments(linear, github, githubIssue, linearIssue, store, route.comments, markdown, logger);
+        }
+        store.save();
+        logger.log(`✅ Synced ${link.githubUrl} from Linear`);
+    };
+
+    const handleGithub = async (request: Request, body: string) => {
+        if (!options.allowUnsigned && (
+            !options.githubSecret ||
+            !verifyGithubSignature(options.githubSecret, body, request.headers.get('x-hub-signature-256'))
+        )) {
+            return json(401, { error: 'Invalid signature' });
+        }
+
+        const event = request.headers.get('x-github-event') ?? '';
+        if (!GITHUB_EVENTS.includes(event)) {
+            return json(202, { ignored: event });
+        }
+
+        const payload = parsePayload(body);
+        if (!payload) {
+            return json(400, { error: 'Invalid JSON payload' });
+        }
+        if (event === 'pull_request') {
+            const pr: GithubPullRequest = payload.pull_request;
+            const queued = queue.enqueue(
+                pr.node_id,
+                request.headers.get('x-github-delivery') ?? undefined,
+                () => syncGithubPullRequest(pr)
+            );
+            return json(queued ? 202 : 200, { queued, duplicate: !queued });
+        }
+
+        const issue: GithubIssue | undefined = payload.issue;
+        // issue_comment also fires for pull request comments
+        if (!issue || issue.pull_request) {
+            return json(202, { ignored: event });
+        }
+
+        const queued = queue.enqueue(
+            issue.node_id,
+            request.headers.get('x-github-delivery') ?? undefined,
+            () => syncGithubIssue(issue)
+        );
+        return json(queued ? 202 : 200, { queued, duplicate: !queued });
+    };
+
+    const handleLinear = async (request: Request, body: string) => {
+        const signature = request.headers.get(LINEAR_WEBHOOK_SIGNATURE_HEADER);
+        const verify = (timestamp?: number) => options.allowUnsigned || (
+            !!options.linearSecret && verifyLinearSignature(options.linearSecret, body, signature, timestamp)
+        );
+        if (!verify()) {
+            return json(401, { error: 'Invalid signature' });
+        }
+        const payload = parsePayload(body);
+        if (!payload) {
+            return json(400, { error: 'Invalid JSON payload' });
+        }
+        // The signed timestamp is in the body, deliveries older than a minute are replays
+        if (!verify(payload[LINEAR_WEBHOOK_TS_FIELD])) {
+            return json(401, { error: 'Expired signature' });
+        }
+
+        if (!options.bidirectional) {
+            return json(202, { ignored: 'Linear → GitHub sync is disabled' });
+        }
+
+        const issueId: string | undefined = payload.type === 'Issue'
+            ? payload.data?.id
+            : payload.type === 'Comment' ? payload.data?.issueId : undefined;
+        const link = issueId ? store.findByLinearId(issueId) : undefined;
+        if (!issueId || !link) {
+            return json(202, { ignored: payload.type });
+        }
+
+        // Keyed like GitHub deliveries, so both directions of one issue never interleave
+        const queued = queue.enqueue(
+            link.githubNodeId,
+            request.headers.get('linear-delivery') ?? undefined,
+            () => syncLinearIssue(issueId, payload.type === 'Comment')
+        );
+        return json(queued ? 202 : 200, { queued, duplicate: !queued });
+    };
+
+    const handler = async (request: Request): Promise<Response> => {
+        const { pathname } = new URL(request.url);
+
+        if (request.method === 'GET' && pathname === '/healthz') {
+            return json(200, { status: 'ok', pending: queue.pending });
+        }
+        if (request.method !== 'POST') {
+            return json(405, { error: 'Method not allowed' });
+        }
+
+        const body = await request.text();
+        switch (pathname) {
+            case '/webhooks/github':
+                return handleGithub(request, body);
+            case '/webhooks/linear':
+                return handleLinear(request, body);
+            default:
+                return json(404, { error: 'Not found' });
+        }
+    };
+
+    return Object.assign(handler, { queue });
+}
+
+export function startWebhookServer(options: WebhookServerOptions & { port: number }) {
+    const handler = createWebhookHandler(options);
+    const server = Bun.serve({ port: options.port, fetch: handler });
+    const { logger = console } = options;
+    logger.log(`Listening for webhooks on http://localhost:${server.port}`);
+    logger.log('  POST /webhooks/github  GitHub issues, issue_comment and pull_request events');
+    logger.log('  POST /webhooks/linear  Linear Issue and Comment events');
+    logger.log('  GET  /healthz');
+    return server;
+}
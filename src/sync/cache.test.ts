@@ -0,0 +1,39 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import {SyncCache} from './cache';
+
+// Linear listing its teams, failing the first `failures` times
+function fakeLinear(failures = 0) {
+    let requests = 0;
+    const client = {
+        teams: async () => {
+            if (++requests <= failures) {
+                throw new Error('Linear is down');
+            }
+            return { nodes: [{ id: 'team-eng', key: 'ENG' }], pageInfo: { hasNextPage: false } };
+        }
+    } as unknown as LinearClient;
+    return { client, requests: () => requests };
+}
+
+describe('SyncCache', () => {
+    test('shares one request between concurrent lookups', async () => {
+        const linear = fakeLinear();
+        const cache = new SyncCache(linear.client);
+
+        const [first, second] = await Promise.all([cache.teams(), cache.teams()]);
+
+        expect(first).toBe(second);
+        expect(await cache.teams()).toBe(first);
+        expect(linear.requests()).toBe(1);
+    });
+
+    test('drops failed loads, so the next lookup retries', async () => {
+        const linear = fakeLinear(1);
+        const cache = new SyncCache(linear.client);
+
+        await expect(cache.teams()).rejects.toThrow('Linear is down');
+        expect((await cache.teams()).map(team => team.key)).toEqual(['ENG']);
+        expect(linear.requests()).toBe(2);
+    });
+});
@@ -0,0 +1,108 @@
+import type {Issue as LinearIssue, IssueLabel, LinearClient, User, WorkflowState} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {fetchAllNodes} from '../api/linear';
+import type {GithubParent} from './hierarchy';
+import {fetchIssueSnapshots, type LinearIssueSnapshot} from './plan';
+import {getTeamWorkflowStates} from './states';
+
+/**
+ * Run-scoped cache of the lookups every issue of a sync needs. Loads are
+ * memoized as promises, so concurrently synced issues asking for the same
+ * data share a single request. Failed loads are dropped and retried.
+ */
+export class SyncCache {
+    private entries = new Map<string, Promise<unknown>>();
+
+    // Linear counterparts resolved up front by findExistingIssues, keyed by GitHub node ID
+    readonly existingIssues = new Map<string, LinearIssue | null>();
+    // GitHub node IDs listed during this run, so they're known to exist
+    readonly fetchedIssues = new Set<string>();
+    // Their URLs, lowercase
+    readonly fetchedIssueUrls = new Set<string>();
+    // GitHub parent of each listed issue and of the issues they list, by lowercase issue URL
+    readonly githubParents = new Map<string, GithubParent | null>();
+
+    constructor(private readonly client: LinearClient) {}
+
+    get<T>(key: string, load: () => Promise<T>): Promise<T> {
+        let entry = this.entries.get(key) as Promise<T> | undefined;
+        if (!entry) {
+            entry = load();
+            entry.catch(() => this.entries.delete(key));
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    projects() {
+        return this.get('projects', () => fetchAllNodes(this.client.projects({ first: 250 })));
+    }
+
+    teams() {
+        return this.get('teams', () => fetchAllNodes(this.client.teams({ first: 250 })));
+    }
+
+    teamProjects(teamId: string) {
+        return this.get(`team-projects:${teamId}`, async () =>
+            fetchAllNodes((await this.client.team(teamId)).projects({ first: 250 }))
+        );
+    }
+
+    workflowStates(teamId: string): Promise<WorkflowState[]> {
+        return this.get(`states:${teamId}`, () => getTeamWorkflowStates(this.client, teamId));
+    }
+
+    // Labels usable by the team: its own and the workspace labels. Created labels are pushed onto it.
+    labels(teamId: string): Promise<IssueLabel[]> {
+        return this.get(`labels:${teamId}`, () => fetchAllNodes(this.client.issueLabels({
+            first: 250,
+            filter: {
+                or: [
+                    { team: { id: { eq: teamId } } },
+                    { team: { null: true } }
+                ]
+            }
+        })));
+    }
+
+    organization() {
+        return this.get('organization', () => this.client.organization);
+    }
+
+    users(): Promise<User[]> {
+        return this.get('users', () => fetchAllNodes(this.client.users({ first: 250 })));
+    }
+
+    cycles(teamId: string) {
+        return this.get(`cycles:${teamId}`, async () =>
+            fetchAllNodes((await this.client.team(teamId)).cycles({ first: 100 }))
+        );
+    }
+
+    projectMilestones(projectId: string) {
+        return this.get(`milestones:${projectId}`, async () =>
+            fetchAllNodes((await this.client.project(projectId)).projectMilestones({ first: 100 }))
+        );
+    }
+
+    snapshot(issueId: string): Promise<LinearIssueSnapshot | undefined> {
+        return this.get(`snapshot:${issueId}`, async () =>
+            (await fetchIssueSnapshots(this.client, [issueId])).get(issueId)
+        );
+    }
+
+    // Loads the snapshots of many issues with batched queries
+    async prefetchSnapshots(issueIds: string[]) {
+        const missing = issueIds.filter(id => !this.entries.has(`snapshot:${id}`));
+        const snapshots = await fetchIssueSnapshots(this.client, missing);
+        for (const id of missing) {
+            this.entries.set(`snapshot:${id}`, Promise.resolve(snapshots.get(id)));
+        }
+    }
+
+    githubUser(githubClient: Octokit, login: string) {
+        return this.get(`github-user:${login.toLowerCase()}`, async () =>
+            (await githubClient.users.getByUsername({ username: login })).data
+        );
+    }
+}
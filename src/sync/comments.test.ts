@@ -0,0 +1,127 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import type {GithubIssue} from '../api/linear';
+import {silentLogger, type Logger} from '../logger';
+import {syncIssueComments} from './comments';
+import {LinkStore, type LinkedComment} from './store';
+
+const githubIssue = {
+    node_id: 'I_1',
+    html_url: 'https://github.com/acme/app/issues/1',
+    comments: 2
+} as GithubIssue;
+
+const githubComment = (id: number, body: string) => ({
+    id,
+    body,
+    html_url: `${githubIssue.html_url}#issuecomment-${id}`,
+    user: { login: 'octocat', html_url: 'https://github.com/octocat' }
+});
+
+function linkedStore(comments: LinkedComment[] = []) {
+    const store = new LinkStore('/dev/null');
+    store.set({ githubNodeId: 'I_1', githubUrl: githubIssue.html_url, linearId: 'lin-1', comments });
+    return store;
+}
+
+// A Linear client whose createComment fails after `failAfter` comments
+function fakeLinear({ failAfter = Infinity, deleteFails = false } = {}) {
+    const created: string[] = [];
+    const client = {
+        async createComment({ body }: { body: string }) {
+            if (created.length >= failAfter) {
+                throw new Error('Linear is down');
+            }
+            created.push(body);
+            return { comment: Promise.resolve({ id: `lc-${created.length}` }) };
+        },
+        async updateComment() {},
+        async deleteComment() {
+            if (deleteFails) {
+                throw new Error('Entity not found');
+            }
+        }
+    };
+    return { client: client as unknown as LinearClient, created };
+}
+
+function fakeGithub(comments: ReturnType<typeof githubComment>[]) {
+    return {
+        paginate: async () => comments,
+        issues: { listComments: {} }
+    } as unknown as Octokit;
+}
+
+const linearIssue = { id: 'lin-1', identifier: 'ENG-1' };
+
+describe('syncIssueComments', () => {
+    test('records each mirror as it is created, so a failure halfway posts nothing twice', async () => {
+        const store = linkedStore();
+        const github = fakeGithub([githubComment(1, 'first'), githubComment(2, 'second')]);
+
+        const failing = fakeLinear({ failAfter: 1 });
+        await expect(syncIssueComments(failing.client, github, githubIssue, linearIssue, store, 'github-to-linear', undefined, silentLogger))
+            .rejects.toThrow('Linear is down');
+        expect(store.get('I_1')!.comments!.map(c => c.githubCommentId)).toEqual([1]);
+
+        const working = fakeLinear();
+        const results = await syncIssueComments(working.client, github, githubIssue, linearIssue, store, 'github-to-linear', undefined, silentLogger);
+        expect(results.created).toBe(1);
+        expect(working.created).toHaveLength(1);
+        expect(working.created[0]).toContain('second');
+        expect(store.get('I_1')!.comments!.map(c => c.githubCommentId)).toEqual([1, 2]);
+    });
+
+    test('logs a mirror that could not be deleted and stops tracking it', async () => {
+        const store = linkedStore([{ origin: 'github', githubCommentId: 1, linearCommentId: 'lc-1', hash: 'x' }]);
+        const warnings: string[] = [];
+        const logger: Logger = { ...silentLogger, warn: message => warnings.push(message) };
+
+        const { client } = fakeLinear({ deleteFails: true });
+        const results = await syncIssueComments(client, fakeGithub([]), githubIssue, linearIssue, store, 'github-to-linear', undefined, logger);
+
+        expect(results.deleted).toBe(0);
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain('Entity not found');
+        expect(store.get('I_1')!.comments).toEqual([]);
+    });
+
+    test('keeps tracking Linear-origin mirrors when Linear → GitHub is off', async () => {
+        const mirror: LinkedComment = { origin: 'linear', githubCommentId: 9, linearCommentId: 'lc-9', hash: 'x' };
+        const store = linkedStore([mirror]);
+        const { client, created } = fakeLinear();
+
+        await syncIssueComments(client, fakeGithub([githubComment(9, 'mirrored')]), githubIssue, linearIssue, store, 'github-to-linear', undefined, silentLogger);
+
+        expect(created).toEqual([]);
+        expect(store.get('I_1')!.comments).toEqual([mirror]);
+    });
+
+    test('mirrors Linear comments to GitHub, but not the notices the sync posted', async () => {
+        const store = linkedStore();
+        store.set({ ...store.get('I_1')!, notices: ['lc-notice'] });
+        const posted: string[] = [];
+        const github = {
+            paginate: async () => [],
+            issues: {
+                listComments: {},
+                createComment: async ({ body }: { body: string }) => ({ data: { id: posted.push(body) } })
+            }
+        } as unknown as Octokit;
+        const linearComment = (id: string, body: string) => ({ id, body, url: `https://linear.app/acme/issue/ENG-1#comment-${id}`, user: Promise.resolve({ displayName: 'Ada' }) });
+        const client = {
+            comments: async () => ({
+                nodes: [linearComment('lc-notice', '⚠️ These fields changed in both …'), linearComment('lc-user', 'Fixed on main')],
+                pageInfo: { hasNextPage: false }
+            })
+        } as unknown as LinearClient;
+
+        const results = await syncIssueComments(client, github, githubIssue, linearIssue, store, 'both', undefined, silentLogger);
+
+        expect(results.created).toBe(1);
+        expect(posted).toHaveLength(1);
+        expect(posted[0]).toContain('Fixed on main');
+        expect(store.get('I_1')!.comments!.map(c => c.linearCommentId)).toEqual(['lc-user']);
+    });
+});
@@ -0,0 +1,204 @@
+import type {Comment, Issue as LinearIssue, LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import type {components} from '@octokit/openapi-types';
+import {fetchAllNodes, parseGithubIssueUrl, type GithubIssue} from '../api/linear';
+import type {Logger} from '../logger';
+import type {MarkdownConverters} from './markdown';
+import {hashContent, type LinkedComment, type LinkStore} from './store';
+
+type GithubComment = components['schemas']['issue-comment'];
+
+type LinearIssueRef = Pick<LinearIssue, 'id' | 'identifier'>;
+
+export type CommentSyncMode = 'github-to-linear' | 'both' | 'none';
+
+export interface CommentSyncResults {
+    created: number;
+    updated: number;
+    deleted: number;
+}
+
+const renderGithubComment = (comment: GithubComment, body: string) => [
+    `**[@${comment.user?.login ?? 'ghost'}](${comment.user?.html_url ?? 'https://github.com/ghost'})** ` +
+    `[commented on GitHub](${comment.html_url}):`,
+    '',
+    body
+].join('\n');
+
+const renderLinearComment = (comment: Comment, author: string, issue: LinearIssueRef, body: string) => [
+    `**${author}** commented in [Linear ${issue.identifier}](${comment.url}):`,
+    '',
+    body
+].join('\n');
+
+/**
+ * Mirrors GitHub issue comments onto the linked Linear issue, and Linear
+ * comments back onto GitHub in 'both' mode.
+ *
+ * Mirrored comments are tracked in the link store by ID on both sides, so an
+ * edit updates the mirror, a delete removes it, and a mirror is never itself
+ * mirrored back, nor are the notices the sync posted in Linear. Each mirror is recorded as soon as it's written, so a
+ * failure halfway doesn't post it again on the next run. Bodies are converted
+ * between the two Markdown dialects when `markdown` is given.
+ */
+export async function syncIssueComments(
+    client: LinearClient,
+    githubClient: Octokit,
+    githubIssue: GithubIssue,
+    linearIssue: LinearIssueRef,
+    store: LinkStore,
+    mode: CommentSyncMode = 'github-to-linear',
+    markdown?: MarkdownConverters,
+    logger: Logger = console
+): Promise<CommentSyncResults> {
+    const results: CommentSyncResults = { created: 0, updated: 0, deleted: 0 };
+    const link = store.get(githubIssue.node_id);
+    const url = parseGithubIssueUrl(githubIssue.html_url);
+    if (mode === 'none' || !link || !url) {
+        return results;
+    }
+
+    const known = link.comments ?? [];
+    // Nothing to mirror and nothing mirrored before: skip the comment requests
+    if (mode === 'github-to-linear' && githubIssue.comments === 0 && known.length === 0) {
+        return results;
+    }
+
+    const githubComments = await githubClient.paginate(githubClient.issues.listComments, {
+        owner: url.owner,
+        repo: url.repo,
+        issue_number: url.number,
+        per_page: 100
+    });
+    const linearComments = mode === 'both'
+        ? await fetchAllNodes(client.comments({ first: 100, filter: { issue: { id: { eq: linearIssue.id } } } }))
+        : [];
+
+    // The mirrors tracked in the link, updated after every write
+    let comments: LinkedComment[] = [...known];
+    const track = (update: (comments: LinkedComment[]) => LinkedComment[]) => {
+        comments = update(comments);
+        store.set({ ...store.get(githubIssue.node_id)!, comments });
+    };
+    const replace = (mapped: LinkedComment, next: LinkedComment) => track(all => all.map(c => c === mapped ? next : c));
+    const untrack = (mapped: LinkedComment) => track(all => all.filter(c => c !== mapped));
+    const describe = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+    // GitHub → Linear
+    for (const comment of githubComments) {
+        const mapped = known.find(c => c.githubCommentId === comment.id);
+        if (mapped?.origin === 'linear') {
+            // Our own mirror of a Linear comment, handled below
+            continue;
+        }
+
+        const hash = hashContent(comment.body);
+        const render = async () =>
+            renderGithubComment(comment, markdown ? await markdown.toLinear(comment.body ?? '') : comment.body ?? '');
+        if (!mapped) {
+            const payload = await client.createComment({
+                issueId: linearIssue.id,
+                body: await render(),
+                doNotSubscribeToIssue: true
+            });
+            const created = await payload.comment;
+            if (created) {
+                track(all => [...all, { origin: 'github', githubCommentId: comment.id, linearCommentId: created.id, hash }]);
+                results.created++;
+            }
+            continue;
+        }
+
+        if (mapped.hash !== hash) {
+            await client.updateComment(mapped.linearCommentId, { body: await render() });
+            replace(mapped, { ...mapped, hash });
+            results.updated++;
+        }
+    }
+
+    // GitHub comments that are gone take their Linear mirror with them
+    for (const mapped of known.filter(c => c.origin === 'github')) {
+        if (!githubComments.some(c => c.id === mapped.githubCommentId)) {
+            try {
+                await client.deleteComment(mapped.linearCommentId);
+                results.deleted++;
+            } catch (error) {
+                // Most likely deleted in Linear already, the mirror is no longer tracked either way
+                logger.warn(`⚠️ Could not delete the Linear mirror of ${githubIssue.html_url}#issuecomment-${mapped.githubCommentId}: ${describe(error)}`);
+            }
+            untrack(mapped);
+        }
+    }
+
+    // Linear-origin mirrors stay tracked while Linear → GitHub is switched off
+    if (mode !== 'both') {
+        return results;
+    }
+
+    // Linear → GitHub, leaving out mirrors and the sync's own notices
+    const mirroredOnLinear = new Set(
+        [...known, ...comments].filter(c => c.origin === 'github').map(c => c.linearCommentId)
+    );
+    const notices = new Set(link.notices);
+    for (const comment of linearComments) {
+        if (mirroredOnLinear.has(comment.id) || notices.has(comment.id)) {
+            continue;
+        }
+
+        const hash = hashContent(comment.body);
+        const mapped = known.find(c => c.origin === 'linear' && c.linearCommentId === comment.id);
+        const author = (await comment.user)?.displayName ?? 'Someone';
+        const body = renderLinearComment(
+            comment,
+            author,
+            linearIssue,
+            markdown ? await markdown.toGithub(comment.body) : comment.body
+        );
+
+        if (!mapped) {
+            const { data } = await githubClient.issues.createComment({
+                owner: url.owner,
+                repo: url.repo,
+                issue_number: url.number,
+                body
+            });
+            track(all => [...all, { origin: 'linear', githubCommentId: data.id, linearCommentId: comment.id, hash }]);
+            results.created++;
+            continue;
+        }
+
+        // A mirror deleted on GitHub stays deleted
+        if (!githubComments.some(c => c.id === mapped.githubCommentId)) {
+            continue;
+        }
+
+        if (mapped.hash !== hash) {
+            await githubClient.issues.updateComment({
+                owner: url.owner,
+                repo: url.repo,
+                comment_id: mapped.githubCommentId,
+                body
+            });
+            replace(mapped, { ...mapped, hash });
+            results.updated++;
+        }
+    }
+
+    for (const mapped of known.filter(c => c.origin === 'linear')) {
+        if (!linearComments.some(c => c.id === mapped.linearCommentId)) {
+            try {
+                await githubClient.issues.deleteComment({
+                    owner: url.owner,
+                    repo: url.repo,
+                    comment_id: mapped.githubCommentId
+                });
+                results.deleted++;
+            } catch (error) {
+                // Most likely deleted on GitHub already, the mirror is no longer tracked either way
+                logger.warn(`⚠️ Could not delete the GitHub mirror of Linear comment ${mapped.linearCommentId}: ${describe(error)}`);
+            }
+            untrack(mapped);
+        }
+    }
+    return results;
+}
@@ -0,0 +1,37 @@
+import {describe, expect, test} from 'bun:test';
+import {settleWithConcurrency} from './concurrency';
+
+describe('settleWithConcurrency', () => {
+    test('runs at most `limit` tasks at a time', async () => {
+        let running = 0;
+        let most = 0;
+
+        await settleWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+            most = Math.max(most, ++running);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            running--;
+        });
+
+        expect(most).toBe(3);
+    });
+
+    test('settles every task in the order of the items', async () => {
+        const results = await settleWithConcurrency([30, 0, 10], 2, async (ms, index) => {
+            await new Promise(resolve => setTimeout(resolve, ms));
+            if (index === 1) {
+                throw new Error('failed');
+            }
+            return ms;
+        });
+
+        expect(results).toEqual([
+            { status: 'fulfilled', value: 30 },
+            { status: 'rejected', reason: new Error('failed') },
+            { status: 'fulfilled', value: 10 }
+        ]);
+    });
+
+    test('handles no items', async () => {
+        expect(await settleWithConcurrency([], 5, async () => 1)).toEqual([]);
+    });
+});
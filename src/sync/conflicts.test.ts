@@ -0,0 +1,134 @@
+import {describe, expect, test} from 'bun:test';
+import type {IssueCreateInput} from '@linear/sdk/dist/_generated_documents';
+import type {GithubIssue} from '../api/linear';
+import {mergeBase, mergeLinearEdits, syncedFields, type SyncedFields} from './conflicts';
+import type {LinearIssueSnapshot} from './plan';
+import {SYNCED_BLOCK_END, SYNCED_BLOCK_START} from './template';
+
+const STATES = [
+    { id: 'backlog', type: 'backlog' },
+    { id: 'in-progress', type: 'started' },
+    { id: 'done', type: 'completed' }
+];
+
+const linearIssue = (fields: Partial<LinearIssueSnapshot> = {}) => ({
+    id: 'lin-1',
+    title: 'Title',
+    description: 'Description',
+    priority: 0,
+    updatedAt: '2024-08-02T09:00:00Z',
+    state: { id: 'backlog', name: 'Backlog', type: 'backlog' },
+    assignee: null,
+    ...fields
+}) as LinearIssueSnapshot;
+
+const stateOf = (id: string) => {
+    const { type } = STATES.find(state => state.id === id)!;
+    return { id, name: id, type };
+};
+
+// Updated on GitHub before the Linear issue by default
+const githubIssue = (updatedAt = '2024-08-01T09:00:00Z') => ({ updated_at: updatedAt }) as GithubIssue;
+
+describe('syncedFields', () => {
+    test('records the planned values and keeps those the plan leaves alone', () => {
+        const input: IssueCreateInput = { teamId: 'team-1', title: 'New title', stateId: 'done', assigneeId: null, priority: 2 };
+
+        expect(syncedFields(input, { title: 'Old title', description: 'Description' })).toEqual({
+            title: 'New title',
+            description: 'Description',
+            state: 'done',
+            assignee: null,
+            priority: '2'
+        });
+    });
+
+    test('compares only the synced block of descriptions', () => {
+        const description = ['Notes', SYNCED_BLOCK_START, 'Body  ', SYNCED_BLOCK_END].join('\n');
+        const input: IssueCreateInput = { teamId: 'team-1', description };
+
+        expect(syncedFields(input, undefined).description).toBe('Body');
+    });
+});
+
+describe('mergeLinearEdits', () => {
+    const synced: SyncedFields = { title: 'Title', priority: '0' };
+
+    test('keeps the fields only Linear changed', () => {
+        const input: IssueCreateInput = { teamId: 'team-1', title: 'Title', priority: 0 };
+
+        const conflicts = mergeLinearEdits(input, linearIssue({ title: 'Renamed in Linear', priority: 1 }), synced, githubIssue(), 'flag');
+
+        expect(conflicts).toEqual([]);
+        expect(input).toMatchObject({ title: 'Renamed in Linear', priority: 1 });
+    });
+
+    test('resolves fields both sides changed by their policy', () => {
+        const issue = linearIssue({ title: 'Renamed in Linear', priority: 1 });
+        const plan = (): IssueCreateInput => ({ teamId: 'team-1', title: 'Renamed on GitHub', priority: 3 });
+
+        const flagged = plan();
+        expect(mergeLinearEdits(flagged, issue, synced, githubIssue(), 'flag').map(c => c.resolution)).toEqual(['flagged', 'flagged']);
+        expect(flagged).toMatchObject({ title: 'Renamed in Linear', priority: 1 });
+
+        const perField = plan();
+        const conflicts = mergeLinearEdits(perField, issue, synced, githubIssue(), { title: 'github-wins', priority: 'linear-wins' });
+        expect(conflicts.map(c => [c.field, c.resolution])).toEqual([['title', 'github'], ['priority', 'linear']]);
+        expect(perField).toMatchObject({ title: 'Renamed on GitHub', priority: 1 });
+
+        const newest = plan();
+        mergeLinearEdits(newest, issue, synced, githubIssue('2024-08-03T09:00:00Z'), 'newest-wins');
+        expect(newest).toMatchObject({ title: 'Renamed on GitHub', priority: 3 });
+    });
+
+    test('lets GitHub win without synced values', () => {
+        const input: IssueCreateInput = { teamId: 'team-1', title: 'Renamed on GitHub' };
+
+        expect(mergeLinearEdits(input, linearIssue({ title: 'Renamed in Linear' }), undefined, githubIssue(), 'flag')).toEqual([]);
+        expect(input.title).toBe('Renamed on GitHub');
+    });
+});
+
+describe('state merge', () => {
+    // As planGithubIssueSync does: Linear's state is kept while it's as open or closed as GitHub's
+    function planState(githubState: string, current: string, synced: SyncedFields) {
+        const issue = linearIssue({ state: stateOf(current) });
+        const keep = (STATES.find(s => s.id === githubState)!.type === 'completed') === (stateOf(current).type === 'completed');
+        const input: IssueCreateInput = { teamId: 'team-1', stateId: keep ? current : githubState };
+        const recorded = syncedFields({ ...input, stateId: githubState }, synced);
+        const conflicts = mergeLinearEdits(input, issue, mergeBase(synced, issue, STATES, true), githubIssue(), 'flag');
+        return { stateId: input.stateId, synced: recorded, conflicts };
+    }
+
+    test('records GitHub\'s state, not the Linear state kept', () => {
+        // Open on GitHub, moved to In Progress in Linear
+        const { stateId, synced, conflicts } = planState('backlog', 'in-progress', { state: 'backlog' });
+
+        expect(stateId).toBe('in-progress');
+        expect(synced.state).toBe('backlog');
+        expect(conflicts).toEqual([]);
+    });
+
+    test('keeps Linear closing an issue that stays open on GitHub', () => {
+        // Moved to In Progress and then to Done in Linear, while the GitHub issue stayed open
+        const first = planState('backlog', 'in-progress', { state: 'backlog' });
+        const { stateId, conflicts } = planState('backlog', 'done', first.synced);
+
+        expect(conflicts).toEqual([]);
+        expect(stateId).toBe('done');
+    });
+
+    test('closes an issue moved to In Progress in Linear once GitHub closes it', () => {
+        const { stateId, conflicts } = planState('done', 'in-progress', { state: 'backlog' });
+
+        expect(conflicts).toEqual([]);
+        expect(stateId).toBe('done');
+    });
+
+    test('moves within a category are Linear edits under label rules', () => {
+        const issue = linearIssue({ state: stateOf('in-progress') });
+
+        expect(mergeBase({ state: 'backlog' }, issue, STATES, false)).toEqual({ state: 'backlog' });
+        expect(mergeBase({ state: 'backlog' }, issue, STATES, true)).toEqual({ state: 'in-progress' });
+    });
+});
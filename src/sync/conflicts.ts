@@ -0,0 +1,229 @@
+import type {LinearClient} from '@linear/sdk';
+import type {IssueCreateInput} from '@linear/sdk/dist/_generated_documents';
+import {CLOSED_STATE_TYPES, type GithubIssue} from '../api/linear';
+import type {SyncCache} from './cache';
+import {addIssueLabel} from './lifecycle';
+import type {LinearIssueSnapshot} from './plan';
+import {extractSyncedBlock} from './template';
+
+// Fields compared against their last-synced value; labels merge on their own, see syncedLabels
+export const CONFLICT_FIELDS = ['title', 'description', 'state', 'assignee', 'priority'] as const;
+export type ConflictField = typeof CONFLICT_FIELDS[number];
+
+/**
+ * What happens when a field changed in both GitHub and Linear since the last
+ * sync: GitHub's or Linear's value is kept, the one of the side updated last,
+ * or Linear's value is kept and the issue gets a label and a comment
+ */
+export const CONFLICT_POLICIES = ['github-wins', 'linear-wins', 'newest-wins', 'flag'] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+// One policy for every field, or a policy per field
+export type ConflictConfig = ConflictPolicy | Partial<Record<ConflictField, ConflictPolicy>>;
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'flag';
+
+export const CONFLICT_LABEL = 'Sync conflict';
+
+// Values of the conflict fields as last synced from GitHub
+export type SyncedFields = Partial<Record<ConflictField, string | null>>;
+
+export interface FieldConflict {
+    field: ConflictField;
+    policy: ConflictPolicy;
+    // The side whose value was kept, `flagged` keeps Linear's
+    resolution: 'github' | 'linear' | 'flagged';
+    github: string | null;
+    linear: string | null;
+}
+
+export const conflictPolicy = (config: ConflictConfig | undefined, field: ConflictField): ConflictPolicy =>
+    (typeof config === 'string' ? config : config?.[field]) ?? DEFAULT_CONFLICT_POLICY;
+
+// Only the synced block counts, notes around it are never a conflict
+const comparableDescription = (description: string | null | undefined) =>
+    (extractSyncedBlock(description) ?? description ?? '')
+        .split('\n')
+        .map(line => line.trimEnd())
+        .join('\n')
+        .trim();
+
+const INPUT_FIELDS = {
+    title: 'title',
+    description: 'description',
+    state: 'stateId',
+    assignee: 'assigneeId',
+    priority: 'priority'
+} as const satisfies Record<ConflictField, keyof IssueCreateInput>;
+
+function plannedValue(input: IssueCreateInput, field: ConflictField): string | null | undefined {
+    const value = input[INPUT_FIELDS[field]];
+    if (value === undefined || value === null) {
+        return value;
+    }
+    return field === 'description' ? comparableDescription(String(value)) : String(value);
+}
+
+function linearValue(issue: LinearIssueSnapshot, field: ConflictField): string | null {
+    switch (field) {
+        case 'title':
+            return issue.title;
+        case 'description':
+            return comparableDescription(issue.description);
+        case 'state':
+            return issue.state?.id ?? null;
+        case 'assignee':
+            return issue.assignee?.id ?? null;
+        case 'priority':
+            return String(issue.priority);
+    }
+}
+
+/**
+ * The values of the fields a plan sets, as recorded after syncing it. Fields
+ * the plan leaves alone keep their recorded value.
+ */
+export function syncedFields(input: IssueCreateInput, previous: SyncedFields | undefined): SyncedFields {
+    const fields: SyncedFields = { ...previous };
+    for (const field of CONFLICT_FIELDS) {
+        const value = plannedValue(input, field);
+        if (value !== undefined) {
+            fields[field] = value;
+        }
+    }
+    return fields;
+}
+
+/**
+ * The synced values to merge a plan against. Planning keeps Linear's state
+ * while it is as open or closed as GitHub's, so moving the issue e.g. from
+ * Backlog to In Progress isn't a Linear edit, unless a label rule maps the
+ * state: those always apply.
+ */
+export function mergeBase(
+    synced: SyncedFields | undefined,
+    issue: LinearIssueSnapshot,
+    states: Array<{ id: string; type: string }>,
+    keepsLinearState: boolean
+): SyncedFields | undefined {
+    const base = states.find(state => state.id === synced?.state);
+    if (!synced || !base || !issue.state || !keepsLinearState) {
+        return synced;
+    }
+    const closed = (type: string) => CLOSED_STATE_TYPES.includes(type);
+    return closed(base.type) === closed(issue.state.type) ? { ...synced, state: issue.state.id } : synced;
+}
+
+// Puts Linear's current value of a field back into the input, so syncing leaves it alone
+function keepLinearValue(input: IssueCreateInput, issue: LinearIssueSnapshot, field: ConflictField) {
+    switch (field) {
+        case 'title':
+            input.title = issue.title;
+            break;
+        case 'description':
+            input.description = issue.description;
+            break;
+        case 'state':
+            input.stateId = issue.state?.id;
+            break;
+        case 'assignee':
+            input.assigneeId = issue.assignee?.id;
+            break;
+        case 'priority':
+            input.priority = issue.priority;
+            break;
+    }
+}
+
+/**
+ * Three-way merge of the planned input with the Linear issue, against the
+ * values of the last sync. A field only Linear changed keeps Linear's value; a
+ * field both sides changed to different values is a conflict, resolved by the
+ * field's policy. Without synced values, e.g. for issues synced before they
+ * were recorded, GitHub's values win as before.
+ * @returns the conflicts, with `input` adjusted to keep Linear's values where they win
+ */
+export function mergeLinearEdits(
+    input: IssueCreateInput,
+    issue: LinearIssueSnapshot,
+    synced: SyncedFields | undefined,
+    githubIssue: GithubIssue,
+    config: ConflictConfig | undefined
+): FieldConflict[] {
+    const conflicts: FieldConflict[] = [];
+    for (const field of CONFLICT_FIELDS) {
+        const base = synced?.[field];
+        const planned = plannedValue(input, field);
+        const current = linearValue(issue, field);
+        // Nothing to compare, or Linear wasn't edited since
+        if (base === undefined || planned === undefined || current === base || planned === current) {
+            continue;
+        }
+        if (planned === base) {
+            // Only Linear changed
+            keepLinearValue(input, issue, field);
+            continue;
+        }
+
+        const policy = conflictPolicy(config, field);
+        const githubIsNewer = new Date(githubIssue.updated_at) > new Date(issue.updatedAt);
+        const resolution = policy === 'github-wins' || (policy === 'newest-wins' && githubIsNewer) ? 'github'
+            : policy === 'flag' ? 'flagged'
+            : 'linear';
+        if (resolution !== 'github') {
+            keepLinearValue(input, issue, field);
+        }
+        conflicts.push({ field, policy, resolution, github: planned, linear: current });
+    }
+    return conflicts;
+}
+
+const truncate = (text: string | null, length = 80) => {
+    const line = (text ?? '-').replace(/\s+/g, ' ');
+    return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+};
+
+// Readable values of a conflict, states and users by name
+export async function describeConflict(cache: SyncCache, teamId: string, conflict: FieldConflict) {
+    const nameOf = async (id: string | null) => {
+        if (!id) {
+            return id;
+        }
+        const items = conflict.field === 'state' ? await cache.workflowStates(teamId) : await cache.users();
+        return items.find(item => item.id === id)?.name ?? id;
+    };
+    const byName = conflict.field === 'state' || conflict.field === 'assignee';
+    const github = byName ? await nameOf(conflict.github) : conflict.github;
+    const linear = byName ? await nameOf(conflict.linear) : conflict.linear;
+    return `${conflict.field}: GitHub "${truncate(github)}", Linear "${truncate(linear)}"`;
+}
+
+/**
+ * Labels the Linear issue and comments which fields conflicted, for the
+ * conflicts resolved by flagging them. Returns the ID of the comment.
+ */
+export async function flagConflicts(
+    client: LinearClient,
+    cache: SyncCache,
+    linearIssueId: string,
+    teamId: string,
+    githubUrl: string,
+    conflicts: FieldConflict[]
+): Promise<string | undefined> {
+    const flagged = conflicts.filter(conflict => conflict.resolution === 'flagged');
+    if (!flagged.length) {
+        return undefined;
+    }
+
+    const lines = await Promise.all(flagged.map(async conflict => `- ${await describeConflict(cache, teamId, conflict)}`));
+    const payload = await client.createComment({
+        issueId: linearIssueId,
+        body: [
+            `⚠️ These fields changed in both ${githubUrl} and Linear since the last sync. Linear's values were kept:`,
+            '',
+            ...lines
+        ].join('\n')
+    });
+    await addIssueLabel(client, cache, linearIssueId, teamId, CONFLICT_LABEL);
+    return (await payload.comment)?.id;
+}
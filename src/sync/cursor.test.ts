@@ -0,0 +1,69 @@
+import {describe, expect, test} from 'bun:test';
+import type {GithubIssue} from '../api/linear';
+import {advanceCursors, effectiveSince} from './cursor';
+import {LinkStore} from './store';
+
+const issue = (repo: string, updatedAt: string) =>
+    ({ repository_url: `https://api.github.com/repos/${repo}`, updated_at: updatedAt }) as unknown as GithubIssue;
+
+describe('advanceCursors', () => {
+    test('moves each repository to its newest issue', () => {
+        const store = new LinkStore('/dev/null');
+
+        advanceCursors(store, [
+            issue('acme/app', '2024-03-01T10:00:00Z'),
+            issue('acme/app', '2024-03-02T10:00:00Z'),
+            issue('acme/api', '2024-02-01T10:00:00Z')
+        ], []);
+
+        expect(store.getCursor('acme/app')).toBe('2024-03-02T10:00:00Z');
+        expect(store.getCursor('acme/api')).toBe('2024-02-01T10:00:00Z');
+    });
+
+    test('stays at the oldest failed issue, so it is fetched again', () => {
+        const store = new LinkStore('/dev/null');
+        store.setCursor('acme/app', '2024-03-01T00:00:00Z');
+        const failed = [issue('acme/app', '2024-03-02T10:00:00Z'), issue('acme/app', '2024-03-03T10:00:00Z')];
+
+        advanceCursors(store, [...failed, issue('acme/app', '2024-03-04T10:00:00Z'), issue('acme/api', '2024-03-04T10:00:00Z')], failed);
+
+        expect(store.getCursor('acme/app')).toBe('2024-03-02T10:00:00Z');
+        expect(store.getCursor('acme/api')).toBe('2024-03-04T10:00:00Z');
+    });
+
+    test('never moves a cursor back', () => {
+        const store = new LinkStore('/dev/null');
+        store.setCursor('acme/app', '2024-03-05T00:00:00Z');
+        const failed = [issue('acme/app', '2024-03-02T10:00:00Z')];
+
+        advanceCursors(store, failed, failed);
+
+        expect(store.getCursor('acme/app')).toBe('2024-03-05T00:00:00Z');
+    });
+});
+
+describe('effectiveSince', () => {
+    test('starts at the cursor itself, as GitHub\'s since includes it', () => {
+        const store = new LinkStore('/dev/null');
+        advanceCursors(store, [issue('acme/app', '2024-03-02T10:00:00Z')], []);
+
+        expect(effectiveSince(store, 'acme/app', undefined, false)).toEqual(new Date('2024-03-02T10:00:00Z'));
+    });
+
+    test('takes the later of the configured since and the cursor', () => {
+        const store = new LinkStore('/dev/null');
+        store.setCursor('acme/app', '2024-03-02T10:00:00Z');
+
+        expect(effectiveSince(store, 'acme/app', '2024-01-01', false)).toEqual(new Date('2024-03-02T10:00:00Z'));
+        expect(effectiveSince(store, 'acme/app', '2024-06-01', false)).toEqual(new Date('2024-06-01'));
+        expect(effectiveSince(store, 'acme/api', undefined, false)).toBeUndefined();
+    });
+
+    test('ignores the cursor for a full sync', () => {
+        const store = new LinkStore('/dev/null');
+        store.setCursor('acme/app', '2024-03-02T10:00:00Z');
+
+        expect(effectiveSince(store, 'acme/app', '2024-01-01', true)).toEqual(new Date('2024-01-01'));
+        expect(effectiveSince(store, 'acme/app', undefined, true)).toBeUndefined();
+    });
+});
@@ -0,0 +1,46 @@
+import {githubIssueRepo, type GithubIssue} from '../api/linear';
+import type {LinkStore} from './store';
+
+/**
+ * The date to fetch a repository's issues from: the later of the
+ * configured `since` and the stored cursor, unless a full sync is forced.
+ */
+export function effectiveSince(
+    store: LinkStore,
+    repo: string,
+    since: string | undefined,
+    full: boolean
+): Date | undefined {
+    const dates = [since, full ? undefined : store.getCursor(repo)]
+        .filter((d): d is string => Boolean(d))
+        .map(d => new Date(d));
+    return dates.length
+        ? new Date(Math.max(...dates.map(d => d.getTime())))
+        : undefined;
+}
+
+/**
+ * Moves each repository's cursor to the newest `updated_at` fetched, but
+ * never past the oldest failed issue, so failures are fetched again next run.
+ * GitHub's `since` is inclusive, so the failed issue itself is included.
+ */
+export function advanceCursors(store: LinkStore, fetched: GithubIssue[], failed: GithubIssue[]) {
+    const repos = new Set(fetched.map(githubIssueRepo));
+
+    for (const repo of repos) {
+        const failedDates = failed
+            .filter(issue => githubIssueRepo(issue) === repo)
+            .map(issue => issue.updated_at);
+        const cursor = failedDates.length
+            ? failedDates.reduce((min, d) => (d < min ? d : min))
+            : fetched
+                .filter(issue => githubIssueRepo(issue) === repo)
+                .map(issue => issue.updated_at)
+                .reduce((max, d) => (d > max ? d : max));
+
+        const previous = store.getCursor(repo);
+        if (!previous || cursor > previous) {
+            store.setCursor(repo, cursor);
+        }
+    }
+}
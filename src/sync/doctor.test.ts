@@ -0,0 +1,62 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import type {SyncCache} from './cache';
+import {repairIssues, type DoctorReport, type LinkedLinearIssue} from './doctor';
+import {LinkStore} from './store';
+
+const linkedIssue = (id: string, fields: Partial<LinkedLinearIssue> = {}): LinkedLinearIssue => ({
+    id,
+    identifier: `ENG-${id}`,
+    title: `Issue ${id}`,
+    teamId: 'team-1',
+    createdAt: '2024-08-01T09:00:00Z',
+    // Canceled already, so only the comment action writes
+    state: { name: 'Canceled', type: 'canceled' },
+    githubUrl: `https://github.com/acme/app/issues/${id}`,
+    attached: true,
+    ...fields
+});
+
+const emptyReport = (): DoctorReport => ({
+    scanned: 0,
+    duplicates: [],
+    gone: [],
+    moved: [],
+    unlinked: [],
+    staleLinks: [],
+    unsynced: [],
+    stateMismatches: [],
+    failed: []
+});
+
+describe('repairIssues', () => {
+    test('reports gone issues apart from repaired links, and runs their actions once', async () => {
+        const comments: string[] = [];
+        const client = {
+            createComment: async ({ issueId }: { issueId: string }) => comments.push(issueId)
+        } as unknown as LinearClient;
+        const store = new LinkStore('/dev/null');
+        const report: DoctorReport = {
+            ...emptyReport(),
+            gone: [
+                { issue: linkedIssue('1'), lifecycle: { outcome: 'deleted' }, handled: false },
+                { issue: linkedIssue('2'), lifecycle: { outcome: 'deleted' }, handled: true }
+            ],
+            unlinked: [{ issue: linkedIssue('3'), githubNodeId: 'I_3' }]
+        };
+
+        const results = await repairIssues(client, {} as Octokit, report, store, { cache: {} as SyncCache });
+
+        expect(results.handled).toEqual(['ENG-1']);
+        expect(results.relinked).toEqual(['ENG-3']);
+        expect(comments).toEqual(['1']);
+        // Without a link, a tombstone keyed by the URL records the outcome
+        expect(store.get('https://github.com/acme/app/issues/1')).toMatchObject({
+            githubUrl: 'https://github.com/acme/app/issues/1',
+            linearId: '1',
+            isDeleted: true,
+            lifecycle: 'deleted'
+        });
+    });
+});
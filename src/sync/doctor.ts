@@ -0,0 +1,381 @@
+import {LinearDocument, type LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {fetchGithubIssues} from '../api/github';
+import {CLOSED_STATE_TYPES, linkGithubIssue, parseGithubIssueUrl} from '../api/linear';
+import {findRoute, type SyncRoute} from '../config/config';
+import type {Logger} from '../logger';
+import type {SyncCache} from './cache';
+import {settleWithConcurrency} from './concurrency';
+import {
+    applyLifecycleActions,
+    canceledStateId,
+    classifyGithubIssue,
+    lifecycleActions,
+    removeGithubAttachment,
+    type GithubIssueLifecycle
+} from './lifecycle';
+import {fetchIssueSnapshots} from './plan';
+import {resolveWorkflowState} from './states';
+import type {LinkStore} from './store';
+import {DEFAULT_TITLE_TEMPLATE} from './template';
+
+/**
+ * A Linear issue that carries a GitHub link: an attachment, a link in the
+ * store, or the `GitHub: <url>` line and `[🛠️GH] owner/repo#12:` title of
+ * issues synced before either existed
+ */
+export interface LinkedLinearIssue {
+    id: string;
+    identifier: string;
+    title: string;
+    teamId: string;
+    createdAt: string;
+    state: { name: string; type: string } | null;
+    githubUrl: string;
+    // The GitHub issue is attached, not only mentioned
+    attached: boolean;
+}
+
+export interface DoctorReport {
+    // Linear issues with a GitHub link
+    scanned: number;
+    // GitHub issues with more than one Linear issue, the canonical one is the linked or else the oldest
+    duplicates: Array<{ githubUrl: string; canonical: LinkedLinearIssue; duplicates: LinkedLinearIssue[] }>;
+    // Linear issues whose GitHub issue was deleted or converted to a discussion
+    gone: Array<{
+        issue: LinkedLinearIssue;
+        lifecycle: Extract<GithubIssueLifecycle, { outcome: 'deleted' | 'converted' }>;
+        // Its lifecycle actions ran before
+        handled: boolean;
+    }>;
+    // Linear issues whose GitHub issue was transferred or its repository renamed
+    moved: Array<{ issue: LinkedLinearIssue; movedTo: string }>;
+    // Linear issues the link store doesn't link to their GitHub issue
+    unlinked: Array<{ issue: LinkedLinearIssue; githubNodeId: string }>;
+    // Links in the store whose Linear issue was deleted
+    staleLinks: Array<{ githubNodeId: string; githubUrl: string; linearIdentifier?: string }>;
+    // Open GitHub issues of the routes' repositories that have no Linear issue
+    unsynced: Array<{ githubUrl: string; title: string }>;
+    // Open on one side and completed or canceled on the other
+    stateMismatches: Array<{ issue: LinkedLinearIssue; githubState: string }>;
+    // GitHub issues that couldn't be checked
+    failed: Array<{ githubUrl: string; message: string }>;
+}
+
+export interface DoctorFixResults {
+    // Identifiers of the duplicates marked as duplicate of their canonical issue
+    merged: string[];
+    // Identifiers of the issues whose link was repaired
+    relinked: string[];
+    // Identifiers of the gone issues whose lifecycle actions ran
+    handled: string[];
+    // Links removed from the store
+    removed: string[];
+    failed: Array<{ identifier: string; message: string }>;
+}
+
+const LINKED_ISSUES_BATCH_SIZE = 50;
+
+const LINKED_ISSUES_QUERY = `
+    query LinkedIssues($filter: IssueFilter, $after: String) {
+        issues(first: ${LINKED_ISSUES_BATCH_SIZE}, after: $after, filter: $filter) {
+            nodes {
+                id identifier title description createdAt
+                team { id }
+                state { name type }
+                attachments(first: 20) { nodes { url } }
+            }
+            pageInfo { hasNextPage endCursor }
+        }
+    }
+`;
+
+interface LinkedIssuesData {
+    issues: {
+        nodes: Array<{
+            id: string;
+            identifier: string;
+            title: string;
+            description: string | null;
+            createdAt: string;
+            team: { id: string };
+            state: { name: string; type: string } | null;
+            attachments: { nodes: Array<{ url: string }> };
+        }>;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+}
+
+const TITLE_PREFIX = DEFAULT_TITLE_TEMPLATE.slice(0, DEFAULT_TITLE_TEMPLATE.indexOf('{'));
+// The footer of the default description template
+const GITHUB_LINE = /^GitHub: (\S+)$/m;
+// The default title template, `[🛠️GH] owner/repo#12: title`
+const GITHUB_TITLE = /^\[🛠️GH\] ([\w.-]+\/[\w.-]+)#(\d+):/u;
+
+/**
+ * Loads the Linear issues that carry a GitHub link, of one team or all
+ */
+export async function fetchLinkedLinearIssues(
+    client: LinearClient,
+    store: LinkStore,
+    { teamId, githubHost = 'https://github.com' }: { teamId?: string; githubHost?: string } = {}
+): Promise<LinkedLinearIssue[]> {
+    const filter = {
+        ...(teamId ? { team: { id: { eq: teamId } } } : {}),
+        or: [
+            { attachments: { url: { contains: '/issues/' } } },
+            { description: { contains: 'GitHub: http' } },
+            { title: { startsWith: TITLE_PREFIX } }
+        ]
+    };
+
+    const issues: LinkedLinearIssue[] = [];
+    let after: string | null = null;
+    do {
+        const data: LinkedIssuesData = await client.client.request<LinkedIssuesData, Record<string, unknown>>(
+            LINKED_ISSUES_QUERY,
+            { filter, after }
+        );
+        for (const issue of data.issues.nodes) {
+            const attachment = issue.attachments.nodes.map(({ url }) => parseGithubIssueUrl(url)).find(Boolean);
+            const title = issue.title.match(GITHUB_TITLE);
+            const githubUrl = store.findByLinearId(issue.id)?.githubUrl
+                ?? attachment?.htmlUrl
+                ?? parseGithubIssueUrl(issue.description?.match(GITHUB_LINE)?.[1] ?? '')?.htmlUrl
+                ?? (title ? `${githubHost}/${title[1]}/issues/${title[2]}` : undefined);
+            if (!githubUrl) {
+                continue;
+            }
+            issues.push({
+                id: issue.id,
+                identifier: issue.identifier,
+                title: issue.title,
+                teamId: issue.team.id,
+                createdAt: issue.createdAt,
+                state: issue.state,
+                githubUrl,
+                attached: !!attachment && attachment.htmlUrl.toLowerCase() === githubUrl.toLowerCase()
+            });
+        }
+        after = data.issues.pageInfo.hasNextPage ? data.issues.pageInfo.endCursor : null;
+    } while (after);
+    return issues;
+}
+
+// The Linear issue the sync keeps: the linked one, else an attached one, else the oldest
+function canonicalIssue(issues: LinkedLinearIssue[], store: LinkStore): LinkedLinearIssue {
+    const linked = store.findByGithubUrl(issues[0].githubUrl)?.linearId;
+    return issues.find(issue => issue.id === linked)
+        ?? [...issues].sort((a, b) => Number(b.attached) - Number(a.attached) || a.createdAt.localeCompare(b.createdAt))[0];
+}
+
+/**
+ * Checks the Linear issues with GitHub links against GitHub and the link
+ * store, without changing anything. With routes, the open issues of their
+ * repositories that aren't in Linear are listed too.
+ */
+export async function diagnose(
+    client: LinearClient,
+    githubClient: Octokit,
+    store: LinkStore,
+    {
+        teamId,
+        routes = [],
+        concurrency,
+        logger = console
+    }: { teamId?: string; routes?: SyncRoute[]; concurrency: number; logger?: Logger }
+): Promise<DoctorReport> {
+    const report: DoctorReport = {
+        scanned: 0,
+        duplicates: [],
+        gone: [],
+        moved: [],
+        unlinked: [],
+        staleLinks: [],
+        unsynced: [],
+        stateMismatches: [],
+        failed: []
+    };
+
+    logger.log('Scanning Linear issues for GitHub links...');
+    const host = store.all().map(link => new URL(link.githubUrl).origin)[0];
+    const issues = await fetchLinkedLinearIssues(client, store, { teamId, githubHost: host });
+    report.scanned = issues.length;
+
+    const byUrl = Map.groupBy(issues, issue => issue.githubUrl.toLowerCase());
+    const canonical = new Map<string, LinkedLinearIssue>();
+    for (const [url, group] of byUrl) {
+        const kept = canonicalIssue(group, store);
+        canonical.set(url, kept);
+        if (group.length > 1) {
+            report.duplicates.push({ githubUrl: kept.githubUrl, canonical: kept, duplicates: group.filter(issue => issue !== kept) });
+        }
+    }
+
+    logger.log(`Checking ${canonical.size} GitHub issues...`);
+    const kept = [...canonical.values()];
+    const settled = await settleWithConcurrency(kept, concurrency, issue => classifyGithubIssue(githubClient, issue.githubUrl));
+    settled.forEach((result, i) => {
+        const issue = kept[i];
+        if (result.status === 'rejected') {
+            report.failed.push({
+                githubUrl: issue.githubUrl,
+                message: result.reason instanceof Error ? result.reason.message : 'Unknown error'
+            });
+            return;
+        }
+
+        const lifecycle = result.value;
+        const link = store.findByGithubUrl(issue.githubUrl);
+        if (lifecycle.outcome === 'deleted' || lifecycle.outcome === 'converted') {
+            report.gone.push({ issue, lifecycle, handled: link?.lifecycle === lifecycle.outcome });
+            return;
+        }
+        if (lifecycle.outcome === 'transferred') {
+            report.moved.push({ issue, movedTo: lifecycle.issue.html_url });
+        } else if (store.get(lifecycle.issue.node_id)?.linearId !== issue.id) {
+            report.unlinked.push({ issue, githubNodeId: lifecycle.issue.node_id });
+        }
+
+        const githubClosed = lifecycle.issue.state === 'closed';
+        const linearClosed = !!issue.state && CLOSED_STATE_TYPES.includes(issue.state.type);
+        if (githubClosed !== linearClosed) {
+            report.stateMismatches.push({ issue, githubState: lifecycle.issue.state });
+        }
+    });
+
+    const scannedIds = new Set(issues.map(issue => issue.id));
+    const unscanned = store.all().filter(link => !scannedIds.has(link.linearId));
+    const existing = await fetchIssueSnapshots(client, unscanned.map(link => link.linearId));
+    report.staleLinks = unscanned
+        .filter(link => !existing.has(link.linearId))
+        .map(({ githubNodeId, githubUrl, linearIdentifier }) => ({ githubNodeId, githubUrl, linearIdentifier }));
+
+    const repos = [...new Map(routes.map(route => [route.repo.toLowerCase(), route])).values()];
+    for (const route of repos) {
+        logger.log(`Looking for unsynced issues in ${route.repo}...`);
+        const open = await fetchGithubIssues(githubClient, {
+            repos: [route.repo],
+            authors: route.authors,
+            filter: { ...route.filter, state: 'open' },
+            logger
+        });
+        report.unsynced.push(...open
+            .filter(issue => findRoute(routes, issue) && !store.get(issue.node_id) && !byUrl.has(issue.html_url.toLowerCase()))
+            .map(issue => ({ githubUrl: issue.html_url, title: issue.title })));
+    }
+
+    return report;
+}
+
+/**
+ * Repairs what `diagnose` found: marks duplicates as duplicate of their
+ * canonical issue and cancels them, moves links to transferred issues, runs
+ * the lifecycle actions of gone issues once, and fixes the link store.
+ * Unsynced issues and state mismatches are left to the next sync.
+ */
+export async function repairIssues(
+    client: LinearClient,
+    githubClient: Octokit,
+    report: DoctorReport,
+    store: LinkStore,
+    { cache, routes = [] }: { cache: SyncCache; routes?: SyncRoute[] }
+): Promise<DoctorFixResults> {
+    const results: DoctorFixResults = { merged: [], relinked: [], handled: [], removed: [], failed: [] };
+    const attempt = async (identifier: string, fix: () => Promise<unknown>) => {
+        try {
+            await fix();
+            return true;
+        } catch (error) {
+            results.failed.push({ identifier, message: error instanceof Error ? error.message : 'Unknown error' });
+            return false;
+        }
+    };
+
+    for (const { githubUrl, canonical, duplicates } of report.duplicates) {
+        for (const duplicate of duplicates) {
+            const merged = await attempt(duplicate.identifier, async () => {
+                await client.createIssueRelation({
+                    issueId: duplicate.id,
+                    relatedIssueId: canonical.id,
+                    type: LinearDocument.IssueRelationType.Duplicate
+                });
+                if (!duplicate.state || !CLOSED_STATE_TYPES.includes(duplicate.state.type)) {
+                    const states = await cache.workflowStates(duplicate.teamId);
+                    const state = resolveWorkflowState(states, { name: 'Duplicate', type: 'canceled' });
+                    await client.updateIssue(duplicate.id, { stateId: state?.id ?? await canceledStateId(cache, duplicate.teamId) });
+                }
+                // So lookups by URL only find the canonical issue
+                await removeGithubAttachment(client, duplicate.id, githubUrl);
+                // The next sync links the GitHub issue to the canonical issue instead
+                const link = store.findByLinearId(duplicate.id);
+                if (link) {
+                    store.delete(link.githubNodeId);
+                }
+            });
+            if (merged) {
+                results.merged.push(duplicate.identifier);
+            }
+        }
+    }
+
+    for (const { issue, movedTo } of report.moved) {
+        const relinked = await attempt(issue.identifier, async () => {
+            const url = parseGithubIssueUrl(movedTo)!;
+            const { data: githubIssue } = await githubClient.issues.get({ owner: url.owner, repo: url.repo, issue_number: url.number });
+            await removeGithubAttachment(client, issue.id, issue.githubUrl);
+            // Carries the mirrored comments and hashes over, as a sync of the transfer would
+            const previous = store.findByGithubUrl(issue.githubUrl);
+            if (previous && previous.githubNodeId !== githubIssue.node_id) {
+                store.delete(previous.githubNodeId);
+                store.set({ ...previous, githubNodeId: githubIssue.node_id });
+            }
+            await linkGithubIssue(client, issue, githubIssue, store);
+        });
+        if (relinked) {
+            results.relinked.push(issue.identifier);
+        }
+    }
+
+    for (const { issue, githubNodeId } of report.unlinked) {
+        const previous = store.get(githubNodeId);
+        store.set({
+            ...previous,
+            githubNodeId,
+            githubUrl: issue.githubUrl,
+            linearId: issue.id,
+            linearIdentifier: issue.identifier,
+            // Hashes and comments of another Linear issue don't apply
+            ...(previous?.linearId !== issue.id ? { linearHash: undefined, comments: [] } : {})
+        });
+        results.relinked.push(issue.identifier);
+    }
+
+    for (const { issue, lifecycle } of report.gone.filter(gone => !gone.handled)) {
+        const repo = parseGithubIssueUrl(issue.githubUrl);
+        const route = routes.find(route => route.repo.toLowerCase() === `${repo?.owner}/${repo?.repo}`.toLowerCase());
+        const actions = lifecycleActions(route?.lifecycle, lifecycle.outcome);
+        const handled = await attempt(issue.identifier, async () => {
+            if (actions.includes('cancel') && (!issue.state || !CLOSED_STATE_TYPES.includes(issue.state.type))) {
+                await client.updateIssue(issue.id, { stateId: await canceledStateId(cache, issue.teamId) });
+            }
+            const notice = await applyLifecycleActions(client, cache, issue.id, issue.teamId, lifecycle, issue.githubUrl, actions);
+            // Recorded so the actions run once, in a tombstone when the store had no link (see LinkedIssue)
+            const link = store.findByGithubUrl(issue.githubUrl)
+                ?? { githubNodeId: issue.githubUrl, githubUrl: issue.githubUrl, linearId: issue.id, linearIdentifier: issue.identifier };
+            const notices = notice ? [...link.notices ?? [], notice] : link.notices;
+            store.set({ ...link, isDeleted: true, lifecycle: lifecycle.outcome, notices });
+        });
+        if (handled) {
+            results.handled.push(issue.identifier);
+        }
+    }
+
+    for (const link of report.staleLinks) {
+        store.delete(link.githubNodeId);
+        results.removed.push(link.linearIdentifier ?? link.githubUrl);
+    }
+
+    store.save();
+    return results;
+}
@@ -0,0 +1,564 @@
+import {EventEmitter} from 'node:events';
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {
+    fetchGithubIssues,
+    fetchGithubPullRequests,
+    matchesIssueFilter,
+    searchGithubIssues,
+    validateGithubToken
+} from '../api/github';
+import {findExistingIssues, findLinearTeam, type GithubIssue, type SyncResult} from '../api/linear';
+import {findRoute, validateConfig, type ResolvedRoute, type SyncConfig} from '../config/config';
+import {ConfigError, NotFoundError, PlanConflictError, SyncError} from '../errors';
+import type {Logger} from '../logger';
+import {SyncCache} from './cache';
+import {DEFAULT_CONCURRENCY} from './concurrency';
+import {advanceCursors, effectiveSince} from './cursor';
+import {diagnose, repairIssues, type DoctorFixResults, type DoctorReport} from './doctor';
+import {
+    recordRun,
+    RunJournal,
+    undoJournaledRun,
+    type SyncRunRecord,
+    type UndoResults
+} from './journal';
+import {
+    applySyncPlan,
+    planGithubIssueSync,
+    planSync,
+    verifyPlan,
+    type LinearIssueSnapshot,
+    type PlanReviewOptions,
+    type SyncPlan
+} from './plan';
+import {syncPullRequests, type PullRequestSyncResults} from './pulls';
+import {LinkStore} from './store';
+import {
+    hasImportFilter,
+    importLinearIssuesToGithub,
+    syncLinearIssuesToGithub,
+    type LinearImportFilter,
+    type LinearImportResults,
+    type ReverseSyncResults
+} from './sync';
+
+export type SyncDirection = 'github-to-linear' | 'linear-to-github' | 'both';
+
+export interface GithubLinearSyncOptions {
+    linear: LinearClient;
+    github: Octokit;
+    // Needed by `sync` and `validate`, applying a plan works without
+    config?: SyncConfig;
+    // The link store in the working directory by default
+    store?: LinkStore;
+    // Where runs are recorded for undoing them, the journal in the working directory by default
+    journal?: RunJournal | false;
+    logger?: Logger;
+    // Number of issues synced at the same time
+    concurrency?: number;
+}
+
+export interface SyncRunOptions {
+    direction?: SyncDirection;
+    // Ignore the stored per-repo cursors and re-sync every issue
+    full?: boolean;
+    // Plan without writing anything
+    dryRun?: boolean;
+    // Link pull requests to the Linear issues they reference, true by default
+    pullRequests?: boolean;
+    // Which Linear issues get a GitHub issue with `linear-to-github`, for routes without their own filter
+    linearFilter?: LinearImportFilter;
+    // GitHub search selecting the issues to sync instead of each route's repository, e.g. `org:acme label:bug`
+    query?: string;
+    // Lets the plan be adjusted before it's applied, resolving to undefined cancels the sync
+    review?: (plan: SyncPlan, context: PlanReviewOptions) => Promise<SyncPlan | undefined>;
+}
+
+export interface SyncRun {
+    startedAt: number;
+    // Missing when there was nothing to plan, or with `linear-to-github`
+    plan?: SyncPlan;
+    // One per planned issue, in a dry run only those that failed to plan
+    results: SyncResult[];
+    // The review cancelled the sync, nothing was written
+    cancelled?: boolean;
+    // ID of the journal record, when the run wrote to Linear
+    runId?: string;
+    reverse?: ReverseSyncResults;
+    imported?: LinearImportResults;
+    pullRequests?: PullRequestSyncResults;
+}
+
+export interface SyncEvents {
+    // The plan, before it is reviewed and applied
+    'plan': [SyncPlan];
+    'issue:created': [SyncResult];
+    'issue:updated': [SyncResult];
+    'issue:skipped': [SyncResult];
+    'issue:failed': [SyncResult];
+}
+
+/**
+ * Syncs GitHub issues to Linear and back with the given clients, as the CLI
+ * does. Problems are thrown as the errors of `../errors` instead of exiting,
+ * and progress goes to the logger.
+ */
+export class GithubLinearSync extends EventEmitter<SyncEvents> {
+    readonly linear: LinearClient;
+    readonly github: Octokit;
+    readonly store: LinkStore;
+    readonly journal?: RunJournal;
+    private readonly config?: SyncConfig;
+    private readonly logger: Logger;
+    private readonly concurrency: number;
+
+    constructor({
+        linear,
+        github,
+        config,
+        store,
+        journal,
+        logger = console,
+        concurrency = DEFAULT_CONCURRENCY
+    }: GithubLinearSyncOptions) {
+        super();
+        this.linear = linear;
+        this.github = github;
+        this.config = config;
+        this.store = store ?? LinkStore.load();
+        this.journal = journal === false ? undefined : journal ?? new RunJournal();
+        this.logger = logger;
+        this.concurrency = concurrency;
+    }
+
+    /**
+     * Checks every team, project and state the config references against Linear
+     * @throws {ConfigError} listing the problems found
+     */
+    async validate(cache = new SyncCache(this.linear)): Promise<ResolvedRoute[]> {
+        if (!this.config) {
+            throw new ConfigError(['No sync config given']);
+        }
+        const { routes, errors } = await validateConfig(this.linear, this.config, cache);
+        if (errors.length) {
+            throw new ConfigError(errors);
+        }
+        return routes;
+    }
+
+    /**
+     * Runs one sync: the Linear → GitHub pass, then fetching, planning and
+     * applying the GitHub changes, then the pull requests
+     * @throws {ConfigError} when the config is invalid
+     * @throws {AuthError} when the GitHub credentials can't read a route's repository
+     * @throws {NotFoundError} when a route's author doesn't exist
+     */
+    async sync({
+        direction = 'github-to-linear',
+        full = false,
+        dryRun = false,
+        pullRequests = true,
+        linearFilter = {},
+        query,
+        review
+    }: SyncRunOptions = {}): Promise<SyncRun> {
+        const { linear, github, store, logger, concurrency } = this;
+        // Shared by every route of this run
+        const cache = new SyncCache(linear);
+
+        logger.log('Validating config against Linear...');
+        const routes = await this.validate(cache);
+        // Once per run, every route's repository is read below
+        await validateGithubToken(github, { repos: [...new Set(routes.map(route => route.repo))], logger });
+
+        if (direction === 'linear-to-github') {
+            const imported = await this.importFromLinear(routes, { cache, filter: linearFilter, dryRun });
+            return { startedAt: Date.now(), results: [], imported };
+        }
+
+        // Reverse pass first, so the GitHub issues fetched below already carry the Linear edits
+        let reverse: ReverseSyncResults | undefined;
+        if (direction === 'both' && dryRun) {
+            logger.log('Skipping the Linear → GitHub pass in a dry run');
+        } else if (direction === 'both') {
+            logger.log('Pushing Linear changes to GitHub...');
+            reverse = await syncLinearIssuesToGithub(linear, github, store, routes);
+            store.save();
+
+            logger.log(`✅ ${reverse.updated.length} GitHub issues updated from Linear`);
+            if (reverse.failed.length) {
+                logger.log(`❌ ${reverse.failed.length} GitHub issues failed to update:`);
+                reverse.failed.forEach(({ message }) => logger.log(`  - ${message}`));
+            }
+        }
+
+        await this.validateAuthors(routes);
+        const cursors = [...new Set(routes.map(route => route.repo))].map(repo => ({ repo, before: store.getCursor(repo) }));
+
+        const { routed, sinceByRepo } = await this.fetchIssues(routes, { full, query });
+
+        const issueCount = routed.reduce((count, { issues }) => count + issues.length, 0);
+        if (issueCount === 0) {
+            logger.log('No issues found');
+            const run: SyncRun = { startedAt: Date.now(), results: [], reverse };
+            if (pullRequests && !dryRun) {
+                run.pullRequests = await this.reflectPullRequests(routes, sinceByRepo);
+                store.save();
+            }
+            return run;
+        }
+        logger.log(`Found ${issueCount} issues to sync`);
+        const fetched = routed.flatMap(({ issues }) => issues);
+
+        const existing = await findExistingIssues(linear, fetched, store);
+        existing.forEach((issue, nodeId) => cache.existingIssues.set(nodeId, issue));
+        for (const entry of routed) {
+            entry.issues = entry.issues.filter(issue =>
+                existing.get(issue.node_id) !== null || issue.state.toLowerCase() !== 'closed'
+            );
+        }
+        const filteredCount = routed.reduce((count, { issues }) => count + issues.length, 0);
+        logger.log(`Filtered ${issueCount - filteredCount} issues which were closed on Github and did not exist on Linear`);
+
+        logger.log('Planning changes...');
+        const startedAt = Date.now();
+        let { plan, failed: planFailed } = await planSync(linear, github, routed, store, { cache, concurrency });
+        const planned = plan.issues;
+        this.emit('plan', plan);
+        if (dryRun) {
+            return { startedAt, plan, results: planFailed, reverse };
+        }
+
+        if (review) {
+            const reviewed = await review(plan, {
+                teams: () => cache.teams(),
+                projects: teamId => cache.teamProjects(teamId),
+                states: teamId => cache.workflowStates(teamId),
+                replan: async (issue, { teamId, projectId }) => {
+                    // Planning may have replaced the listed issue, e.g. by its transferred one
+                    const route = findRoute(routes, issue.githubIssue);
+                    if (!route) {
+                        logger.error(`❌ ${issue.githubIssue.html_url}: no route matches it anymore, keeping its team and project`);
+                        return issue;
+                    }
+                    const team = (await cache.teams()).find(t => t.id === teamId)!;
+                    return planGithubIssueSync(
+                        linear,
+                        github,
+                        issue.githubIssue,
+                        { ...route, team: team.key, teamId, projectId },
+                        store,
+                        cache
+                    );
+                }
+            });
+            if (!reviewed) {
+                return { startedAt, plan, results: [], cancelled: true, reverse };
+            }
+            plan = reviewed;
+        }
+
+        // Snapshots from planning, which the plan was reviewed against
+        const before = await this.snapshots(plan, cache);
+        logger.log('Syncing to Linear...');
+        const results = await applySyncPlan(linear, github, plan, store, { cache, concurrency, logger });
+        results.push(...planFailed);
+        // Issues left out in review count as not synced, so the cursor doesn't move past them
+        const applied = new Set(plan.issues.map(issue => issue.githubIssue.node_id));
+        const leftOut = planned
+            .filter(issue => !applied.has(issue.githubIssue.node_id))
+            .map(issue => issue.githubIssue);
+        const failed = results.filter(result => result.action === 'failed').map(result => result.githubIssue);
+        // A query selects issues regardless of the cursors, so it doesn't move them either
+        if (!query) {
+            advanceCursors(store, fetched, [...failed, ...leftOut]);
+        }
+        store.save();
+        this.emitResults(results);
+
+        const run: SyncRun = { startedAt, plan, results, reverse };
+        run.runId = await this.record(results, {
+            command: 'sync',
+            options: {
+                direction,
+                full,
+                pullRequests,
+                query,
+                routes: routes.map(({ repo, labels, team, project }) => ({ repo, labels, team, project }))
+            },
+            startedAt,
+            before,
+            cursors: cursors.map(cursor => ({ ...cursor, after: store.getCursor(cursor.repo) }))
+        });
+        if (pullRequests) {
+            run.pullRequests = await this.reflectPullRequests(routes, sinceByRepo);
+            store.save();
+        }
+        return run;
+    }
+
+    /**
+     * Executes a plan made earlier, e.g. one written by `sync --plan-out`
+     * @throws {PlanConflictError} when Linear changed since the plan was made
+     */
+    async apply(plan: SyncPlan): Promise<{ results: SyncResult[]; runId?: string }> {
+        const { linear, github, store, logger, concurrency } = this;
+        const startedAt = Date.now();
+        const cache = new SyncCache(linear);
+
+        logger.log(`Checking the ${plan.issues.length} planned issues against Linear...`);
+        const conflicts = await verifyPlan(linear, plan, store);
+        if (conflicts.length) {
+            throw new PlanConflictError(plan.createdAt, conflicts);
+        }
+
+        const before = await this.snapshots(plan, cache);
+        const repos = [...new Set(plan.issues.map(issue => issue.route.repo))];
+        const cursors = repos.map(repo => ({ repo, before: store.getCursor(repo) }));
+        logger.log('Syncing to Linear...');
+        const results = await applySyncPlan(linear, github, plan, store, { cache, concurrency, logger });
+        advanceCursors(
+            store,
+            plan.issues.map(issue => issue.githubIssue),
+            results.filter(result => result.action === 'failed').map(result => result.githubIssue)
+        );
+        store.save();
+        this.emitResults(results);
+
+        const runId = await this.record(results, {
+            command: 'sync apply',
+            options: { planCreatedAt: plan.createdAt },
+            startedAt,
+            before,
+            cursors: cursors.map(cursor => ({ ...cursor, after: store.getCursor(cursor.repo) }))
+        });
+        return { results, runId };
+    }
+
+    /**
+     * Undoes a journaled run, see undoRun
+     * @throws {NotFoundError} when no single run matches `runId`
+     * @throws {SyncError} when the run was undone before or there is no journal
+     */
+    async undo(runId: string, options: { dryRun?: boolean } = {}): Promise<{ run: SyncRunRecord; results: UndoResults }> {
+        if (!this.journal) {
+            throw new SyncError('Runs are not journaled, there is nothing to undo');
+        }
+        return undoJournaledRun(this.linear, this.journal, runId, this.store, options);
+    }
+
+    /**
+     * Finds duplicate Linear issues per GitHub issue, Linear issues whose
+     * GitHub issue is gone or moved, broken links, state mismatches and, with
+     * a config, open GitHub issues not in Linear. `fix` repairs the duplicates
+     * and links, see repairIssues.
+     * @throws {NotFoundError} when the team doesn't exist
+     */
+    async doctor({ team, fix = false }: { team?: string; fix?: boolean } = {}): Promise<{
+        report: DoctorReport;
+        fixed?: DoctorFixResults;
+    }> {
+        const { linear, github, store, logger, concurrency } = this;
+        const cache = new SyncCache(linear);
+        const teamId = team ? (await findLinearTeam(linear, team, cache))?.id : undefined;
+        if (team && !teamId) {
+            throw new NotFoundError(`No team found matching: ${team}`);
+        }
+
+        const routes = this.config?.routes;
+        const report = await diagnose(linear, github, store, { teamId, routes, concurrency, logger });
+        if (!fix) {
+            return { report };
+        }
+        logger.log('Repairing...');
+        return { report, fixed: await repairIssues(linear, github, report, store, { cache, routes }) };
+    }
+
+    // The current Linear issues of a plan, by ID
+    private async snapshots(plan: SyncPlan, cache: SyncCache) {
+        const ids = plan.issues.flatMap(issue => issue.linearIssue ? [issue.linearIssue.id] : []);
+        await cache.prefetchSnapshots(ids);
+        const snapshots = new Map<string, LinearIssueSnapshot>();
+        for (const id of ids) {
+            const snapshot = await cache.snapshot(id);
+            if (snapshot) {
+                snapshots.set(id, snapshot);
+            }
+        }
+        return snapshots;
+    }
+
+    // Journals a run that wrote to Linear, @returns its ID
+    private async record(
+        results: SyncResult[],
+        run: Omit<Parameters<typeof recordRun>[1], 'results' | 'startedAt'> & { startedAt: number }
+    ) {
+        if (!this.journal || !results.some(result => result.action === 'created' || result.action === 'updated')) {
+            return undefined;
+        }
+        const record = await recordRun(this.linear, { ...run, results, startedAt: new Date(run.startedAt) });
+        this.journal.save(record);
+        return record.id;
+    }
+
+    private emitResults(results: SyncResult[]) {
+        for (const result of results) {
+            this.emit(`issue:${result.action}`, result);
+        }
+    }
+
+    /**
+     * Fetches the issues of each route, through the search API when there is
+     * a query. An issue belongs to the first route matching its repo and labels.
+     */
+    private async fetchIssues(routes: ResolvedRoute[], { full, query }: { full: boolean; query?: string }) {
+        const { github, store, logger } = this;
+        const routed: Array<{ route: ResolvedRoute; issues: GithubIssue[] }> = routes.map(route => ({ route, issues: [] }));
+        // Read before the cursors advance, for the pull request pass
+        const sinceByRepo = new Map<string, Date | undefined>();
+        for (const route of routes) {
+            sinceByRepo.set(route.repo, effectiveSince(store, route.repo, route.since, full));
+        }
+
+        if (!query) {
+            for (const entry of routed) {
+                const { route } = entry;
+                const since = sinceByRepo.get(route.repo);
+                logger.log(`Fetching GitHub issues [authors: ${route.authors ?? ''}] [repo: ${route.repo}] [since: ${since?.toISOString() ?? 'all'}]...`);
+                const issues = await fetchGithubIssues(github, {
+                    repos: [route.repo],
+                    authors: route.authors,
+                    since,
+                    filter: route.filter,
+                    logger
+                });
+                entry.issues = issues.filter(issue => findRoute(routes, issue) === route);
+            }
+            return { routed, sinceByRepo };
+        }
+
+        // Only the routes' own `since` applies, every route needs one to narrow the search
+        const since = routes.every(route => route.since)
+            ? new Date(Math.min(...routes.map(route => new Date(route.since!).getTime())))
+            : undefined;
+        logger.log(`Searching GitHub issues [query: ${query}] [since: ${since?.toISOString() ?? 'all'}]...`);
+        const issues = await searchGithubIssues(github, { query, since, logger });
+
+        let unrouted = 0;
+        for (const issue of issues) {
+            const entry = routed.find(({ route }) => route === findRoute(routes, issue));
+            if (!entry) {
+                unrouted++;
+                continue;
+            }
+            const { route } = entry;
+            const author = issue.user?.login.toLowerCase();
+            if (
+                (!route.since || new Date(issue.updated_at) >= new Date(route.since)) &&
+                (!route.authors?.length || route.authors.some(a => a.toLowerCase() === author)) &&
+                matchesIssueFilter(issue, route.filter)
+            ) {
+                entry.issues.push(issue);
+            }
+        }
+        if (unrouted) {
+            logger.log(`Left out ${unrouted} issues of repositories without a route`);
+        }
+        return { routed, sinceByRepo };
+    }
+
+    // @throws {NotFoundError} naming the authors that don't exist on GitHub
+    private async validateAuthors(routes: ResolvedRoute[]) {
+        const authors = [...new Set(routes.flatMap(route => route.authors ?? []))];
+        if (!authors.length) {
+            return;
+        }
+
+        this.logger.log('Validating GitHub users...');
+        const authorValidations = await Promise.all(
+            authors.map(async (author) => {
+                try {
+                    await this.github.users.getByUsername({username: author});
+                    return {author, valid: true};
+                } catch {
+                    return {author, valid: false};
+                }
+            })
+        );
+        const invalidAuthors = authorValidations.filter(v => !v.valid);
+        if (invalidAuthors.length) {
+            throw new NotFoundError(`Invalid GitHub usernames: ${invalidAuthors.map(a => a.author).join(', ')}`);
+        }
+        this.logger.log(`Users validated ${authors}`);
+    }
+
+    /**
+     * Attaches the pull requests updated since each repository's cursor to the
+     * Linear issues they reference, and moves those issues along
+     */
+    private async reflectPullRequests(routes: ResolvedRoute[], since: Map<string, Date | undefined>) {
+        const { linear, github, store, logger, concurrency } = this;
+        const repos = [...new Set(routes.filter(route => route.pullRequests !== false).map(route => route.repo))];
+        if (!repos.length) {
+            return undefined;
+        }
+
+        logger.log('Linking pull requests to Linear issues...');
+        const pulls = (await Promise.all(
+            repos.map(repo => fetchGithubPullRequests(github, { repos: [repo], since: since.get(repo), logger }))
+        )).flat();
+        // Fresh lookups: the issue pass may just have changed the states of these issues
+        const results = await syncPullRequests(linear, pulls, routes, store, {
+            cache: new SyncCache(linear),
+            concurrency
+        });
+
+        logger.log(`🔗 ${results.linked.length} of ${pulls.length} pull requests linked to Linear issues, ${results.moved.length} issues moved`);
+        results.moved.forEach(({ url, identifier, state }) => logger.log(`  - ${identifier} → ${state} (${url})`));
+        if (results.failed.length) {
+            logger.log(`❌ ${results.failed.length} pull requests failed to link:`);
+            results.failed.forEach(({ url, message }) => logger.log(`  - ${url}: ${message}`));
+        }
+        return results;
+    }
+
+    /**
+     * Creates GitHub issues for the Linear issues matching the routes' filters,
+     * the `linear-to-github` direction
+     * @throws {ConfigError} when a route has no filter, which would publish every issue of its team
+     */
+    private async importFromLinear(
+        routes: ResolvedRoute[],
+        { cache, filter, dryRun }: { cache: SyncCache; filter: LinearImportFilter; dryRun: boolean }
+    ) {
+        const { linear, github, store, logger } = this;
+        const unfiltered = routes.filter(route => !hasImportFilter(route, filter));
+        if (unfiltered.length) {
+            throw new ConfigError(unfiltered.map(route =>
+                `No Linear filter for ${route.repo}, every issue of the team would be published. ` +
+                'Pass --linear-label, --linear-project or --linear-state, or set linearToGithub on the route'
+            ));
+        }
+
+        logger.log('Fetching Linear issues...');
+        const results = await importLinearIssuesToGithub(linear, github, routes, store, { cache, filter, dryRun });
+        if (!dryRun) {
+            store.save();
+        }
+
+        logger.log(dryRun
+            ? `${results.created.length} Linear issues would get a GitHub issue:`
+            : `✅ ${results.created.length} GitHub issues created from Linear`);
+        results.created.forEach(({ identifier, repo, url }) => logger.log(`  - ${identifier} → ${url ?? repo}`));
+        logger.log(`🔗 ${results.linked.length} matching Linear issues already have a GitHub issue`);
+        if (results.failed.length) {
+            logger.log(`❌ ${results.failed.length} Linear issues failed to import:`);
+            results.failed.forEach(({ identifier, message }) => logger.log(`  - ${identifier}: ${message}`));
+        }
+        if (dryRun) {
+            logger.log('Dry run, nothing was written');
+        }
+        return results;
+    }
+}
@@ -0,0 +1,76 @@
+import {describe, expect, test} from 'bun:test';
+import type {Octokit} from '@octokit/rest';
+import type {GithubIssue} from '../api/linear';
+import type {SyncCache} from './cache';
+import {mapIssueFields} from './fields';
+import type {LinkedIssue} from './store';
+
+const github = {} as Octokit;
+
+// The labels and users of the team, nothing else is looked up
+const fakeCache = (labels: Array<{ id: string; name: string; isGroup?: boolean }>) => ({
+    labels: async () => labels.map(label => ({ isGroup: false, ...label })),
+    users: async () => [],
+    githubUser: async () => ({ email: null })
+}) as unknown as SyncCache;
+
+const githubIssue = (fields: Partial<GithubIssue> = {}) => ({
+    node_id: 'I_1',
+    html_url: 'https://github.com/acme/app/issues/1',
+    labels: [],
+    assignees: [],
+    assignee: null,
+    milestone: null,
+    ...fields
+}) as unknown as GithubIssue;
+
+const link = (synced: LinkedIssue['synced']): LinkedIssue => ({
+    githubNodeId: 'I_1',
+    githubUrl: 'https://github.com/acme/app/issues/1',
+    linearId: 'lin-1',
+    synced
+});
+
+const target = { teamId: 'team-1' };
+
+describe('mapIssueFields', () => {
+    test('with a label group, maps existing labels and creates only the first missing one', async () => {
+        const cache = fakeCache([{ id: 'l-bug', name: 'bug' }, { id: 'l-ui', name: 'ui' }]);
+        const issue = githubIssue({ labels: [{ name: 'feature' }, { name: 'bug' }, { name: 'docs' }, { name: 'ui' }] } as Partial<GithubIssue>);
+
+        const { input, pending, syncedLabels } = await mapIssueFields(
+            github, issue, { ...target, fields: { labelGroup: 'Area' } }, undefined, undefined, cache
+        );
+
+        expect(input.labelIds).toEqual(['l-bug', 'l-ui']);
+        expect(pending.labels).toEqual(['feature']);
+        expect(pending.labelGroup).toBe('Area');
+        expect(syncedLabels).toEqual(['feature', 'bug', 'ui']);
+    });
+
+    test('clears the assignee once it is removed on GitHub', async () => {
+        const cache = fakeCache([]);
+
+        const unassigned = await mapIssueFields(github, githubIssue(), target, undefined, link({ assignee: 'user-1' }), cache);
+        expect(unassigned.input.assigneeId).toBeNull();
+
+        // Never synced from GitHub: an assignee set in Linear stays
+        const neverSynced = await mapIssueFields(github, githubIssue(), target, undefined, link({}), cache);
+        expect(neverSynced.input.assigneeId).toBeUndefined();
+    });
+
+    test('clears the priority once its label is removed on GitHub', async () => {
+        const cache = fakeCache([]);
+
+        const removed = await mapIssueFields(github, githubIssue(), target, undefined, link({ priority: '2' }), cache);
+        expect(removed.input.priority).toBe(0);
+
+        const labelled = await mapIssueFields(
+            github, githubIssue({ labels: [{ name: 'priority:high' }] } as Partial<GithubIssue>), target, undefined, link({ priority: '1' }), cache
+        );
+        expect(labelled.input.priority).toBe(2);
+
+        const neverSynced = await mapIssueFields(github, githubIssue(), target, undefined, undefined, cache);
+        expect(neverSynced.input.priority).toBeUndefined();
+    });
+});
@@ -0,0 +1,324 @@
+import type {IssueLabel, LinearClient, User} from '@linear/sdk';
+import type {IssueCreateInput} from '@linear/sdk/dist/_generated_documents';
+import type {Octokit} from '@octokit/rest';
+import type {GithubIssue} from '../api/linear';
+import type {SyncCache} from './cache';
+import type {LinearIssueSnapshot} from './plan';
+import type {LinkedIssue} from './store';
+
+/**
+ * How GitHub labels, assignees and milestones carry over to Linear
+ */
+export interface FieldMapping {
+    // Mirror GitHub labels as Linear labels, creating missing ones (default: true)
+    labels?: boolean;
+    // Label group missing labels are created under. Linear allows one label per
+    // group on an issue, so only the first missing GitHub label is created then.
+    labelGroup?: string;
+    // Sync the first GitHub assignee (default: true)
+    assignees?: boolean;
+    // GitHub login → Linear user ID, email or name. Logins not listed are
+    // matched on the public email of their GitHub profile.
+    users?: Record<string, string>;
+    // What GitHub milestones become, matched by name (default: none)
+    milestones?: 'cycle' | 'project-milestone' | 'none';
+    // GitHub label → Linear priority (1 urgent, 2 high, 3 medium, 4 low)
+    priorityLabels?: Record<string, number>;
+}
+
+// Linear's priority of issues without one
+const NO_PRIORITY = 0;
+
+export const DEFAULT_PRIORITY_LABELS: Record<string, number> = {
+    'priority:urgent': 1,
+    'priority:critical': 1,
+    'priority:high': 2,
+    'priority:medium': 3,
+    'priority:low': 4
+};
+
+/**
+ * Labels, milestones and images that don't exist in Linear yet. They are
+ * only created when the sync is applied, so planning never writes to Linear.
+ */
+export interface PendingFields {
+    labels: string[];
+    // Set when the configured label group itself is missing
+    labelGroup?: string;
+    milestone?: { name: string; description?: string; targetDate?: string };
+    // GitHub-hosted images in the description, uploaded to Linear on apply
+    images?: string[];
+}
+
+export interface MappedFields {
+    input: Pick<IssueCreateInput, 'labelIds' | 'assigneeId' | 'cycleId' | 'projectMilestoneId' | 'priority'>;
+    pending: PendingFields;
+    // GitHub label names applied, recorded so removals can be detected later.
+    // Assignee and priority removals are detected on the link's synced fields.
+    syncedLabels: string[];
+}
+
+const labelName = (label: GithubIssue['labels'][number]) =>
+    typeof label === 'string' ? label : label.name ?? '';
+
+// Keyed in the cache, so issues synced concurrently don't create the same label twice
+function findOrCreateLabel(
+    client: LinearClient,
+    cache: SyncCache,
+    available: IssueLabel[],
+    name: string,
+    teamId: string,
+    parentId?: string
+): Promise<IssueLabel | undefined> {
+    return cache.get(`label:${teamId}:${parentId ?? ''}:${name.toLowerCase()}`, async () => {
+        const existing = available.find(l =>
+            !l.isGroup && l.name.toLowerCase() === name.toLowerCase()
+        );
+        if (existing) {
+            return existing;
+        }
+
+        const payload = await client.createIssueLabel({ name, teamId, parentId });
+        const created = await payload.issueLabel;
+        if (created) {
+            available.push(created);
+        }
+        return created;
+    });
+}
+
+async function mapLabels(
+    cache: SyncCache,
+    githubIssue: GithubIssue,
+    teamId: string,
+    mapping: FieldMapping,
+    existing: LinearIssueSnapshot | undefined,
+    link: LinkedIssue | undefined
+): Promise<{ labelIds: string[]; names: string[]; pending: Pick<PendingFields, 'labels' | 'labelGroup'> }> {
+    const priorityLabels = Object.keys(mapping.priorityLabels ?? DEFAULT_PRIORITY_LABELS)
+        .map(l => l.toLowerCase());
+    let names = githubIssue.labels
+        .map(labelName)
+        .filter(name => name && !priorityLabels.includes(name.toLowerCase()));
+
+    const available = await cache.labels(teamId);
+    const findLabel = (name: string) => available.find(l =>
+        !l.isGroup && l.name.toLowerCase() === name.toLowerCase()
+    );
+    const labels = names.map(findLabel);
+    let missing = names.filter(name => !findLabel(name));
+
+    let labelGroup: string | undefined;
+    if (mapping.labelGroup) {
+        const groupName = mapping.labelGroup.toLowerCase();
+        labelGroup = available.some(l => l.name.toLowerCase() === groupName) ? undefined : mapping.labelGroup;
+        // Existing labels apply as usual, only the ones created under the group are limited to one
+        const dropped = missing.slice(1);
+        missing = missing.slice(0, 1);
+        names = names.filter(name => !dropped.includes(name));
+    }
+
+    // Keep labels added in Linear, drop the ones removed on GitHub since the last sync
+    const removed = (link?.syncedLabels ?? [])
+        .filter(name => !names.some(n => n.toLowerCase() === name.toLowerCase()))
+        .map(name => name.toLowerCase());
+    const kept = (existing?.labels.nodes ?? []).filter(l => !removed.includes(l.name.toLowerCase()));
+
+    const labelIds = [...new Set([
+        ...kept.map(l => l.id),
+        ...labels.filter(l => l !== undefined).map(l => l.id)
+    ])];
+    return { labelIds, names, pending: { labels: missing, labelGroup } };
+}
+
+// Matches a Linear user by ID, email, name or display name
+export function findLinearUser(users: User[], ref: string): User | undefined {
+    const wanted = ref.toLowerCase();
+    return users.find(u =>
+        u.id === ref ||
+        u.email.toLowerCase() === wanted ||
+        u.name.toLowerCase() === wanted ||
+        u.displayName.toLowerCase() === wanted
+    );
+}
+
+/**
+ * The Linear user of a GitHub login: listed in `mapping.users`, or else
+ * matched on the public email of the GitHub profile
+ */
+export async function findLinearUserForLogin(
+    cache: SyncCache,
+    githubClient: Octokit,
+    login: string,
+    mapping: FieldMapping
+): Promise<User | undefined> {
+    const users = await cache.users();
+    const explicit = Object.entries(mapping.users ?? {})
+        .find(([githubLogin]) => githubLogin.toLowerCase() === login.toLowerCase())?.[1];
+
+    if (explicit) {
+        return findLinearUser(users, explicit);
+    }
+
+    const profile = await cache.githubUser(githubClient, login);
+    const email = profile.email?.toLowerCase();
+    return email ? users.find(u => u.active && u.email.toLowerCase() === email) : undefined;
+}
+
+// @returns the Linear user ID, undefined when there is none for the login, null when GitHub has no assignee
+async function mapAssignee(
+    cache: SyncCache,
+    githubClient: Octokit,
+    githubIssue: GithubIssue,
+    mapping: FieldMapping
+): Promise<string | null | undefined> {
+    const login = githubIssue.assignees?.[0]?.login ?? githubIssue.assignee?.login;
+    if (!login) {
+        return null;
+    }
+    return (await findLinearUserForLogin(cache, githubClient, login, mapping))?.id;
+}
+
+async function mapMilestone(
+    cache: SyncCache,
+    githubIssue: GithubIssue,
+    teamId: string,
+    projectId: string | undefined,
+    mapping: FieldMapping
+): Promise<Pick<IssueCreateInput, 'cycleId' | 'projectMilestoneId'> & Pick<PendingFields, 'milestone'>> {
+    const milestone = githubIssue.milestone;
+    if (!milestone || !mapping.milestones || mapping.milestones === 'none') {
+        return {};
+    }
+
+    if (mapping.milestones === 'cycle') {
+        const cycles = await cache.cycles(teamId);
+        const cycle = cycles.find(c => c.name?.toLowerCase() === milestone.title.toLowerCase());
+        // Cycles are date based, so they are matched but never created
+        return cycle ? { cycleId: cycle.id } : {};
+    }
+
+    if (!projectId) {
+        return {};
+    }
+    const milestones = await cache.projectMilestones(projectId);
+    const existing = milestones.find(m => m.name.toLowerCase() === milestone.title.toLowerCase());
+    if (existing) {
+        return { projectMilestoneId: existing.id };
+    }
+    return {
+        milestone: {
+            name: milestone.title,
+            description: milestone.description ?? undefined,
+            targetDate: milestone.due_on?.slice(0, 10)
+        }
+    };
+}
+
+function mapPriority(githubIssue: GithubIssue, mapping: FieldMapping): number | undefined {
+    const priorities = Object.entries(mapping.priorityLabels ?? DEFAULT_PRIORITY_LABELS)
+        .map(([label, priority]) => [label.toLowerCase(), priority] as const);
+    const matched = githubIssue.labels
+        .map(label => labelName(label).toLowerCase())
+        .flatMap(name => priorities.filter(([label]) => label === name).map(([, priority]) => priority));
+    return matched.length ? Math.min(...matched) : undefined;
+}
+
+/**
+ * Maps GitHub labels, assignee, milestone and priority labels onto Linear
+ * issue fields. Fields that can't be resolved are left out, so they keep
+ * their current Linear value. An assignee or priority label that was synced
+ * before and is gone from GitHub clears the Linear field. Nothing is created
+ * in Linear: missing labels and milestones are returned as pending, see
+ * {@link createPendingFields}.
+ */
+export async function mapIssueFields(
+    githubClient: Octokit,
+    githubIssue: GithubIssue,
+    target: { teamId: string; projectId?: string; fields?: FieldMapping },
+    existing: LinearIssueSnapshot | undefined,
+    link: LinkedIssue | undefined,
+    cache: SyncCache
+): Promise<MappedFields> {
+    const mapping = target.fields ?? {};
+    const input: MappedFields['input'] = {};
+    const pending: PendingFields = { labels: [] };
+    let syncedLabels: string[] = [];
+
+    if (mapping.labels !== false) {
+        const labels = await mapLabels(cache, githubIssue, target.teamId, mapping, existing, link);
+        input.labelIds = labels.labelIds;
+        Object.assign(pending, labels.pending);
+        syncedLabels = labels.names;
+    }
+
+    if (mapping.assignees !== false) {
+        const assigneeId = await mapAssignee(cache, githubClient, githubIssue, mapping);
+        if (assigneeId) {
+            input.assigneeId = assigneeId;
+        } else if (assigneeId === null && link?.synced?.assignee) {
+            // Unassigned on GitHub since the last sync
+            input.assigneeId = null;
+        }
+    }
+
+    const { milestone, ...milestoneInput } = await mapMilestone(cache, githubIssue, target.teamId, target.projectId, mapping);
+    Object.assign(input, milestoneInput);
+    if (milestone) {
+        pending.milestone = milestone;
+    }
+
+    const priority = mapPriority(githubIssue, mapping);
+    if (priority !== undefined) {
+        input.priority = priority;
+    } else if (link?.synced?.priority && link.synced.priority !== String(NO_PRIORITY)) {
+        // Priority label removed on GitHub since the last sync
+        input.priority = NO_PRIORITY;
+    }
+
+    return { input, pending, syncedLabels };
+}
+
+/**
+ * Creates the labels and milestone a plan left pending
+ * @returns the IDs to add to the issue input
+ */
+export async function createPendingFields(
+    client: LinearClient,
+    cache: SyncCache,
+    target: { teamId: string; projectId?: string; fields?: FieldMapping },
+    pending: PendingFields
+): Promise<Pick<IssueCreateInput, 'labelIds' | 'projectMilestoneId'>> {
+    const { teamId, projectId } = target;
+    const available = await cache.labels(teamId);
+
+    let parentId: string | undefined;
+    const groupName = target.fields?.labelGroup;
+    if (groupName && pending.labels.length) {
+        const group = await cache.get(`label-group:${teamId}:${groupName.toLowerCase()}`, async () =>
+            available.find(l => l.name.toLowerCase() === groupName.toLowerCase())
+                ?? await (await client.createIssueLabel({ name: groupName, teamId })).issueLabel
+        );
+        parentId = group?.id;
+    }
+
+    const labels = await Promise.all(
+        pending.labels.map(name => findOrCreateLabel(client, cache, available, name, teamId, parentId))
+    );
+    const labelIds = labels.filter(l => l !== undefined).map(l => l.id);
+
+    const milestone = pending.milestone;
+    if (!milestone || !projectId) {
+        return labelIds.length ? { labelIds } : {};
+    }
+    const created = await cache.get(`milestone:${projectId}:${milestone.name.toLowerCase()}`, async () => {
+        // It may have been created since the plan was made
+        const existing = (await cache.projectMilestones(projectId))
+            .find(m => m.name.toLowerCase() === milestone.name.toLowerCase());
+        return existing ?? (await client.createProjectMilestone({ projectId, ...milestone })).projectMilestone;
+    });
+    return {
+        ...(labelIds.length ? { labelIds } : {}),
+        ...(created ? { projectMilestoneId: created.id } : {})
+    };
+}
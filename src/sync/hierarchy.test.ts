@@ -0,0 +1,80 @@
+import {describe, expect, test} from 'bun:test';
+import type {GithubIssue} from '../api/linear';
+import {dependencyWaves, issueRelationRefs, taskListChildren, type GithubParent, type IssueRelationRef} from './hierarchy';
+
+const url = (number: number, repo = 'acme/app') => `https://github.com/${repo}/issues/${number}`;
+
+const githubIssue = (number: number, body = '') => ({
+    html_url: url(number),
+    repository_url: 'https://api.github.com/repos/acme/app',
+    body
+}) as GithubIssue;
+
+describe('taskListChildren', () => {
+    test('takes task list items that are only a reference', () => {
+        const issue = githubIssue(1, [
+            '- [ ] #2',
+            '- [x] acme/api#3',
+            `* [ ] ${url(4)}`,
+            '- [ ] Write the docs for #5',
+            '- [ ] #2',
+            '- [ ] #1'
+        ].join('\n'));
+
+        expect(taskListChildren(issue)).toEqual([url(2), url(3, 'acme/api'), url(4)]);
+    });
+
+    test('ignores code, except GitHub tasklist blocks', () => {
+        const issue = githubIssue(1, ['```', '- [ ] #2', '```', '```[tasklist]', '- [ ] #3', '```'].join('\n'));
+
+        expect(taskListChildren(issue)).toEqual([url(3)]);
+    });
+});
+
+describe('issueRelationRefs', () => {
+    test('finds blocked-by and duplicate references once each', () => {
+        const issue = githubIssue(1, 'Blocked by #2 and depends on: acme/api#3.\nDuplicate of #4, blocked by #2, blocked by #1.');
+
+        expect(issueRelationRefs(issue)).toEqual([
+            { type: 'blocked-by', githubUrl: url(2) },
+            { type: 'blocked-by', githubUrl: url(3, 'acme/api') },
+            { type: 'duplicate-of', githubUrl: url(4) }
+        ]);
+    });
+
+    test('ignores references in inline code', () => {
+        expect(issueRelationRefs(githubIssue(1, 'Write `blocked by #2` to link issues'))).toEqual([]);
+    });
+});
+
+describe('dependencyWaves', () => {
+    const plan = (number: number, parent?: number, relations: IssueRelationRef[] = []) => ({
+        githubIssue: githubIssue(number),
+        parent: parent ? { url: url(parent), via: 'sub-issue' } as GithubParent : null,
+        relations
+    });
+    const numbers = (waves: Array<Array<ReturnType<typeof plan>>>) =>
+        waves.map(wave => wave.map(p => p.githubIssue.html_url.split('/').pop()));
+
+    test('orders parents and blocking issues before the issues depending on them', () => {
+        const waves = dependencyWaves([
+            plan(3, 2),
+            plan(2, 1),
+            plan(4, undefined, [{ type: 'blocked-by', githubUrl: url(1) }]),
+            plan(1),
+            // Its parent isn't planned, so nothing to wait for
+            plan(5, 99)
+        ]);
+
+        expect(numbers(waves)).toEqual([['1', '5'], ['2', '4'], ['3']]);
+    });
+
+    test('puts cycles in the wave where they were entered', () => {
+        const waves = dependencyWaves([
+            plan(1, undefined, [{ type: 'blocked-by', githubUrl: url(2) }]),
+            plan(2, undefined, [{ type: 'blocked-by', githubUrl: url(1) }])
+        ]);
+
+        expect(numbers(waves)).toEqual([['2'], ['1']]);
+    });
+});
@@ -0,0 +1,411 @@
+import {LinearDocument, type LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {fetchAllNodes, githubIssueRepo, parseGithubIssueUrl, type GithubIssue} from '../api/linear';
+import type {Logger} from '../logger';
+import type {SyncCache} from './cache';
+import type {FieldChange, LinearIssueSnapshot} from './plan';
+import type {LinkedIssue, LinkStore} from './store';
+
+/**
+ * Where an issue's parent comes from: it is a GitHub sub-issue of the parent,
+ * or an item of the parent's task list (`- [ ] #123`)
+ */
+export interface GithubParent {
+    url: string;
+    via: 'sub-issue' | 'task list';
+}
+
+/**
+ * A Linear relation planned from a reference in the GitHub issue body:
+ * "blocked by #12" or "depends on #12" make #12 block the issue, "duplicate
+ * of #12" marks the issue a duplicate of #12
+ */
+export interface IssueRelationRef {
+    type: 'blocked-by' | 'duplicate-of';
+    githubUrl: string;
+}
+
+// #12, owner/repo#12 or a GitHub issue URL
+const ISSUE_REF = String.raw`(?:https:\/\/[\w.-]+(?::\d+)?\/([\w.-]+)\/([\w.-]+)\/issues\/|(?:([\w.-]+)\/([\w.-]+))?#)(\d+)`;
+// Task list items that are nothing but a reference, other items are plain tasks
+const TASK_REFERENCE = new RegExp(String.raw`^\s*[*+-] \[[ xX]\]\s+${ISSUE_REF}\s*$`, 'gm');
+const RELATION_REFERENCE = new RegExp(String.raw`\b(blocked by|depends on|duplicate of):?\s+${ISSUE_REF}\b`, 'gi');
+// Code blocks and inline code; GitHub's ```[tasklist] blocks hold a task list and are kept
+const CODE = /```(\[tasklist\])?[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]+`/g;
+
+// The references of a pattern in an issue body, as GitHub issue URLs
+function findReferences(issue: GithubIssue, pattern: RegExp) {
+    const [owner, repo] = githubIssueRepo(issue).split('/');
+    // github.com, or the GitHub Enterprise Server host
+    const host = new URL(issue.html_url).origin;
+    const body = (issue.body ?? '').replace(CODE, (block, tasklist) => tasklist ? block : '');
+    return [...body.matchAll(pattern)].map(match => {
+        const [urlOwner, urlRepo, refOwner, refRepo, number] = match.slice(-5);
+        return {
+            match,
+            url: `${host}/${urlOwner ?? refOwner ?? owner}/${urlRepo ?? refRepo ?? repo}/issues/${number}`
+        };
+    });
+}
+
+// Issues listed in the task list of an issue, as GitHub issue URLs
+export const taskListChildren = (issue: GithubIssue) =>
+    [...new Set(findReferences(issue, TASK_REFERENCE).map(({ url }) => url))]
+        .filter(url => url.toLowerCase() !== issue.html_url.toLowerCase());
+
+export function issueRelationRefs(issue: GithubIssue): IssueRelationRef[] {
+    const refs = findReferences(issue, RELATION_REFERENCE).map(({ match, url }): IssueRelationRef => ({
+        type: match[1].toLowerCase() === 'duplicate of' ? 'duplicate-of' : 'blocked-by',
+        githubUrl: url
+    }));
+    return refs.filter((ref, i) =>
+        ref.githubUrl.toLowerCase() !== issue.html_url.toLowerCase() &&
+        refs.findIndex(other => other.type === ref.type && other.githubUrl === ref.githubUrl) === i
+    );
+}
+
+const SUB_ISSUE_BATCH_SIZE = 50;
+
+interface SubIssueNode {
+    url: string;
+    parent: { url: string } | null;
+    subIssues: { nodes: Array<{ url: string }> };
+}
+
+/**
+ * Looks up the sub-issue parent and children of issues with batched GraphQL
+ * queries, one repository at a time so each goes out with its owner's token
+ * @returns issue URL → sub-issue parent URL or null, for the given issues and their children
+ */
+export async function fetchSubIssueParents(
+    octokit: Octokit,
+    issues: GithubIssue[],
+    logger: Logger = console
+): Promise<Map<string, string | null>> {
+    const parents = new Map<string, string | null>();
+    const byRepo = Map.groupBy(issues, issue => githubIssueRepo(issue));
+
+    for (const [fullName, repoIssues] of byRepo) {
+        const [owner, repo] = fullName.split('/');
+        for (let i = 0; i < repoIssues.length; i += SUB_ISSUE_BATCH_SIZE) {
+            const fields = repoIssues
+                .slice(i, i + SUB_ISSUE_BATCH_SIZE)
+                .map(issue => `i${issue.number}: issue(number: ${issue.number}) { url parent { url } subIssues(first: 100) { nodes { url } } }`);
+            try {
+                const { repository } = await octokit.graphql<{ repository: Record<string, SubIssueNode | null> | null }>(
+                    `query($owner: String!, $repo: String!) {
+                        repository(owner: $owner, name: $repo) { ${fields.join('\n')} }
+                    }`,
+                    { owner, repo, headers: { 'GraphQL-Features': 'sub_issues' } }
+                );
+                for (const node of Object.values(repository ?? {})) {
+                    if (!node) {
+                        continue;
+                    }
+                    parents.set(node.url.toLowerCase(), node.parent?.url ?? null);
+                    node.subIssues.nodes.forEach(child => parents.set(child.url.toLowerCase(), node.url));
+                }
+            } catch (error) {
+                // E.g. a GitHub Enterprise Server without sub-issues, task lists still count
+                logger.warn(`⚠️ Could not load the sub-issues of ${fullName}: ${error instanceof Error ? error.message : error}`);
+                break;
+            }
+        }
+    }
+    return parents;
+}
+
+/**
+ * Works out the parent of every listed issue and of the issues they list,
+ * into `cache.githubParents`. A sub-issue parent wins over a task list that
+ * mentions the issue.
+ */
+export async function loadGithubParents(octokit: Octokit, issues: GithubIssue[], cache: SyncCache, logger?: Logger) {
+    const subIssueParents = await fetchSubIssueParents(octokit, issues, logger);
+    const parents = cache.githubParents;
+    for (const issue of issues) {
+        parents.set(issue.html_url.toLowerCase(), null);
+    }
+    for (const issue of issues) {
+        for (const child of taskListChildren(issue)) {
+            parents.set(child.toLowerCase(), { url: issue.html_url, via: 'task list' });
+        }
+    }
+    for (const [child, parent] of subIssueParents) {
+        if (parent) {
+            parents.set(child, { url: parent, via: 'sub-issue' });
+        } else if (!parents.get(child)) {
+            parents.set(child, null);
+        }
+    }
+}
+
+// The parent of an issue, looked up on its own when it wasn't listed in this run
+export async function githubParent(octokit: Octokit, issue: GithubIssue, cache: SyncCache): Promise<GithubParent | null> {
+    const key = issue.html_url.toLowerCase();
+    if (!cache.githubParents.has(key)) {
+        await cache.get(`github-parent:${key}`, () => loadGithubParents(octokit, [issue], cache));
+    }
+    return cache.githubParents.get(key) ?? null;
+}
+
+export const sameParent = (a: GithubParent | null | undefined, b: GithubParent | null | undefined) =>
+    (a?.url.toLowerCase() ?? null) === (b?.url.toLowerCase() ?? null);
+
+/**
+ * Fetches the linked issues whose parent changed without them being updated:
+ * those a listed issue took into its task list or sub-issues, and those a
+ * listed parent no longer has
+ */
+export async function fetchMovedChildren(
+    octokit: Octokit,
+    store: LinkStore,
+    cache: SyncCache,
+    logger: Logger = console
+): Promise<GithubIssue[]> {
+    const urls = new Set<string>();
+    for (const [url, parent] of cache.githubParents) {
+        const link = cache.fetchedIssueUrls.has(url) ? undefined : store.findByGithubUrl(url);
+        if (link && !sameParent(link.parent, parent)) {
+            urls.add(link.githubUrl);
+        }
+    }
+    for (const link of store.all()) {
+        const url = link.githubUrl.toLowerCase();
+        if (
+            link.parent &&
+            cache.fetchedIssueUrls.has(link.parent.url.toLowerCase()) &&
+            !cache.fetchedIssueUrls.has(url) &&
+            !cache.githubParents.get(url)
+        ) {
+            urls.add(link.githubUrl);
+        }
+    }
+
+    const issues: GithubIssue[] = [];
+    for (const url of urls) {
+        const { owner, repo, number } = parseGithubIssueUrl(url)!;
+        try {
+            const { data } = await octokit.issues.get({ owner, repo, issue_number: number });
+            issues.push(data);
+        } catch (error) {
+            // Gone issues are dealt with when they're synced themselves
+            logger.warn(`⚠️ Could not fetch ${url}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return issues;
+}
+
+/**
+ * The Linear issue synced from a GitHub issue URL, found by its link or by
+ * the GitHub attachment. Links are checked first on every call, so issues
+ * created since an earlier miss are found.
+ */
+export async function findLinearIssueId(
+    client: LinearClient,
+    githubUrl: string,
+    store: LinkStore,
+    cache: SyncCache
+): Promise<string | undefined> {
+    const link = store.findByGithubUrl(githubUrl);
+    if (link) {
+        return link.linearId;
+    }
+    return cache.get(`issue-for:${githubUrl.toLowerCase()}`, async () => {
+        for (const attachment of await fetchAllNodes(client.attachmentsForURL(githubUrl))) {
+            const issue = await attachment.issue;
+            if (issue) {
+                return issue.id;
+            }
+        }
+        return undefined;
+    });
+}
+
+// Whether the Linear issue already has a planned relation, in either direction
+export function hasRelation(issue: LinearIssueSnapshot, ref: IssueRelationRef, relatedId: string) {
+    return ref.type === 'blocked-by'
+        ? issue.inverseRelations.nodes.some(relation => relation.type === 'blocks' && relation.issue.id === relatedId)
+        : issue.relations.nodes.some(relation => relation.type === 'duplicate' && relation.relatedIssue.id === relatedId);
+}
+
+/**
+ * Creates the planned relations of a Linear issue. References to issues that
+ * aren't in Linear, e.g. in a repository without a route, are left out.
+ * @returns the relations created
+ */
+export async function linkIssueRelations(
+    client: LinearClient,
+    linearIssueId: string,
+    refs: IssueRelationRef[],
+    store: LinkStore,
+    cache: SyncCache
+): Promise<IssueRelationRef[]> {
+    const created: IssueRelationRef[] = [];
+    for (const ref of refs) {
+        const relatedId = await findLinearIssueId(client, ref.githubUrl, store, cache);
+        if (!relatedId || relatedId === linearIssueId) {
+            continue;
+        }
+        await client.createIssueRelation(ref.type === 'blocked-by'
+            ? { issueId: relatedId, relatedIssueId: linearIssueId, type: LinearDocument.IssueRelationType.Blocks }
+            : { issueId: linearIssueId, relatedIssueId: relatedId, type: LinearDocument.IssueRelationType.Duplicate });
+        created.push(ref);
+    }
+    return created;
+}
+
+/**
+ * Makes a GitHub issue a sub-issue of another, or takes it out of its
+ * sub-issue parent when `parentUrl` is null
+ */
+export async function setGithubParent(
+    octokit: Octokit,
+    issue: GithubIssue,
+    parentUrl: string | null,
+    previousParentUrl: string | null
+) {
+    const target = parseGithubIssueUrl(parentUrl ?? previousParentUrl ?? '');
+    if (!target) {
+        return;
+    }
+    const { owner, repo, number } = target;
+    if (parentUrl) {
+        await octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', {
+            owner,
+            repo,
+            issue_number: number,
+            sub_issue_id: issue.id,
+            replace_parent: true
+        });
+    } else {
+        await octokit.request('DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue', {
+            owner,
+            repo,
+            issue_number: number,
+            sub_issue_id: issue.id
+        });
+    }
+}
+
+export interface HierarchyPlan {
+    // The Linear parent to set, by its GitHub issue, null to take the issue out of its parent
+    parent?: GithubParent | null;
+    // The GitHub parent recorded in the link once the plan is applied
+    syncedParent?: GithubParent | null;
+    // Linear re-parented the issue, which it gets on GitHub as a sub-issue parent
+    githubParent?: { from: string | null; to: string | null };
+    // Relations the Linear issue doesn't have yet
+    relations: IssueRelationRef[];
+    changes: FieldChange[];
+}
+
+/**
+ * Works out the parent and relations of a Linear issue from its GitHub issue.
+ * A parent changed on GitHub since the last sync is set in Linear. A parent
+ * only changed in Linear is kept, and set on GitHub when the new parent is
+ * synced too; task lists aren't edited, so an issue taken out of a task list
+ * parent in Linear stays in the task list. References to issues neither in
+ * Linear nor synced in this run are left out.
+ */
+export async function planIssueHierarchy(
+    client: LinearClient,
+    githubClient: Octokit,
+    githubIssue: GithubIssue,
+    current: LinearIssueSnapshot | undefined,
+    link: LinkedIssue | undefined,
+    store: LinkStore,
+    cache: SyncCache
+): Promise<HierarchyPlan> {
+    const plan: HierarchyPlan = { relations: [], changes: [] };
+    // In Linear, or created before this issue since it's synced in this run
+    const resolvable = async (url: string) =>
+        await findLinearIssueId(client, url, store, cache) !== undefined || cache.fetchedIssueUrls.has(url.toLowerCase());
+    const identifierOf = async (url: string | null) => {
+        const id = url ? await findLinearIssueId(client, url, store, cache) : undefined;
+        return id ? (await cache.snapshot(id))?.identifier ?? url : url;
+    };
+
+    let parent = await githubParent(githubClient, githubIssue, cache);
+    // A task list parent that wasn't read in this run may still list the issue
+    if (!parent && link?.parent?.via === 'task list') {
+        const parentLink = store.findByGithubUrl(link.parent.url);
+        if (!parentLink || !cache.fetchedIssues.has(parentLink.githubNodeId)) {
+            parent = link.parent;
+        }
+    }
+
+    const linearParentId = current?.parent?.id ?? null;
+    if (!parent && link?.parent === undefined) {
+        // Never synced with a parent, a parent set in Linear stays
+        plan.syncedParent = null;
+    } else if (link?.parent === undefined || !sameParent(parent, link.parent)) {
+        const parentId = parent ? await findLinearIssueId(client, parent.url, store, cache) ?? null : null;
+        if (parent && !await resolvable(parent.url)) {
+            // Recorded once the parent is in Linear
+            plan.syncedParent = link?.parent;
+        } else if (parentId !== linearParentId || (parent && !parentId)) {
+            plan.parent = parent;
+            plan.syncedParent = parent;
+            plan.changes.push({ field: 'parent', from: current?.parent?.identifier ?? null, to: await identifierOf(parent?.url ?? null) });
+        } else {
+            plan.syncedParent = parent;
+        }
+    } else if (current) {
+        const syncedParentId = link.parent ? await findLinearIssueId(client, link.parent.url, store, cache) ?? null : null;
+        const linearParent = current.parent && store.findByLinearId(current.parent.id);
+        const movable = current.parent ? linearParent : link.parent?.via !== 'task list';
+        if (linearParentId !== syncedParentId && movable) {
+            const to = linearParent ? linearParent.githubUrl : null;
+            plan.githubParent = { from: link.parent?.url ?? null, to };
+            plan.syncedParent = to ? { url: to, via: 'sub-issue' } : null;
+            plan.changes.push({ field: 'githubParent', from: link.parent?.url ?? null, to });
+        }
+    }
+
+    for (const ref of issueRelationRefs(githubIssue)) {
+        const relatedId = await findLinearIssueId(client, ref.githubUrl, store, cache);
+        if (relatedId ? !current || !hasRelation(current, ref, relatedId) : await resolvable(ref.githubUrl)) {
+            plan.relations.push(ref);
+        }
+    }
+    if (plan.relations.length) {
+        const names = await Promise.all(plan.relations.map(async ref =>
+            `${ref.type === 'blocked-by' ? 'blocked by' : 'duplicate of'} ${await identifierOf(ref.githubUrl)}`
+        ));
+        plan.changes.push({ field: 'relations', from: null, to: names.join(', ') });
+    }
+
+    return plan;
+}
+
+/**
+ * Orders plans so parents and the issues others are blocked by or duplicates
+ * of come first, each wave only depending on earlier ones. Issues in a cycle
+ * go in the wave where the cycle was entered.
+ */
+export function dependencyWaves<T extends { githubIssue: GithubIssue; parent?: GithubParent | null; relations?: IssueRelationRef[] }>(
+    plans: T[]
+): T[][] {
+    const byUrl = new Map(plans.map(plan => [plan.githubIssue.html_url.toLowerCase(), plan]));
+    const depths = new Map<T, number>();
+    const depthOf = (plan: T, visiting: Set<T>): number => {
+        if (depths.has(plan)) {
+            return depths.get(plan)!;
+        }
+        visiting.add(plan);
+        const dependencies = [plan.parent?.url, ...(plan.relations ?? []).map(ref => ref.githubUrl)]
+            .map(url => url && byUrl.get(url.toLowerCase()))
+            .filter((dependency): dependency is T => !!dependency && !visiting.has(dependency));
+        const depth = Math.max(-1, ...dependencies.map(dependency => depthOf(dependency, visiting))) + 1;
+        visiting.delete(plan);
+        depths.set(plan, depth);
+        return depth;
+    };
+
+    const waves: T[][] = [];
+    for (const plan of plans) {
+        (waves[depthOf(plan, new Set())] ??= []).push(plan);
+    }
+    return waves.filter(wave => wave);
+}
@@ -0,0 +1,149 @@
+import {afterEach, describe, expect, test} from 'bun:test';
+import {mkdtempSync, rmSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import type {LinearClient} from '@linear/sdk';
+import {NotFoundError, SyncError} from '../errors';
+import {RunJournal, undoJournaledRun, undoRun, type RunIssue, type SyncRunRecord} from './journal';
+import type {LinearIssueSnapshot} from './plan';
+import {LinkStore} from './store';
+
+const snapshot = (id: string, fields: Partial<LinearIssueSnapshot> = {}): LinearIssueSnapshot => ({
+    id,
+    identifier: `ENG-${id}`,
+    updatedAt: '2024-08-01T09:00:00Z',
+    title: `Issue ${id}`,
+    priority: 0,
+    team: { id: 'team-1', key: 'ENG' },
+    state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+    project: null,
+    assignee: null,
+    cycle: null,
+    projectMilestone: null,
+    labels: { nodes: [] },
+    parent: null,
+    relations: { nodes: [] },
+    inverseRelations: { nodes: [] },
+    ...fields
+});
+
+// Linear holding the given issues, recording the writes made to them
+function fakeLinear(issues: LinearIssueSnapshot[]) {
+    const writes: string[] = [];
+    const client = {
+        client: {
+            request: async (_query: string, { ids }: { ids: string[] }) => ({
+                issues: { nodes: issues.filter(issue => ids.includes(issue.id)) }
+            })
+        },
+        archiveIssue: async (id: string) => writes.push(`archive ${id}`),
+        updateIssue: async (id: string, input: object) => writes.push(`update ${id} ${JSON.stringify(input)}`)
+    } as unknown as LinearClient;
+    return { client, writes };
+}
+
+const runIssue = (linearId: string, fields: Partial<RunIssue>): RunIssue => ({
+    action: 'updated',
+    githubUrl: `https://github.com/acme/app/issues/${linearId}`,
+    linearId,
+    linearIdentifier: `ENG-${linearId}`,
+    changes: [],
+    ...fields
+});
+
+const run = (issues: RunIssue[], fields: Partial<SyncRunRecord> = {}): SyncRunRecord => ({
+    id: '20240801T090000-ab12',
+    command: 'sync',
+    startedAt: '2024-08-01T09:00:00.000Z',
+    finishedAt: '2024-08-01T09:01:00.000Z',
+    options: {},
+    issues,
+    cursors: [],
+    ...fields
+});
+
+function linkedStore(...linearIds: string[]) {
+    const store = new LinkStore('/dev/null');
+    for (const id of linearIds) {
+        store.set({ githubNodeId: `I_${id}`, githubUrl: `https://github.com/acme/app/issues/${id}`, linearId: id });
+    }
+    return store;
+}
+
+describe('undoRun', () => {
+    test('archives created issues and restores updated ones, unless edited since', async () => {
+        const { client, writes } = fakeLinear([
+            snapshot('1'),
+            snapshot('2', { title: 'Synced title' }),
+            snapshot('3', { title: 'Edited in Linear' })
+        ]);
+        const store = linkedStore('1', '2', '3');
+        const updated = { before: { title: 'Old title' }, after: { title: 'Synced title' } };
+
+        const results = await undoRun(client, run([
+            runIssue('1', { action: 'created', after: { title: 'Issue 1' } }),
+            runIssue('2', updated),
+            runIssue('3', updated),
+            runIssue('4', updated),
+            runIssue('5', { action: 'skipped' })
+        ]), store);
+
+        expect(results.archived).toEqual(['ENG-1']);
+        expect(results.restored).toEqual(['ENG-2']);
+        expect(results.skipped).toEqual([
+            { identifier: 'ENG-3', reason: 'Edited since the run: title' },
+            { identifier: 'ENG-4', reason: 'Deleted in Linear' }
+        ]);
+        expect(writes).toEqual(['archive 1', 'update 2 {"title":"Old title"}']);
+        // Unlinked, so the next sync creates the issue again
+        expect(store.findByLinearId('1')).toBeUndefined();
+        expect(store.findByLinearId('2')?.linearHash).toBeDefined();
+    });
+
+    test('puts back the cursors a later run did not move', async () => {
+        const { client } = fakeLinear([]);
+        const store = linkedStore();
+        store.setCursor('acme/app', '2024-08-01T09:00:00.000Z');
+        store.setCursor('acme/api', '2024-08-02T09:00:00.000Z');
+
+        await undoRun(client, run([], {
+            cursors: [
+                { repo: 'acme/app', before: '2024-07-01T09:00:00.000Z', after: '2024-08-01T09:00:00.000Z' },
+                { repo: 'acme/api', before: '2024-07-01T09:00:00.000Z', after: '2024-08-01T09:00:00.000Z' }
+            ]
+        }), store);
+
+        expect(store.getCursor('acme/app')).toBe('2024-07-01T09:00:00.000Z');
+        expect(store.getCursor('acme/api')).toBe('2024-08-02T09:00:00.000Z');
+    });
+
+    test('writes nothing in a dry run', async () => {
+        const { client, writes } = fakeLinear([snapshot('1')]);
+        const store = linkedStore('1');
+
+        const results = await undoRun(client, run([runIssue('1', { action: 'created', after: { title: 'Issue 1' } })]), store, { dryRun: true });
+
+        expect(results.archived).toEqual(['ENG-1']);
+        expect(writes).toEqual([]);
+        expect(store.findByLinearId('1')).toBeDefined();
+    });
+});
+
+describe('undoJournaledRun', () => {
+    let dir: string;
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    test('marks the run undone, and refuses to undo it twice', async () => {
+        dir = mkdtempSync(join(tmpdir(), 'runs-'));
+        const journal = new RunJournal(dir);
+        journal.save(run([]));
+        const { client } = fakeLinear([]);
+
+        const { run: undone } = await undoJournaledRun(client, journal, '20240801', linkedStore());
+
+        expect(undone.id).toBe('20240801T090000-ab12');
+        expect(journal.find(undone.id)?.undoneAt).toBeDefined();
+        await expect(undoJournaledRun(client, journal, undone.id, linkedStore())).rejects.toThrow(SyncError);
+        await expect(undoJournaledRun(client, journal, 'unknown', linkedStore())).rejects.toThrow(NotFoundError);
+    });
+});
@@ -0,0 +1,289 @@
+import {randomBytes} from 'node:crypto';
+import {existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync} from 'node:fs';
+import {join} from 'node:path';
+import type {LinearClient} from '@linear/sdk';
+import type {IssueUpdateInput} from '@linear/sdk/dist/_generated_documents';
+import {hashLinearIssue, type SyncResult} from '../api/linear';
+import {NotFoundError, SyncError} from '../errors';
+import {fetchIssueSnapshots, type FieldChange, type LinearIssueSnapshot} from './plan';
+import type {LinkStore} from './store';
+
+export const DEFAULT_JOURNAL_DIR = '.github-linear-sync/runs';
+
+// The Linear fields a run can write and undo can put back, as they are sent to Linear
+export type IssueFields = Pick<
+    IssueUpdateInput,
+    'title' | 'description' | 'teamId' | 'stateId' | 'projectId' | 'assigneeId' | 'priority' | 'labelIds' | 'cycleId' | 'projectMilestoneId' | 'parentId'
+>;
+
+const RESTORABLE_FIELDS: Partial<Record<FieldChange['field'], (issue: LinearIssueSnapshot) => IssueFields>> = {
+    title: issue => ({ title: issue.title }),
+    description: issue => ({ description: issue.description ?? null }),
+    team: issue => ({ teamId: issue.team.id }),
+    state: issue => ({ stateId: issue.state?.id ?? null }),
+    project: issue => ({ projectId: issue.project?.id ?? null }),
+    assignee: issue => ({ assigneeId: issue.assignee?.id ?? null }),
+    priority: issue => ({ priority: issue.priority }),
+    labels: issue => ({ labelIds: issue.labels.nodes.map(label => label.id).sort() }),
+    cycle: issue => ({ cycleId: issue.cycle?.id ?? null }),
+    milestone: issue => ({ projectMilestoneId: issue.projectMilestone?.id ?? null }),
+    parent: issue => ({ parentId: issue.parent?.id ?? null })
+};
+
+/**
+ * The values of some fields of an issue, every restorable field by default.
+ * Lifecycle comments and labels aren't fields and are left out.
+ */
+export const issueFields = (
+    issue: LinearIssueSnapshot,
+    fields = Object.keys(RESTORABLE_FIELDS) as FieldChange['field'][]
+): IssueFields => Object.assign({}, ...fields.map(field => RESTORABLE_FIELDS[field]?.(issue)));
+
+export interface RunIssue {
+    action: SyncResult['action'];
+    githubUrl: string;
+    linearId?: string;
+    linearIdentifier?: string;
+    // Why the issue was skipped or failed
+    message?: string;
+    changes: FieldChange[];
+    // Values of the changed fields before an update
+    before?: IssueFields;
+    // Values of the written fields as Linear stored them, to tell later edits apart
+    after?: IssueFields;
+}
+
+/**
+ * One `sync` or `sync apply` that wrote to Linear, with what it did to each
+ * issue so it can be undone
+ */
+export interface SyncRunRecord {
+    id: string;
+    command: 'sync' | 'sync apply';
+    startedAt: string;
+    finishedAt: string;
+    options: Record<string, unknown>;
+    issues: RunIssue[];
+    // Per repository, the sync cursor before and after the run
+    cursors: Array<{ repo: string; before?: string; after?: string }>;
+    undoneAt?: string;
+}
+
+// Sortable by time, e.g. 20261019T142301-3f9a
+export const createRunId = (date = new Date()) =>
+    `${date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '')}-${randomBytes(2).toString('hex')}`;
+
+/**
+ * Directory of run records, one JSON file per run
+ */
+export class RunJournal {
+    constructor(readonly dir: string = DEFAULT_JOURNAL_DIR) {}
+
+    save(run: SyncRunRecord) {
+        mkdirSync(this.dir, { recursive: true });
+        writeFileSync(join(this.dir, `${run.id}.json`), JSON.stringify(run, null, 2));
+    }
+
+    // Newest first
+    list(): SyncRunRecord[] {
+        if (!existsSync(this.dir)) {
+            return [];
+        }
+        return readdirSync(this.dir)
+            .filter(file => file.endsWith('.json'))
+            .sort()
+            .reverse()
+            .map(file => JSON.parse(readFileSync(join(this.dir, file), 'utf8')) as SyncRunRecord);
+    }
+
+    /**
+     * @param id - The run ID or a prefix only it starts with
+     * @returns the run, undefined when no single run matches
+     */
+    find(id: string): SyncRunRecord | undefined {
+        const matches = this.list().filter(run => run.id.startsWith(id));
+        return matches.length === 1 ? matches[0] : matches.find(run => run.id === id);
+    }
+}
+
+/**
+ * Builds the record of a run from its results. `before` holds the Linear
+ * issues as they were planned against; the written issues are fetched again
+ * to record what Linear stored.
+ */
+export async function recordRun(
+    client: LinearClient,
+    {
+        command,
+        options,
+        startedAt,
+        results,
+        before,
+        cursors
+    }: Pick<SyncRunRecord, 'command' | 'options' | 'cursors'> & {
+        startedAt: Date;
+        results: SyncResult[];
+        before: Map<string, LinearIssueSnapshot>;
+    }
+): Promise<SyncRunRecord> {
+    const written = results.filter(result => result.action === 'created' || result.action === 'updated');
+    const after = await fetchIssueSnapshots(client, written.map(result => result.plan!.linearIssue!.id));
+
+    const issues = results.map((result): RunIssue => {
+        const linearId = result.plan?.linearIssue?.id;
+        const changes = result.plan?.changes ?? [];
+        const issue: RunIssue = {
+            action: result.action,
+            githubUrl: result.githubUrl,
+            linearId,
+            linearIdentifier: result.linearIdentifier,
+            message: result.message,
+            changes
+        };
+        const stored = linearId ? after.get(linearId) : undefined;
+        const previous = linearId ? before.get(linearId) : undefined;
+        if (result.action === 'created' && stored) {
+            issue.after = issueFields(stored);
+        } else if (result.action === 'updated' && stored && previous) {
+            const fields = changes.map(change => change.field);
+            issue.before = issueFields(previous, fields);
+            issue.after = issueFields(stored, fields);
+        }
+        return issue;
+    });
+
+    return {
+        id: createRunId(startedAt),
+        command,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        options,
+        issues,
+        cursors
+    };
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Fields whose current value isn't the one the run wrote
+const editedFields = (recorded: IssueFields, current: IssueFields) =>
+    (Object.keys(recorded) as Array<keyof IssueFields>).filter(key => !sameValue(recorded[key], current[key]));
+
+export interface UndoResults {
+    archived: string[];
+    restored: string[];
+    skipped: Array<{ identifier: string; reason: string }>;
+    failed: Array<{
+        identifier: string;
+        error: unknown;
+        message: string;
+    }>;
+}
+
+/**
+ * Undoes a run: archives the Linear issues it created and puts back the
+ * previous values of the issues it updated. Issues edited since, in any field
+ * the run wrote, are left alone. Sync cursors the run moved go back unless a
+ * later run moved them further.
+ */
+export async function undoRun(
+    client: LinearClient,
+    run: SyncRunRecord,
+    store: LinkStore,
+    { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<UndoResults> {
+    const results: UndoResults = { archived: [], restored: [], skipped: [], failed: [] };
+    const undoable = run.issues.filter(issue => issue.linearId && issue.after);
+    const current = await fetchIssueSnapshots(client, undoable.map(issue => issue.linearId!));
+
+    // Sequential on purpose: each write is followed by a link update in the store
+    for (const issue of undoable) {
+        const identifier = issue.linearIdentifier ?? issue.githubUrl;
+        const snapshot = current.get(issue.linearId!);
+        if (!snapshot) {
+            results.skipped.push({ identifier, reason: 'Deleted in Linear' });
+            continue;
+        }
+        const edited = editedFields(issue.after!, issueFields(snapshot));
+        if (edited.length) {
+            results.skipped.push({ identifier, reason: `Edited since the run: ${edited.join(', ')}` });
+            continue;
+        }
+
+        try {
+            const link = store.findByLinearId(issue.linearId!);
+            if (issue.action === 'created') {
+                if (!dryRun) {
+                    await client.archiveIssue(issue.linearId!);
+                    // Unlinked, so the next sync can create the issue again
+                    if (link) {
+                        store.delete(link.githubNodeId);
+                    }
+                }
+                results.archived.push(identifier);
+            } else {
+                if (!dryRun) {
+                    await client.updateIssue(issue.linearId!, issue.before!);
+                    if (link) {
+                        const before = issue.before!;
+                        const restored = {
+                            title: before.title ?? snapshot.title,
+                            description: 'description' in before ? before.description ?? undefined : snapshot.description
+                        };
+                        // The restored values aren't Linear edits to push back to GitHub
+                        store.set({ ...link, linearHash: hashLinearIssue(restored, before.stateId ?? snapshot.state?.id) });
+                    }
+                }
+                results.restored.push(identifier);
+            }
+        } catch (error) {
+            results.failed.push({
+                identifier,
+                error,
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    if (!dryRun) {
+        for (const { repo, before, after } of run.cursors) {
+            if (store.getCursor(repo) === after) {
+                if (before) {
+                    store.setCursor(repo, before);
+                } else {
+                    store.deleteCursor(repo);
+                }
+            }
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Undoes a run of the journal and marks it undone
+ * @throws {NotFoundError} when no single run matches `id`
+ * @throws {SyncError} when the run was undone before
+ */
+export async function undoJournaledRun(
+    client: LinearClient,
+    journal: RunJournal,
+    id: string,
+    store: LinkStore,
+    { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<{ run: SyncRunRecord; results: UndoResults }> {
+    const run = journal.find(id);
+    if (!run) {
+        throw new NotFoundError(`No run found matching: ${id}`);
+    }
+    if (run.undoneAt) {
+        throw new SyncError(`Run ${run.id} was already undone at ${run.undoneAt}`);
+    }
+
+    const results = await undoRun(client, run, store, { dryRun });
+    if (!dryRun) {
+        store.save();
+        journal.save({ ...run, undoneAt: new Date().toISOString() });
+    }
+    return { run, results };
+}
@@ -0,0 +1,78 @@
+import {describe, expect, test} from 'bun:test';
+import type {Octokit} from '@octokit/rest';
+import type {GithubIssue} from '../api/linear';
+import {classifyGithubIssue} from './lifecycle';
+
+const ISSUE_URL = 'https://github.com/acme/app/issues/12';
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// GitHub answering the issue lookup with `issue`, knowing `discussionUrl` by the issue's number
+function fakeGithub({ issue, discussionUrl, repo = async () => ({ data: {} }) }: {
+    issue: () => Promise<unknown>;
+    discussionUrl?: string;
+    repo?: () => Promise<unknown>;
+}) {
+    return {
+        issues: { get: async () => ({ data: await issue() }) },
+        repos: { get: repo },
+        graphql: async () => ({ repository: { discussion: discussionUrl ? { url: discussionUrl } : null } })
+    } as unknown as Octokit;
+}
+
+const githubIssue = (fields: Record<string, unknown> = {}) =>
+    ({ html_url: ISSUE_URL, locked: false, ...fields }) as unknown as GithubIssue;
+
+describe('classifyGithubIssue', () => {
+    test('finds active and locked issues', async () => {
+        expect(await classifyGithubIssue(fakeGithub({ issue: async () => githubIssue() }), ISSUE_URL))
+            .toMatchObject({ outcome: 'active' });
+        expect(await classifyGithubIssue(fakeGithub({ issue: async () => githubIssue({ locked: true }) }), ISSUE_URL))
+            .toMatchObject({ outcome: 'locked' });
+    });
+
+    test('finds deleted issues by a 410, or a 404 in a readable repository', async () => {
+        const gone = fakeGithub({
+            issue: async () => { throw httpError(410, 'This issue was deleted'); },
+            repo: async () => { throw httpError(404, 'Not Found'); }
+        });
+        const missing = fakeGithub({ issue: async () => { throw httpError(404, 'Not Found'); } });
+
+        expect(await classifyGithubIssue(gone, ISSUE_URL)).toEqual({ outcome: 'deleted' });
+        expect(await classifyGithubIssue(missing, ISSUE_URL)).toEqual({ outcome: 'deleted' });
+    });
+
+    test('does not take a 404 of an inaccessible repository for a deletion', async () => {
+        const inaccessible = fakeGithub({
+            issue: async () => { throw httpError(404, 'Not Found'); },
+            repo: async () => { throw httpError(404, 'Not Found'); }
+        });
+
+        await expect(classifyGithubIssue(inaccessible, ISSUE_URL)).rejects.toThrow('acme/app is not accessible');
+    });
+
+    test('throws on other errors, such as rate limits', async () => {
+        const limited = fakeGithub({ issue: async () => { throw httpError(403, 'API rate limit exceeded'); } });
+
+        await expect(classifyGithubIssue(limited, ISSUE_URL)).rejects.toThrow(`Could not check ${ISSUE_URL}: API rate limit exceeded`);
+    });
+
+    test('finds issues moved to another repository', async () => {
+        const moved = githubIssue({ node_id: 'I_new', html_url: 'https://github.com/acme/api/issues/3' });
+
+        expect(await classifyGithubIssue(fakeGithub({ issue: async () => moved }), ISSUE_URL)).toEqual({
+            outcome: 'transferred',
+            issue: moved,
+            previousUrl: ISSUE_URL
+        });
+    });
+
+    test('finds issues converted to a discussion', async () => {
+        const discussionUrl = 'https://github.com/acme/app/discussions/12';
+        const redirected = fakeGithub({ issue: async () => githubIssue({ html_url: discussionUrl }) });
+        const notFound = fakeGithub({ issue: async () => { throw httpError(404, 'Not Found'); }, discussionUrl });
+
+        expect(await classifyGithubIssue(redirected, ISSUE_URL)).toEqual({ outcome: 'converted', discussionUrl });
+        expect(await classifyGithubIssue(notFound, ISSUE_URL)).toEqual({ outcome: 'converted', discussionUrl });
+    });
+});
@@ -0,0 +1,199 @@
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {fetchAllNodes, parseGithubIssueUrl, type GithubIssue} from '../api/linear';
+import type {SyncCache} from './cache';
+import {resolveWorkflowState} from './states';
+
+// What can happen to a GitHub issue after it was synced, besides edits
+export const GITHUB_ISSUE_OUTCOMES = ['deleted', 'transferred', 'locked', 'converted'] as const;
+export type GithubIssueOutcome = typeof GITHUB_ISSUE_OUTCOMES[number];
+
+export type GithubIssueLifecycle =
+    | { outcome: 'active' | 'locked'; issue: GithubIssue }
+    // `issue` is the issue at its new location
+    | { outcome: 'transferred'; issue: GithubIssue; previousUrl: string }
+    | { outcome: 'converted'; discussionUrl: string }
+    | { outcome: 'deleted' };
+
+export const LIFECYCLE_ACTIONS = ['comment', 'label', 'cancel'] as const;
+export type LifecycleAction = typeof LIFECYCLE_ACTIONS[number];
+
+/**
+ * What is done to the Linear issue when its GitHub issue is deleted,
+ * transferred, locked or converted to a discussion. An empty list leaves
+ * the Linear issue alone. Transferred issues are always relinked.
+ */
+export type LifecycleConfig = Partial<Record<GithubIssueOutcome, LifecycleAction[]>>;
+
+export const DEFAULT_LIFECYCLE_ACTIONS: Record<GithubIssueOutcome, LifecycleAction[]> = {
+    deleted: ['comment', 'cancel'],
+    transferred: ['comment'],
+    locked: [],
+    converted: ['comment', 'cancel']
+};
+
+export const lifecycleActions = (config: LifecycleConfig | undefined, outcome: GithubIssueOutcome) =>
+    config?.[outcome] ?? DEFAULT_LIFECYCLE_ACTIONS[outcome];
+
+const LIFECYCLE_LABELS: Record<GithubIssueOutcome, string> = {
+    deleted: 'GitHub: deleted',
+    transferred: 'GitHub: transferred',
+    locked: 'GitHub: locked',
+    converted: 'GitHub: discussion'
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Issues and discussions share their numbers, so a converted issue's number now names a discussion
+async function findDiscussion(octokit: Octokit, owner: string, repo: string, number: number) {
+    try {
+        const { repository } = await octokit.graphql<{ repository: { discussion: { url: string } | null } | null }>(
+            `query($owner: String!, $repo: String!, $number: Int!) {
+                repository(owner: $owner, name: $repo) { discussion(number: $number) { url } }
+            }`,
+            { owner, repo, number }
+        );
+        return repository?.discussion?.url;
+    } catch {
+        // No such discussion, or discussions are disabled
+        return undefined;
+    }
+}
+
+const lifecycleOf = (issue: GithubIssue): GithubIssueLifecycle =>
+    issue.locked ? { outcome: 'locked', issue } : { outcome: 'active', issue };
+
+/**
+ * Works out what happened to a GitHub issue from its issue URL. Only answers
+ * GitHub gives about the issue itself count: a 404 of a repository that is no
+ * longer accessible, rate limits and network errors throw instead, so they
+ * never change anything in Linear.
+ * @throws when the issue's fate can't be determined
+ */
+export async function classifyGithubIssue(octokit: Octokit, issueUrl: string): Promise<GithubIssueLifecycle> {
+    const url = parseGithubIssueUrl(issueUrl);
+    if (!url) {
+        throw new Error(`Not a GitHub issue URL: ${issueUrl}`);
+    }
+    const { owner, repo, number } = url;
+
+    let issue: GithubIssue;
+    try {
+        // Requests for transferred issues are redirected, which Octokit follows
+        ({ data: issue } = await octokit.issues.get({ owner, repo, issue_number: number }));
+    } catch (error) {
+        const status = (error as { status?: number }).status;
+        if (status !== 404 && status !== 410) {
+            throw new Error(`Could not check ${issueUrl}: ${errorMessage(error)}`, { cause: error });
+        }
+
+        const discussionUrl = await findDiscussion(octokit, owner, repo, number);
+        if (discussionUrl) {
+            return { outcome: 'converted', discussionUrl };
+        }
+
+        // 410 means deleted, but a 404 is also what a repository we lost access to looks like
+        if (status === 404) {
+            try {
+                await octokit.repos.get({ owner, repo });
+            } catch (repoError) {
+                throw new Error(`Could not check ${issueUrl}, ${owner}/${repo} is not accessible: ${errorMessage(repoError)}`, {
+                    cause: repoError
+                });
+            }
+        }
+        return { outcome: 'deleted' };
+    }
+
+    if (issue.html_url.includes('/discussions/')) {
+        return { outcome: 'converted', discussionUrl: issue.html_url };
+    }
+    return detectTransfer(issue, issueUrl);
+}
+
+/**
+ * An issue found at another URL than the one it was linked with was moved to
+ * another repository, or its repository was renamed
+ */
+export function detectTransfer(issue: GithubIssue, linkedUrl: string | undefined): GithubIssueLifecycle {
+    if (linkedUrl && issue.html_url.toLowerCase() !== linkedUrl.toLowerCase()) {
+        return { outcome: 'transferred', issue, previousUrl: linkedUrl };
+    }
+    return lifecycleOf(issue);
+}
+
+function describeOutcome(lifecycle: GithubIssueLifecycle, githubUrl: string) {
+    switch (lifecycle.outcome) {
+        case 'deleted':
+            return `⚠️ The GitHub issue ${githubUrl} was deleted.`;
+        case 'transferred':
+            return `↪️ The GitHub issue moved from ${lifecycle.previousUrl} to ${lifecycle.issue.html_url}.`;
+        case 'locked':
+            return `🔒 The GitHub issue ${githubUrl} was locked${lifecycle.issue.active_lock_reason ? ` as ${lifecycle.issue.active_lock_reason}` : ''}.`;
+        case 'converted':
+            return `💬 The GitHub issue ${githubUrl} was converted to a discussion: ${lifecycle.discussionUrl}`;
+        case 'active':
+            return '';
+    }
+}
+
+// The state a `cancel` action moves the Linear issue to
+export async function canceledStateId(cache: SyncCache, teamId: string) {
+    const state = resolveWorkflowState(await cache.workflowStates(teamId), { name: 'Canceled', type: 'canceled' });
+    if (!state) {
+        throw new Error('Linear team has no canceled workflow state');
+    }
+    return state.id;
+}
+
+/**
+ * Runs the comment and label actions of a lifecycle outcome on the Linear
+ * issue, returning the ID of the comment. Canceling is part of the planned
+ * issue update instead.
+ */
+export async function applyLifecycleActions(
+    client: LinearClient,
+    cache: SyncCache,
+    linearIssueId: string,
+    teamId: string,
+    lifecycle: GithubIssueLifecycle,
+    githubUrl: string,
+    actions: LifecycleAction[]
+): Promise<string | undefined> {
+    if (lifecycle.outcome === 'active') {
+        return undefined;
+    }
+
+    let commentId: string | undefined;
+    if (actions.includes('comment')) {
+        const payload = await client.createComment({ issueId: linearIssueId, body: describeOutcome(lifecycle, githubUrl) });
+        commentId = (await payload.comment)?.id;
+    }
+
+    if (actions.includes('label')) {
+        await addIssueLabel(client, cache, linearIssueId, teamId, LIFECYCLE_LABELS[lifecycle.outcome]);
+    }
+    return commentId;
+}
+
+// Adds a label of the team to an issue, creating the label when the team has none of that name
+export async function addIssueLabel(client: LinearClient, cache: SyncCache, linearIssueId: string, teamId: string, name: string) {
+    const label = await cache.get(`label:${teamId}::${name.toLowerCase()}`, async () =>
+        (await cache.labels(teamId)).find(l => !l.isGroup && l.name.toLowerCase() === name.toLowerCase())
+            ?? await (await client.createIssueLabel({ name, teamId })).issueLabel
+    );
+    const issue = await client.issue(linearIssueId);
+    const labelIds = (await fetchAllNodes(issue.labels())).map(l => l.id);
+    if (label && !labelIds.includes(label.id)) {
+        await client.updateIssue(linearIssueId, { labelIds: [...labelIds, label.id] });
+    }
+}
+
+// Drops the attachment of the issue's old URL after a transfer
+export async function removeGithubAttachment(client: LinearClient, linearIssueId: string, githubUrl: string) {
+    const issue = await client.issue(linearIssueId);
+    const attachments = await fetchAllNodes(issue.attachments());
+    for (const attachment of attachments.filter(a => a.url.toLowerCase() === githubUrl.toLowerCase())) {
+        await client.deleteAttachment(attachment.id);
+    }
+}
@@ -0,0 +1,68 @@
+import {describe, expect, test} from 'bun:test';
+import type {User} from '@linear/sdk';
+import {githubToLinearMarkdown, linearToGithubMarkdown, type GithubMarkdownContext, type LinearMarkdownContext} from './markdown';
+
+const IMAGE_URL = 'https://github.com/user-attachments/assets/1a2b3c';
+const ASSET_URL = 'https://uploads.linear.app/acme/1a2b3c';
+const OCTOCAT_PROFILE = 'https://linear.app/acme/profiles/octocat';
+
+// acme/app#1 is linked to ENG-1, @octocat is a Linear user and the image was uploaded
+const githubContext: GithubMarkdownContext = {
+    repo: 'acme/app',
+    linearIssueUrl: async githubUrl =>
+        githubUrl === 'https://github.com/acme/app/issues/1' ? 'https://linear.app/acme/issue/ENG-1/title' : undefined,
+    linearUser: async login => login === 'octocat' ? { url: OCTOCAT_PROFILE } as User : undefined,
+    image: async url => url === IMAGE_URL ? ASSET_URL : undefined
+};
+
+const linearContext: LinearMarkdownContext = {
+    repo: 'acme/app',
+    githubIssueUrl: identifier => identifier === 'ENG-1' ? 'https://github.com/acme/app/issues/1' : undefined,
+    githubLogin: async url => url === OCTOCAT_PROFILE ? 'octocat' : undefined,
+    image: url => url === ASSET_URL ? IMAGE_URL : undefined
+};
+
+describe('githubToLinearMarkdown', () => {
+    test('links references and mentions', async () => {
+        const markdown = await githubToLinearMarkdown('See #1 and acme/api#2, thanks @octocat and @hubot', githubContext);
+
+        expect(markdown).toBe(
+            'See https://linear.app/acme/issue/ENG-1/title and [acme/api#2](https://github.com/acme/api/issues/2), ' +
+            `thanks [@octocat](${OCTOCAT_PROFILE}) and [@hubot](https://github.com/hubot)`
+        );
+    });
+
+    test('leaves code, links and URLs alone', async () => {
+        const text = 'Run `fix #1`, see [#1](https://example.com) or https://example.com/#1\n```\n@octocat #1\n```';
+
+        expect(await githubToLinearMarkdown(text, githubContext)).toBe(text);
+    });
+
+    test('converts details, HTML images and GitHub images', async () => {
+        const text = `<details><summary><b>Logs</b></summary>\n\nStack\n</details>\n<img src="${IMAGE_URL}" alt="Screenshot">`;
+
+        expect(await githubToLinearMarkdown(text, githubContext)).toBe(`+++ Logs\n\nStack\n\n+++\n![Screenshot](${ASSET_URL})`);
+    });
+
+    test('unwraps tasklist blocks', async () => {
+        expect(await githubToLinearMarkdown('```[tasklist]\n* [X] Done\n```', githubContext)).toBe('- [x] Done');
+    });
+});
+
+describe('linearToGithubMarkdown', () => {
+    test('undoes the conversion to Linear', async () => {
+        const text = 'See #1 and acme/api#2, thanks @octocat and @hubot\n<details>\n<summary>Logs</summary>\n\nStack\n\n</details>\n' +
+            `![Screenshot](${IMAGE_URL})`;
+
+        const linear = await githubToLinearMarkdown(text, githubContext);
+        expect(await linearToGithubMarkdown(linear, linearContext)).toBe(text);
+    });
+
+    test('points links to linked Linear issues at GitHub', async () => {
+        const text = 'Fixed in [ENG-1](https://linear.app/acme/issue/ENG-1/title), not ENG-2: https://linear.app/acme/issue/ENG-2';
+
+        expect(await linearToGithubMarkdown(text, linearContext)).toBe(
+            'Fixed in [ENG-1](https://github.com/acme/app/issues/1), not ENG-2: https://linear.app/acme/issue/ENG-2'
+        );
+    });
+});
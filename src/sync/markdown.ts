@@ -0,0 +1,284 @@
+import type {LinearClient, User} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import type {SyncCache} from './cache';
+import {findLinearUser, findLinearUserForLogin, type FieldMapping} from './fields';
+import type {LinkStore} from './store';
+
+/**
+ * What converting GitHub Markdown to Linear needs to know. Images are
+ * resolved by the caller, so planning can convert without uploading.
+ */
+export interface GithubMarkdownContext {
+    // Repository the text was written in, 'owner/repo', which short #123 references point into
+    repo: string;
+    // URL of the Linear issue linked to a GitHub issue URL
+    linearIssueUrl: (githubUrl: string) => Promise<string | undefined>;
+    linearUser: (login: string) => Promise<User | undefined>;
+    // Linear URL of a GitHub-hosted image, undefined keeps the GitHub URL
+    image: (url: string) => Promise<string | undefined>;
+}
+
+export interface LinearMarkdownContext {
+    // Repository the text is written to, 'owner/repo'
+    repo: string;
+    // URL of the GitHub issue linked to a Linear issue identifier
+    githubIssueUrl: (identifier: string) => string | undefined;
+    // GitHub login of a Linear profile URL
+    githubLogin: (profileUrl: string) => Promise<string | undefined>;
+    // GitHub URL a Linear image was uploaded from
+    image: (url: string) => string | undefined;
+}
+
+// Fenced code blocks and inline code, which are never converted
+const CODE = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]+`)/g;
+// Code, links, HTML tags and bare URLs, whose text must not turn into links itself
+const CODE_AND_LINKS = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]+`|!?\[[^\]\n]*\]\([^)\s]*(?:\s+"[^"\n]*")?\)|<[^>\n]+>|https?:\/\/[^\s<>)]+)/g;
+
+// Images uploaded to GitHub issues, most of them only readable with GitHub credentials
+const GITHUB_IMAGE = /^https:\/\/(?:github\.com\/(?:user-attachments\/assets|[\w.-]+\/[\w.-]+\/assets)\/|(?:private-)?user-images\.githubusercontent\.com\/)/i;
+
+const IMAGE = /!\[([^\]\n]*)\]\(([^)\s]+)((?:\s+"[^"\n]*")?)\)/g;
+const IMAGE_TAG = /<img\b[^>]*>/gi;
+// Innermost first, so nested blocks are converted from the inside out
+const DETAILS = /<details\b[^>]*>\s*(?:<summary>([\s\S]*?)<\/summary>)?((?:(?!<details\b)[\s\S])*?)<\/details>/gi;
+// GitHub's ```[tasklist] blocks hold a plain task list
+const TASKLIST_BLOCK = /^```\[tasklist\]\n([\s\S]*?)\n```$/gm;
+const TASK_ITEM = /^(\s*)[*+-] \[([ xX])\]/gm;
+const REFERENCE = /(?<![\w/.&#-])(?:([\w.-]+)\/([\w.-]+))?#(\d+)\b/g;
+const MENTION = /(?<![\w/.`@-])@([a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38})(?![\w/-])/gi;
+
+// Linear's collapsible sections, `+++ Title` up to a closing `+++`
+const COLLAPSIBLE = /^\+\+\+ (.*)\n([\s\S]*?)\n\+\+\+$/gm;
+const LINEAR_ISSUE_URL = /https:\/\/linear\.app\/[\w-]+\/issue\/([a-z][a-z\d]*-\d+)(?:\/[\w-]*)?/i;
+const LINEAR_PROFILE_URL = /^https:\/\/linear\.app\/[\w-]+\/profiles\/[\w.-]+$/i;
+const GITHUB_ISSUE_URL = /^https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/(?:issues|pull)\/(\d+)$/i;
+const LINK = /(!?)\[([^\]\n]*)\]\(([^)\s]+)\)/g;
+const BARE_URL = /(?<![(<\w])https:\/\/linear\.app\/[^\s<>)]+/g;
+
+async function replaceAsync(
+    text: string,
+    pattern: RegExp,
+    replace: (match: RegExpMatchArray) => Promise<string> | string
+): Promise<string> {
+    const matches = [...text.matchAll(pattern)];
+    const replacements = await Promise.all(matches.map(replace));
+    let result = '';
+    let last = 0;
+    matches.forEach((match, i) => {
+        result += text.slice(last, match.index) + replacements[i];
+        last = match.index! + match[0].length;
+    });
+    return result + text.slice(last);
+}
+
+// Converts the parts of `text` outside what `protect` matches
+async function convertOutside(text: string, protect: RegExp, convert: (text: string) => Promise<string>) {
+    const parts = text.split(protect);
+    // Split keeps the protected matches at odd indexes
+    return (await Promise.all(parts.map((part, i) => i % 2 ? part : convert(part)))).join('');
+}
+
+const attribute = (tag: string, name: string) =>
+    tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))?.slice(1).find(v => v !== undefined);
+
+// `#12` in its own repository, `owner/repo#12` elsewhere
+function shortReference(githubUrl: string, repo: string) {
+    const match = githubUrl.match(GITHUB_ISSUE_URL);
+    if (!match) {
+        return undefined;
+    }
+    const [, owner, name, number] = match;
+    return `${owner}/${name}`.toLowerCase() === repo.toLowerCase() ? `#${number}` : `${owner}/${name}#${number}`;
+}
+
+/**
+ * Converts GitHub Flavored Markdown to what Linear renders: issue references
+ * become links, to the linked Linear issue when there is one, mentions link
+ * to the Linear user or GitHub profile, `<details>` become collapsible
+ * sections and HTML images Markdown ones. Code is left as is.
+ */
+export async function githubToLinearMarkdown(text: string, context: GithubMarkdownContext): Promise<string> {
+    const [owner, repo] = context.repo.split('/');
+    text = text.replace(/\r\n/g, '\n').replace(TASKLIST_BLOCK, '$1');
+
+    return convertOutside(text, CODE, async part => {
+        part = part.replace(IMAGE_TAG, tag => {
+            const src = attribute(tag, 'src');
+            return src ? `![${attribute(tag, 'alt') ?? ''}](${src})` : tag;
+        });
+        for (let previous = ''; previous !== part;) {
+            previous = part;
+            part = part.replace(DETAILS, (_, summary: string | undefined, content: string) =>
+                `+++ ${summary?.replace(/<[^>]+>/g, '').trim() || 'Details'}\n\n${content.trim()}\n\n+++`
+            );
+        }
+        part = part.replace(TASK_ITEM, (_, indent: string, checked: string) => `${indent}- [${checked.toLowerCase()}]`);
+        part = await replaceAsync(part, IMAGE, async ([match, alt, url, title]) =>
+            GITHUB_IMAGE.test(url) ? `![${alt}](${await context.image(url) ?? url}${title})` : match
+        );
+
+        return convertOutside(part, CODE_AND_LINKS, async prose => {
+            prose = await replaceAsync(prose, REFERENCE, async ([match, refOwner, refRepo, number]) => {
+                const githubUrl = `https://github.com/${refOwner ?? owner}/${refRepo ?? repo}/issues/${number}`;
+                // Linear shows links to its issues as the issue itself
+                return await context.linearIssueUrl(githubUrl) ?? `[${match}](${githubUrl})`;
+            });
+            return replaceAsync(prose, MENTION, async ([match, login]) => {
+                const user = await context.linearUser(login);
+                return `[${match}](${user?.url ?? `https://github.com/${login}`})`;
+            });
+        });
+    });
+}
+
+/**
+ * Converts Linear Markdown for GitHub, undoing {@link githubToLinearMarkdown}:
+ * links to linked issues become references again, mentions of known users
+ * become GitHub mentions and uploaded images point back to GitHub.
+ */
+export async function linearToGithubMarkdown(text: string, context: LinearMarkdownContext): Promise<string> {
+    return convertOutside(text, CODE, async part => {
+        part = part.replace(COLLAPSIBLE, (_, summary: string, content: string) =>
+            `<details>\n<summary>${summary.trim()}</summary>\n\n${content.trim()}\n\n</details>`
+        );
+
+        part = await replaceAsync(part, LINK, async ([match, image, label, url]) => {
+            if (image) {
+                const original = context.image(url);
+                return original ? `![${label}](${original})` : match;
+            }
+            // Mentions and references written by githubToLinearMarkdown
+            if (/^@[\w-]+$/.test(label) && (LINEAR_PROFILE_URL.test(url) || url.toLowerCase() === `https://github.com/${label.slice(1).toLowerCase()}`)) {
+                return label;
+            }
+            if (/^(?:[\w.-]+\/[\w.-]+)?#\d+$/.test(label) && GITHUB_ISSUE_URL.test(url)) {
+                return shortReference(url, context.repo) ?? match;
+            }
+            const identifier = url.match(LINEAR_ISSUE_URL)?.[1];
+            const githubUrl = identifier && context.githubIssueUrl(identifier);
+            return githubUrl ? `[${label}](${githubUrl})` : match;
+        });
+
+        return replaceAsync(part, BARE_URL, async ([url]) => {
+            const identifier = url.match(LINEAR_ISSUE_URL)?.[1];
+            const githubUrl = identifier && context.githubIssueUrl(identifier);
+            if (githubUrl) {
+                return shortReference(githubUrl, context.repo) ?? githubUrl;
+            }
+            const login = LINEAR_PROFILE_URL.test(url) ? await context.githubLogin(url) : undefined;
+            return login ? `@${login}` : url;
+        });
+    });
+}
+
+// Linear asset URL of a GitHub image uploaded for any linked issue
+export const uploadedImage = (store: LinkStore, url: string) =>
+    store.all().find(link => link.images?.[url])?.images?.[url];
+
+/**
+ * Context for converting GitHub Markdown of a repository. Images are only
+ * replaced once uploaded, see {@link uploadGithubImage}.
+ */
+export function githubMarkdownContext(
+    githubClient: Octokit,
+    cache: SyncCache,
+    store: LinkStore,
+    { repo, fields, image }: {
+        repo: string;
+        fields?: FieldMapping;
+        image?: GithubMarkdownContext['image'];
+    }
+): GithubMarkdownContext {
+    return {
+        repo,
+        async linearIssueUrl(githubUrl) {
+            const identifier = store.findByGithubUrl(githubUrl)?.linearIdentifier;
+            return identifier && `https://linear.app/${(await cache.organization()).urlKey}/issue/${identifier}`;
+        },
+        // Anything looking like a mention may not be a GitHub user
+        linearUser: login => findLinearUserForLogin(cache, githubClient, login, fields ?? {}).catch(() => undefined),
+        image: image ?? (async url => uploadedImage(store, url))
+    };
+}
+
+export function linearMarkdownContext(
+    cache: SyncCache,
+    store: LinkStore,
+    { repo, fields }: { repo: string; fields?: FieldMapping }
+): LinearMarkdownContext {
+    return {
+        repo,
+        githubIssueUrl: identifier =>
+            store.all().find(link => link.linearIdentifier?.toUpperCase() === identifier.toUpperCase())?.githubUrl,
+        // Only logins listed in `fields.users` can be told from a Linear user
+        async githubLogin(profileUrl) {
+            const users = await cache.users();
+            const user = users.find(u => u.url.toLowerCase() === profileUrl.toLowerCase());
+            return user && Object.entries(fields?.users ?? {})
+                .find(([, ref]) => findLinearUser(users, ref)?.id === user.id)?.[0];
+        },
+        image: url => store.all()
+            .flatMap(link => Object.entries(link.images ?? {}))
+            .find(([, assetUrl]) => assetUrl === url)?.[0]
+    };
+}
+
+/**
+ * Copies an image hosted by GitHub to Linear's file storage, downloading it
+ * with the GitHub client's credentials
+ * @returns the Linear asset URL
+ */
+export async function uploadGithubImage(client: LinearClient, githubClient: Octokit, url: string): Promise<string> {
+    // Sent through the client so it picks the credentials, binary responses come back as an ArrayBuffer
+    const response = await githubClient.request({ method: 'GET', url, headers: { accept: '*/*' } })
+        .catch(error => {
+            throw new Error(`Could not download ${url}: ${error instanceof Error ? error.message : error}`, { cause: error });
+        });
+    const data = response.data as ArrayBuffer;
+    const contentType = response.headers['content-type'] ?? 'application/octet-stream';
+    const filename = new URL(response.url || url).pathname.split('/').pop() || 'image';
+
+    const { uploadFile } = await client.fileUpload(contentType, filename, data.byteLength);
+    if (!uploadFile) {
+        throw new Error(`Linear refused the upload of ${url}`);
+    }
+    const upload = await fetch(uploadFile.uploadUrl, {
+        method: 'PUT',
+        headers: {
+            'content-type': contentType,
+            'cache-control': 'public, max-age=31536000',
+            ...Object.fromEntries(uploadFile.headers.map(header => [header.key, header.value]))
+        },
+        body: data
+    });
+    if (!upload.ok) {
+        throw new Error(`Could not upload ${url} to Linear: ${upload.status} ${upload.statusText}`);
+    }
+    return uploadFile.assetUrl;
+}
+
+/**
+ * Converters in both directions for text synced outside of planning, e.g.
+ * comments. GitHub images are uploaded as they are found.
+ */
+export function markdownConverters(
+    client: LinearClient,
+    githubClient: Octokit,
+    cache: SyncCache,
+    store: LinkStore,
+    target: { repo: string; fields?: FieldMapping }
+) {
+    const toLinear = githubMarkdownContext(githubClient, cache, store, {
+        ...target,
+        image: url => cache.get(`image:${url}`, async () =>
+            uploadedImage(store, url) ?? await uploadGithubImage(client, githubClient, url)
+        )
+    });
+    const toGithub = linearMarkdownContext(cache, store, target);
+    return {
+        toLinear: (text: string) => githubToLinearMarkdown(text, toLinear),
+        toGithub: (text: string) => linearToGithubMarkdown(text, toGithub)
+    };
+}
+
+export type MarkdownConverters = ReturnType<typeof markdownConverters>;
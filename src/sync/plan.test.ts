@@ -0,0 +1,107 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import type {GithubIssue} from '../api/linear';
+import {SyncCache} from './cache';
+import {applySyncPlan, verifyPlan, type IssuePlan, type SyncPlan} from './plan';
+import {LinkStore} from './store';
+
+const PLANNED_AT = '2024-03-01T10:00:00.000Z';
+
+const githubIssue = {
+    node_id: 'I_1',
+    number: 1,
+    title: 'Crash on startup',
+    body: 'Body',
+    state: 'open',
+    labels: [],
+    html_url: 'https://github.com/acme/app/issues/1',
+    repository_url: 'https://api.github.com/repos/acme/app'
+} as unknown as GithubIssue;
+
+// Renames the linked ENG-1, as planned at PLANNED_AT
+const syncPlan = (): SyncPlan => ({
+    version: 1,
+    createdAt: PLANNED_AT,
+    issues: [{
+        action: 'update',
+        githubIssue,
+        githubIssueExists: true,
+        route: { repo: 'acme/app', teamId: 'team-eng', comments: 'none' },
+        linearIssue: { id: 'lin-1', identifier: 'ENG-1', updatedAt: PLANNED_AT, hash: 'hash' },
+        input: { teamId: 'team-eng', title: '[🛠️GH] acme/app#1: Crash on startup' },
+        pending: { labels: [] },
+        syncedLabels: [],
+        changes: [{ field: 'title', from: '[🛠️GH] acme/app#1: Crash on start', to: '[🛠️GH] acme/app#1: Crash on startup' }]
+    } satisfies IssuePlan]
+});
+
+// Linear holding ENG-1 as last updated at `updatedAt`, recording the issue updates
+function fakeLinear(updatedAt: string | null) {
+    const updates: object[] = [];
+    const emptyConnection = { nodes: [], pageInfo: { hasNextPage: false } };
+    const client = {
+        client: {
+            request: async () => ({
+                issues: { nodes: updatedAt ? [{ id: 'lin-1', identifier: 'ENG-1', updatedAt }] : [] }
+            })
+        },
+        issues: async () => emptyConnection,
+        issueLabels: async () => emptyConnection,
+        updateIssue: async (id: string, input: { title: string }) => {
+            updates.push(input);
+            return { issue: Promise.resolve({ id, identifier: 'ENG-1', updatedAt: new Date(), title: input.title, description: '' }) };
+        }
+    } as unknown as LinearClient;
+    return { client, updates };
+}
+
+function linkedStore() {
+    const store = new LinkStore('/dev/null');
+    store.set({ githubNodeId: 'I_1', githubUrl: githubIssue.html_url, linearId: 'lin-1', linearIdentifier: 'ENG-1' });
+    return store;
+}
+
+describe('verifyPlan', () => {
+    test('rejects a plan whose Linear issues changed since it was made', async () => {
+        const changed = fakeLinear('2024-03-01T11:00:00.000Z');
+        const deleted = fakeLinear(null);
+
+        expect(await verifyPlan(changed.client, syncPlan(), linkedStore())).toEqual([
+            'ENG-1 (https://github.com/acme/app/issues/1) changed in Linear at 2024-03-01T11:00:00.000Z'
+        ]);
+        expect(await verifyPlan(deleted.client, syncPlan(), linkedStore())).toEqual([
+            'ENG-1 (https://github.com/acme/app/issues/1) was deleted in Linear'
+        ]);
+    });
+
+    test('rejects creating an issue synced to Linear in the meantime', async () => {
+        const plan = syncPlan();
+        plan.issues = [{ ...plan.issues[0], action: 'create', linearIssue: undefined }];
+        const store = linkedStore();
+        const linear = {
+            ...fakeLinear(PLANNED_AT).client,
+            issues: async () => ({ nodes: [{ id: 'lin-1', identifier: 'ENG-1' }], pageInfo: { hasNextPage: false } })
+        } as unknown as LinearClient;
+
+        expect(await verifyPlan(linear, plan, store)).toEqual([
+            'https://github.com/acme/app/issues/1 was synced to Linear as ENG-1 in the meantime'
+        ]);
+    });
+});
+
+describe('applySyncPlan', () => {
+    test('applies an unchanged plan', async () => {
+        const linear = fakeLinear(PLANNED_AT);
+        const store = linkedStore();
+        const plan = syncPlan();
+
+        expect(await verifyPlan(linear.client, plan, store)).toEqual([]);
+        const [result] = await applySyncPlan(linear.client, {} as Octokit, plan, store, { cache: new SyncCache(linear.client), concurrency: 1 });
+
+        expect(result).toMatchObject({ action: 'updated', linearIdentifier: 'ENG-1' });
+        expect(linear.updates).toEqual([{ teamId: 'team-eng', title: '[🛠️GH] acme/app#1: Crash on startup' }]);
+        expect(store.get('I_1')).toMatchObject({ linearId: 'lin-1', isDeleted: false });
+        expect(store.get('I_1')?.linearHash).toBeDefined();
+    });
+});
@@ -0,0 +1,658 @@
+import type {LinearClient} from '@linear/sdk';
+import type {IssueCreateInput} from '@linear/sdk/dist/_generated_documents';
+import type {Octokit} from '@octokit/rest';
+import {
+    CLOSED_STATE_TYPES,
+    createGithubDescription,
+    createGithubTitle,
+    findExistingIssue,
+    findExistingIssues,
+    githubIssueRepo,
+    hashGithubIssue,
+    hashLinearIssue,
+    linkGithubIssue,
+    collectSyncResults,
+    type GithubIssue,
+    type SyncResult
+} from '../api/linear';
+import {findRoute, type ResolvedRoute} from '../config/config';
+import type {Logger} from '../logger';
+import type {SyncCache} from './cache';
+import {syncIssueComments} from './comments';
+import {flagConflicts, mergeBase, mergeLinearEdits, syncedFields, type FieldConflict, type SyncedFields} from './conflicts';
+import {createPendingFields, mapIssueFields, type PendingFields} from './fields';
+import {
+    dependencyWaves,
+    fetchMovedChildren,
+    findLinearIssueId,
+    linkIssueRelations,
+    loadGithubParents,
+    planIssueHierarchy,
+    setGithubParent,
+    type GithubParent,
+    type IssueRelationRef
+} from './hierarchy';
+import {
+    applyLifecycleActions,
+    canceledStateId,
+    classifyGithubIssue,
+    detectTransfer,
+    lifecycleActions,
+    removeGithubAttachment,
+    type GithubIssueLifecycle,
+    type LifecycleAction
+} from './lifecycle';
+import {githubMarkdownContext, githubToLinearMarkdown, markdownConverters, uploadGithubImage, uploadedImage} from './markdown';
+import {resolveIssueState} from './states';
+import type {LinkStore} from './store';
+
+/**
+ * The fields of a Linear issue a plan is compared against, loaded in one
+ * query since the SDK models fetch each relation separately
+ */
+export interface LinearIssueSnapshot {
+    id: string;
+    identifier: string;
+    updatedAt: string;
+    title: string;
+    description?: string;
+    priority: number;
+    team: { id: string; key: string };
+    state: { id: string; name: string; type: string } | null;
+    project: { id: string; name: string } | null;
+    assignee: { id: string; name: string } | null;
+    cycle: { id: string; name: string | null; number: number } | null;
+    projectMilestone: { id: string; name: string } | null;
+    labels: { nodes: Array<{ id: string; name: string }> };
+    parent: { id: string; identifier: string } | null;
+    relations: { nodes: Array<{ type: string; relatedIssue: { id: string } }> };
+    inverseRelations: { nodes: Array<{ type: string; issue: { id: string } }> };
+}
+
+const SNAPSHOT_BATCH_SIZE = 50;
+
+const ISSUE_SNAPSHOTS_QUERY = `
+    query IssueSnapshots($ids: [ID!]!) {
+        issues(first: ${SNAPSHOT_BATCH_SIZE}, includeArchived: true, filter: { id: { in: $ids } }) {
+            nodes {
+                id identifier updatedAt title description priority
+                team { id key }
+                state { id name type }
+                project { id name }
+                assignee { id name }
+                cycle { id name number }
+                projectMilestone { id name }
+                labels(first: 250) { nodes { id name } }
+                parent { id identifier }
+                relations(first: 100) { nodes { type relatedIssue { id } } }
+                inverseRelations(first: 100) { nodes { type issue { id } } }
+            }
+        }
+    }
+`;
+
+export async function fetchIssueSnapshots(
+    client: LinearClient,
+    issueIds: string[]
+): Promise<Map<string, LinearIssueSnapshot>> {
+    const ids = [...new Set(issueIds)];
+    const snapshots = new Map<string, LinearIssueSnapshot>();
+    for (let i = 0; i < ids.length; i += SNAPSHOT_BATCH_SIZE) {
+        const data = await client.client.request<
+            { issues: { nodes: Array<LinearIssueSnapshot & { description: string | null }> } },
+            { ids: string[] }
+        >(ISSUE_SNAPSHOTS_QUERY, { ids: ids.slice(i, i + SNAPSHOT_BATCH_SIZE) });
+        for (const issue of data.issues.nodes) {
+            snapshots.set(issue.id, { ...issue, description: issue.description ?? undefined });
+        }
+    }
+    return snapshots;
+}
+
+export interface FieldChange {
+    field: 'title' | 'description' | 'team' | 'state' | 'project' | 'assignee' | 'priority' | 'labels' | 'cycle' | 'milestone' | 'lifecycle' | 'conflict'
+        | 'parent' | 'githubParent' | 'relations';
+    from: string | null;
+    to: string | null;
+}
+
+export type PlanAction = 'create' | 'update' | 'skip';
+
+export interface IssuePlan {
+    action: PlanAction;
+    // Why nothing is written, for skipped issues
+    reason?: string;
+    githubIssue: GithubIssue;
+    githubIssueExists: boolean;
+    // Set when the GitHub issue was deleted, transferred, locked or converted to a discussion
+    lifecycle?: {
+        status: GithubIssueLifecycle;
+        // Actions that haven't run for this outcome yet
+        actions: LifecycleAction[];
+    };
+    // The issue's link before it was transferred, replaced on apply
+    transferredFrom?: {
+        githubNodeId: string;
+        githubUrl: string;
+    };
+    route: Pick<ResolvedRoute, 'repo' | 'teamId' | 'projectId' | 'comments' | 'fields' | 'hierarchy'>;
+    // The linked Linear issue as it was when planned
+    linearIssue?: {
+        id: string;
+        identifier: string;
+        updatedAt: string;
+        hash: string;
+    };
+    input: IssueCreateInput;
+    pending: PendingFields;
+    syncedLabels: string[];
+    // GitHub's values of the conflict fields, recorded as synced on apply
+    synced?: SyncedFields;
+    // Fields changed in both GitHub and Linear since the last sync
+    conflicts?: FieldConflict[];
+    // The Linear parent to set, by its GitHub issue, see planIssueHierarchy
+    parent?: GithubParent | null;
+    // GitHub parent recorded as synced on apply
+    syncedParent?: GithubParent | null;
+    // Sub-issue parent to give the GitHub issue, after it was re-parented in Linear
+    githubParent?: { from: string | null; to: string | null };
+    relations?: IssueRelationRef[];
+    changes: FieldChange[];
+}
+
+export interface SyncPlan {
+    version: 1;
+    createdAt: string;
+    issues: IssuePlan[];
+}
+
+interface Named {
+    id: string;
+    name: string;
+}
+
+// What a review of the plan can look up in Linear, and how it re-plans an issue
+export interface PlanReviewOptions {
+    teams: () => Promise<Array<Named & { key: string }>>;
+    projects: (teamId: string) => Promise<Named[]>;
+    states: (teamId: string) => Promise<Named[]>;
+    // Plans the issue again for another team or project
+    replan: (issue: IssuePlan, target: { teamId: string; projectId?: string }) => Promise<IssuePlan>;
+}
+
+// Linear trims trailing whitespace, which doesn't make the description differ
+const normalizeDescription = (description: string | undefined | null) =>
+    (description ?? '')
+        .split('\n')
+        .map(line => line.trimEnd())
+        .join('\n')
+        .trim();
+
+const nameOf = (items: Array<{ id: string; name?: string | null }>, id: string | undefined | null) =>
+    id ? items.find(item => item.id === id)?.name ?? id : null;
+
+async function diffIssue(
+    cache: SyncCache,
+    route: IssuePlan['route'],
+    current: LinearIssueSnapshot | undefined,
+    input: IssueCreateInput,
+    pending: PendingFields
+): Promise<FieldChange[]> {
+    const changes: FieldChange[] = [];
+    const change = (field: FieldChange['field'], from: string | null | undefined, to: string | null | undefined) => {
+        if ((from ?? null) !== (to ?? null)) {
+            changes.push({ field, from: from ?? null, to: to ?? null });
+        }
+    };
+
+    change('title', current?.title, input.title);
+    if (normalizeDescription(current?.description) !== normalizeDescription(input.description)) {
+        change('description', current?.description, input.description);
+    }
+    if (current && input.teamId !== current.team.id) {
+        change('team', current.team.key, (await cache.teams()).find(t => t.id === input.teamId)?.key ?? input.teamId);
+    }
+    if (input.stateId && input.stateId !== current?.state?.id) {
+        change('state', current?.state?.name, nameOf(await cache.workflowStates(route.teamId), input.stateId));
+    }
+    if (input.projectId && input.projectId !== current?.project?.id) {
+        change('project', current?.project?.name, nameOf(await cache.projects(), input.projectId));
+    }
+    if (input.assigneeId !== undefined && input.assigneeId !== (current?.assignee?.id ?? null)) {
+        change('assignee', current?.assignee?.name, nameOf(await cache.users(), input.assigneeId));
+    }
+    if (input.priority !== undefined && input.priority !== null && input.priority !== current?.priority) {
+        change('priority', current ? String(current.priority) : null, String(input.priority));
+    }
+    if (input.cycleId && input.cycleId !== current?.cycle?.id) {
+        const cycles = await cache.cycles(route.teamId);
+        const cycle = cycles.find(c => c.id === input.cycleId);
+        change('cycle', current?.cycle?.name ?? current?.cycle?.number?.toString(), cycle?.name ?? cycle?.number.toString());
+    }
+    if (pending.milestone || (input.projectMilestoneId && input.projectMilestoneId !== current?.projectMilestone?.id)) {
+        const milestones = route.projectId ? await cache.projectMilestones(route.projectId) : [];
+        change('milestone', current?.projectMilestone?.name, pending.milestone?.name ?? nameOf(milestones, input.projectMilestoneId));
+    }
+
+    if (input.labelIds || pending.labels.length) {
+        const available = await cache.labels(route.teamId);
+        const currentNames = (current?.labels.nodes ?? []).map(l => l.name).sort();
+        const plannedNames = [
+            ...(input.labelIds ?? []).map(id => nameOf([...available, ...(current?.labels.nodes ?? [])], id)!),
+            ...pending.labels
+        ].sort();
+        if (currentNames.join('\n') !== plannedNames.join('\n')) {
+            change('labels', currentNames.join(', '), plannedNames.join(', '));
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Works out what syncing a GitHub issue would change in Linear, without
+ * writing anything. The plan can be shown, saved and applied later.
+ */
+export async function planGithubIssueSync(
+    client: LinearClient,
+    githubClient: Octokit,
+    githubIssue: GithubIssue,
+    route: ResolvedRoute,
+    store: LinkStore,
+    cache: SyncCache
+): Promise<IssuePlan> {
+    if (!githubIssue.html_url) {
+        throw new Error('GitHub issue URL is required');
+    }
+
+    const states = await cache.workflowStates(route.teamId);
+    const existingIssue = cache.existingIssues.has(githubIssue.node_id)
+        ? cache.existingIssues.get(githubIssue.node_id)!
+        : await findExistingIssue(client, githubIssue, store);
+    const current = existingIssue ? await cache.snapshot(existingIssue.id) : undefined;
+
+    const link = store.get(githubIssue.node_id);
+    // Listed issues exist; others, e.g. from webhooks, are looked up at their linked URL
+    const status = cache.fetchedIssues.has(githubIssue.node_id)
+        ? detectTransfer(githubIssue, link?.githubUrl)
+        : await classifyGithubIssue(githubClient, link?.githubUrl ?? githubIssue.html_url);
+    const githubIssueExists = status.outcome !== 'deleted' && status.outcome !== 'converted';
+    const transferredFrom = status.outcome === 'transferred'
+        ? { githubNodeId: githubIssue.node_id, githubUrl: status.previousUrl }
+        : undefined;
+    if ('issue' in status) {
+        githubIssue = status.issue;
+    }
+
+    // An outcome's actions run once; every transfer is a new outcome
+    const outcome = status.outcome === 'active' ? undefined : status.outcome;
+    const actions = current && outcome && (outcome === 'transferred' || outcome !== link?.lifecycle)
+        ? lifecycleActions(route.lifecycle, outcome)
+        : [];
+
+    const plan: IssuePlan = {
+        action: 'skip',
+        githubIssue,
+        githubIssueExists,
+        lifecycle: outcome && { status, actions },
+        transferredFrom,
+        route: {
+            repo: route.repo,
+            teamId: route.teamId,
+            projectId: route.projectId,
+            comments: route.comments,
+            fields: route.fields,
+            hierarchy: route.hierarchy
+        },
+        linearIssue: current && {
+            id: current.id,
+            identifier: current.identifier,
+            updatedAt: current.updatedAt,
+            hash: hashLinearIssue(current, current.state?.id)
+        },
+        input: { teamId: route.teamId },
+        pending: { labels: [] },
+        syncedLabels: [],
+        changes: []
+    };
+
+    if (!current && !githubIssueExists) {
+        return { ...plan, reason: `${status.outcome === 'deleted' ? 'Deleted' : 'Converted to a discussion'} on GitHub and not in Linear` };
+    }
+    // Don't create new Linear issues for closed GitHub issues
+    if (!current && githubIssue.state.toLowerCase() === 'closed') {
+        return { ...plan, reason: 'Closed on GitHub and not in Linear' };
+    }
+
+    const { state, rule } = resolveIssueState(states, githubIssue, route.states);
+    let stateId = state.id;
+
+    // Keep the Linear state when it already agrees with GitHub, so e.g.
+    // "In Progress" isn't reset to Backlog on every run. Label rules always apply.
+    // Gone GitHub issues only change the state through their lifecycle actions.
+    if (current?.state && (!githubIssueExists || (
+        !rule.labels?.length &&
+        CLOSED_STATE_TYPES.includes(current.state.type) === CLOSED_STATE_TYPES.includes(state.type)
+    ))) {
+        stateId = current.state.id;
+    }
+    if (actions.includes('cancel') && current?.state && !CLOSED_STATE_TYPES.includes(current.state.type)) {
+        stateId = await canceledStateId(cache, route.teamId);
+    }
+
+    const fields = await mapIssueFields(githubClient, githubIssue, route, current, link, cache);
+
+    // Images not uploaded to Linear yet keep their GitHub URL until the plan is applied
+    const images = new Set<string>();
+    const body = await githubToLinearMarkdown(githubIssue.body ?? '', githubMarkdownContext(githubClient, cache, store, {
+        repo: githubIssueRepo(githubIssue),
+        fields: route.fields,
+        image: async url => {
+            const uploaded = uploadedImage(store, url);
+            if (!uploaded) {
+                images.add(url);
+            }
+            return uploaded;
+        }
+    }));
+    if (images.size) {
+        fields.pending.images = [...images];
+    }
+
+    plan.input = {
+        ...fields.input,
+        // Issues imported from Linear keep their plain title on both sides
+        title: link?.origin === 'linear' ? githubIssue.title : createGithubTitle(githubIssue, route.titleTemplate),
+        description: link?.origin === 'linear'
+            ? body
+            : createGithubDescription({ ...githubIssue, body }, githubIssueExists, route.descriptionTemplate, current?.description),
+        projectId: route.projectId,
+        teamId: route.teamId,
+        stateId
+    };
+    plan.pending = fields.pending;
+    plan.syncedLabels = fields.syncedLabels;
+    // GitHub's state as mapped, not the Linear state kept above: a later move in Linear is then told apart
+    plan.synced = syncedFields({ ...plan.input, stateId: state.id }, link?.synced);
+    // The content of gone GitHub issues is stale, their lifecycle decides instead
+    if (current && githubIssueExists) {
+        const base = mergeBase(link?.synced, current, states, !rule.labels?.length);
+        plan.conflicts = mergeLinearEdits(plan.input, current, base, githubIssue, route.conflicts);
+    }
+    plan.changes = await diffIssue(cache, plan.route, current, plan.input, plan.pending);
+    // Uploading images changes the description even when its text is the same
+    if (current && images.size && !plan.changes.some(change => change.field === 'description')) {
+        plan.changes.push({ field: 'description', from: current.description ?? null, to: plan.input.description ?? null });
+    }
+    if (route.hierarchy !== false && githubIssueExists) {
+        const { changes, ...hierarchy } = await planIssueHierarchy(client, githubClient, githubIssue, current, link, store, cache);
+        Object.assign(plan, hierarchy);
+        plan.changes.push(...changes);
+    }
+    if (actions.length) {
+        plan.changes.push({ field: 'lifecycle', from: link?.lifecycle ?? null, to: `${outcome}: ${actions.join(', ')}` });
+    }
+    const flagged = plan.conflicts?.filter(conflict => conflict.resolution === 'flagged') ?? [];
+    if (flagged.length) {
+        plan.changes.push({ field: 'conflict', from: null, to: flagged.map(conflict => conflict.field).join(', ') });
+    }
+
+    if (!current) {
+        plan.action = 'create';
+    } else if (plan.changes.length) {
+        plan.action = 'update';
+    } else {
+        plan.reason = 'Up to date';
+    }
+    return plan;
+}
+
+/**
+ * Executes a plan: writes the planned fields, links the issues and records
+ * the sync in the link store, then mirrors comments. Skipped issues that are
+ * linked still get their link and comments refreshed.
+ */
+export async function applyIssuePlan(
+    client: LinearClient,
+    githubClient: Octokit,
+    plan: IssuePlan,
+    store: LinkStore,
+    cache: SyncCache,
+    logger: Logger = console
+): Promise<IssuePlan> {
+    const { githubIssue } = plan;
+    if (plan.action === 'skip' && !plan.linearIssue) {
+        return plan;
+    }
+
+    let linearIssue: NonNullable<IssuePlan['linearIssue']>;
+    const uploaded: Record<string, string> = {};
+    let { syncedParent } = plan;
+    if (plan.action === 'skip') {
+        linearIssue = plan.linearIssue!;
+    } else {
+        const created = await createPendingFields(client, cache, plan.route, plan.pending);
+        const input: IssueCreateInput = {
+            ...plan.input,
+            ...created,
+            labelIds: plan.input.labelIds || created.labelIds
+                ? [...new Set([...(plan.input.labelIds ?? []), ...(created.labelIds ?? [])])]
+                : undefined
+        };
+        for (const url of plan.pending.images ?? []) {
+            uploaded[url] = await uploadGithubImage(client, githubClient, url);
+            input.description = input.description?.replaceAll(url, uploaded[url]);
+        }
+
+        // Parents synced in this run were created in an earlier wave, see applySyncPlan
+        if (plan.parent !== undefined && plan.changes.some(change => change.field === 'parent')) {
+            const parentId = plan.parent ? await findLinearIssueId(client, plan.parent.url, store, cache) : null;
+            if (parentId !== undefined) {
+                input.parentId = parentId;
+            } else {
+                // Not in Linear after all, retried on the next sync
+                syncedParent = undefined;
+            }
+        }
+
+        // Unchanged text isn't sent, so an update doesn't overwrite edits made in Linear since planning
+        if (plan.linearIssue) {
+            for (const field of ['title', 'description'] as const) {
+                if (!plan.changes.some(change => change.field === field)) {
+                    delete input[field];
+                }
+            }
+        }
+
+        const payload = plan.linearIssue
+            ? await client.updateIssue(plan.linearIssue.id, input)
+            : await client.createIssue(input);
+        const issue = await payload.issue;
+        if (!issue) {
+            throw new Error(`Linear returned no issue for ${githubIssue.html_url}`);
+        }
+        linearIssue = {
+            id: issue.id,
+            identifier: issue.identifier,
+            updatedAt: issue.updatedAt.toISOString(),
+            // Hash what Linear stored, not what we sent, so normalization isn't seen as an edit
+            hash: hashLinearIssue(issue, input.stateId ?? undefined)
+        };
+    }
+
+    const { transferredFrom, lifecycle } = plan;
+    if (transferredFrom) {
+        await removeGithubAttachment(client, linearIssue.id, transferredFrom.githubUrl);
+        // Carries the mirrored comments and hashes over to the issue's new node ID
+        const previous = store.get(transferredFrom.githubNodeId);
+        if (previous && transferredFrom.githubNodeId !== githubIssue.node_id) {
+            store.delete(transferredFrom.githubNodeId);
+            store.set({ ...previous, githubNodeId: githubIssue.node_id });
+        }
+    }
+    if (transferredFrom || store.get(githubIssue.node_id)?.linearId !== linearIssue.id) {
+        await linkGithubIssue(client, linearIssue, githubIssue, store);
+    }
+    const outcome = lifecycle?.status.outcome;
+    const stored = store.get(githubIssue.node_id)!;
+    store.set({
+        ...stored,
+        githubHash: hashGithubIssue(githubIssue),
+        linearHash: linearIssue.hash,
+        lastSyncedAt: new Date().toISOString(),
+        isDeleted: !plan.githubIssueExists,
+        syncedLabels: plan.syncedLabels,
+        synced: plan.synced ?? stored.synced,
+        parent: syncedParent === undefined ? stored.parent : syncedParent,
+        images: Object.keys(uploaded).length ? { ...stored.images, ...uploaded } : stored.images,
+        // Once relinked, a transferred issue is an active one again
+        lifecycle: outcome === 'transferred' || outcome === 'active' ? undefined : outcome
+    });
+
+    // Notices the sync posts in Linear, recorded so they're not mirrored to GitHub
+    const recordNotice = (commentId: string | undefined) => {
+        if (commentId) {
+            const link = store.get(githubIssue.node_id)!;
+            store.set({ ...link, notices: [...link.notices ?? [], commentId] });
+        }
+    };
+
+    if (lifecycle?.actions.length) {
+        recordNotice(await applyLifecycleActions(
+            client,
+            cache,
+            linearIssue.id,
+            plan.route.teamId,
+            lifecycle.status,
+            transferredFrom?.githubUrl ?? githubIssue.html_url,
+            lifecycle.actions
+        ));
+    }
+
+    if (plan.relations?.length) {
+        await linkIssueRelations(client, linearIssue.id, plan.relations, store, cache);
+    }
+    if (plan.githubParent) {
+        await setGithubParent(githubClient, githubIssue, plan.githubParent.to, plan.githubParent.from);
+    }
+
+    if (plan.conflicts?.length) {
+        recordNotice(await flagConflicts(client, cache, linearIssue.id, plan.route.teamId, githubIssue.html_url, plan.conflicts));
+    }
+
+    if (plan.githubIssueExists) {
+        // Only collaborators can comment on locked issues
+        const comments = outcome === 'locked' && plan.route.comments === 'both' ? 'github-to-linear' : plan.route.comments;
+        const markdown = markdownConverters(client, githubClient, cache, store, {
+            repo: githubIssueRepo(githubIssue),
+            fields: plan.route.fields
+        });
+        await syncIssueComments(client, githubClient, githubIssue, linearIssue, store, comments, markdown, logger);
+    }
+
+    return { ...plan, linearIssue };
+}
+
+/**
+ * Plans every routed issue, loading their Linear counterparts in batches first.
+ * Linked issues whose GitHub parent changed are planned too, see fetchMovedChildren.
+ * @returns the plan, and the issues that could not be planned
+ */
+export async function planSync(
+    client: LinearClient,
+    githubClient: Octokit,
+    routed: Array<{ route: ResolvedRoute; issues: GithubIssue[] }>,
+    store: LinkStore,
+    { cache, concurrency }: { cache: SyncCache; concurrency: number }
+): Promise<{ plan: SyncPlan; failed: SyncResult[] }> {
+    const listed = routed.flatMap(({ issues }) => issues);
+    listed.forEach(issue => {
+        cache.fetchedIssues.add(issue.node_id);
+        cache.fetchedIssueUrls.add(issue.html_url.toLowerCase());
+    });
+
+    const hierarchical = routed.filter(({ route }) => route.hierarchy !== false).flatMap(({ issues }) => issues);
+    if (hierarchical.length) {
+        await loadGithubParents(githubClient, hierarchical, cache);
+        const routes = routed.map(({ route }) => route);
+        for (const issue of await fetchMovedChildren(githubClient, store, cache)) {
+            const entry = routed.find(({ route }) => route === findRoute(routes, issue));
+            if (entry && entry.route.hierarchy !== false) {
+                entry.issues.push(issue);
+                cache.fetchedIssues.add(issue.node_id);
+                cache.fetchedIssueUrls.add(issue.html_url.toLowerCase());
+            }
+        }
+    }
+    const issues = routed.flatMap(({ issues }) => issues);
+
+    const missing = issues.filter(issue => !cache.existingIssues.has(issue.node_id));
+    if (missing.length) {
+        const existing = await findExistingIssues(client, missing, store);
+        existing.forEach((issue, nodeId) => cache.existingIssues.set(nodeId, issue));
+    }
+    await cache.prefetchSnapshots(
+        issues.map(issue => cache.existingIssues.get(issue.node_id)?.id).filter(id => id !== undefined)
+    );
+
+    const jobs = routed.flatMap(({ route, issues }) => issues.map(githubIssue => ({ route, githubIssue })));
+    const results = await collectSyncResults(jobs, concurrency, job => job, ({ route, githubIssue }) =>
+        planGithubIssueSync(client, githubClient, githubIssue, route, store, cache)
+    );
+
+    const plan: SyncPlan = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        issues: results.flatMap(result => result.plan ? [result.plan] : [])
+    };
+    const failed = results.filter(result => result.action === 'failed');
+    return { plan, failed };
+}
+
+/**
+ * Checks that the Linear issues a plan touches are unchanged since it was
+ * made, and that no issue it creates has been synced by someone else since
+ * @returns a description of each conflict, empty when the plan can be applied
+ */
+export async function verifyPlan(client: LinearClient, plan: SyncPlan, store: LinkStore): Promise<string[]> {
+    const conflicts: string[] = [];
+
+    const linked = plan.issues.filter(issue => issue.linearIssue);
+    const snapshots = await fetchIssueSnapshots(client, linked.map(issue => issue.linearIssue!.id));
+    for (const { linearIssue, githubIssue } of linked) {
+        const snapshot = snapshots.get(linearIssue!.id);
+        if (!snapshot) {
+            conflicts.push(`${linearIssue!.identifier} (${githubIssue.html_url}) was deleted in Linear`);
+        } else if (snapshot.updatedAt !== linearIssue!.updatedAt) {
+            conflicts.push(`${linearIssue!.identifier} (${githubIssue.html_url}) changed in Linear at ${snapshot.updatedAt}`);
+        }
+    }
+
+    const creates = plan.issues.filter(issue => issue.action === 'create');
+    const existing = await findExistingIssues(client, creates.map(issue => issue.githubIssue), store);
+    for (const { githubIssue } of creates) {
+        const issue = existing.get(githubIssue.node_id);
+        if (issue) {
+            conflicts.push(`${githubIssue.html_url} was synced to Linear as ${issue.identifier} in the meantime`);
+        }
+    }
+
+    return conflicts;
+}
+
+export async function applySyncPlan(
+    client: LinearClient,
+    githubClient: Octokit,
+    plan: SyncPlan,
+    store: LinkStore,
+    { cache, concurrency, logger }: { cache: SyncCache; concurrency: number; logger?: Logger }
+): Promise<SyncResult[]> {
+    const results: SyncResult[] = [];
+    // Parents and the issues others depend on are created first, so their Linear IDs are known
+    for (const wave of dependencyWaves(plan.issues)) {
+        results.push(...await collectSyncResults(wave, concurrency, issue => issue, issue =>
+            applyIssuePlan(client, githubClient, issue, store, cache, logger)
+        ));
+    }
+    return results;
+}
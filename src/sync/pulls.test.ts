@@ -0,0 +1,125 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import type {GithubPullRequest} from '../api/github';
+import type {SyncCache} from './cache';
+import type {LinearIssueSnapshot} from './plan';
+import {findPullRequestReferences, pullRequestStage, syncPullRequest, syncPullRequests} from './pulls';
+import {LinkStore} from './store';
+
+const pullRequest = (fields: Record<string, unknown> = {}) => ({
+    number: 7,
+    node_id: 'PR_7',
+    title: 'Handle missing config',
+    body: null,
+    state: 'open',
+    merged_at: null,
+    requested_reviewers: [],
+    requested_teams: [],
+    html_url: 'https://github.com/acme/app/pull/7',
+    head: { ref: 'fix-startup' },
+    base: { repo: { full_name: 'acme/app' } },
+    ...fields
+}) as unknown as GithubPullRequest;
+
+const STATES = [
+    { id: 'todo', name: 'Todo', type: 'unstarted', position: 0 },
+    { id: 'in-progress', name: 'In Progress', type: 'started', position: 1 },
+    { id: 'in-review', name: 'In Review', type: 'started', position: 2 },
+    { id: 'done', name: 'Done', type: 'completed', position: 3 }
+];
+
+// ENG-12 in `state`, linked to acme/app#12
+function setup(state = 'todo') {
+    const snapshot = { id: 'lin-12', identifier: 'ENG-12', team: { id: 'team-eng' }, state: STATES.find(s => s.id === state) } as unknown as LinearIssueSnapshot;
+    const cache = {
+        teams: async () => [{ id: 'team-eng', key: 'ENG' }],
+        snapshot: async (id: string) => id === snapshot.id ? snapshot : undefined,
+        workflowStates: async () => STATES,
+        get: <T>(_key: string, load: () => Promise<T>) => load()
+    } as unknown as SyncCache;
+    const attachments: string[] = [];
+    const updates: Array<{ id: string; stateId: string }> = [];
+    const client = {
+        issue: async (identifier: string) => {
+            if (identifier !== 'ENG-12') {
+                throw new Error('Entity not found');
+            }
+            return { id: 'lin-12' };
+        },
+        createAttachment: async ({ url }: { url: string }) => attachments.push(url),
+        updateIssue: async (id: string, { stateId }: { stateId: string }) => updates.push({ id, stateId })
+    } as unknown as LinearClient;
+    const store = new LinkStore('/dev/null');
+    store.set({ githubNodeId: 'I_12', githubUrl: 'https://github.com/acme/app/issues/12', linearId: 'lin-12' });
+    return { cache, client, store, attachments, updates };
+}
+
+describe('pullRequestStage', () => {
+    test('follows the pull request from opened to merged', () => {
+        expect(pullRequestStage(pullRequest())).toBe('opened');
+        expect(pullRequestStage(pullRequest({ requested_reviewers: [{ login: 'octocat' }] }))).toBe('reviewRequested');
+        expect(pullRequestStage(pullRequest({ state: 'closed', merged_at: '2024-03-01T10:00:00Z' }))).toBe('merged');
+        expect(pullRequestStage(pullRequest({ state: 'closed' }))).toBeUndefined();
+    });
+});
+
+describe('findPullRequestReferences', () => {
+    test('finds closed issues and Linear identifiers of known teams', () => {
+        const pr = pullRequest({
+            title: 'ENG-3: Parse utf-8 configs',
+            body: 'Fixes #12, closes acme/api#4 and resolves https://github.com/acme/web/issues/5. Mentions #6.',
+            head: { ref: 'eng-12-startup' }
+        });
+
+        expect(findPullRequestReferences(pr, ['eng'])).toEqual({
+            githubUrls: [
+                'https://github.com/acme/app/issues/12',
+                'https://github.com/acme/api/issues/4',
+                'https://github.com/acme/web/issues/5'
+            ],
+            identifiers: ['ENG-12', 'ENG-3']
+        });
+    });
+});
+
+describe('syncPullRequest', () => {
+    test('attaches the pull request and moves the issue to the state of its stage', async () => {
+        const { cache, client, store, attachments, updates } = setup();
+        const pr = pullRequest({ body: 'Fixes #12', head: { ref: 'eng-12-startup' }, requested_reviewers: [{ login: 'octocat' }] });
+
+        const outcome = await syncPullRequest(client, pr, undefined, store, cache);
+
+        expect(outcome).toEqual({ linked: ['ENG-12'], moved: [{ identifier: 'ENG-12', state: 'In Review' }] });
+        expect(attachments).toEqual([pr.html_url]);
+        expect(updates).toEqual([{ id: 'lin-12', stateId: 'in-review' }]);
+    });
+
+    test('never moves an issue back, nor when the stage is switched off', async () => {
+        const done = setup('done');
+        const opened = await syncPullRequest(done.client, pullRequest({ body: 'Fixes #12' }), undefined, done.store, done.cache);
+        expect(opened.moved).toEqual([]);
+
+        const todo = setup();
+        const merged = pullRequest({ body: 'Fixes #12', state: 'closed', merged_at: '2024-03-01T10:00:00Z' });
+        const outcome = await syncPullRequest(todo.client, merged, { states: { merged: false } }, todo.store, todo.cache);
+        expect(outcome).toEqual({ linked: ['ENG-12'], moved: [] });
+        expect(todo.updates).toEqual([]);
+    });
+});
+
+describe('syncPullRequests', () => {
+    test('leaves out repositories whose route switches pull requests off', async () => {
+        const { cache, client, store, attachments } = setup();
+        const pulls = [
+            pullRequest({ body: 'Fixes #12' }),
+            pullRequest({ body: 'Fixes acme/app#12', html_url: 'https://github.com/acme/web/pull/1', base: { repo: { full_name: 'acme/web' } } })
+        ];
+        const routes = [{ repo: 'acme/app', team: 'ENG' }, { repo: 'acme/web', team: 'ENG', pullRequests: false as const }];
+
+        const results = await syncPullRequests(client, pulls, routes, store, { cache, concurrency: 2 });
+
+        expect(results.linked).toEqual([{ url: 'https://github.com/acme/app/pull/7', identifiers: ['ENG-12'] }]);
+        expect(results.failed).toEqual([]);
+        expect(attachments).toEqual(['https://github.com/acme/app/pull/7']);
+    });
+});
@@ -0,0 +1,239 @@
+import type {LinearClient, WorkflowState} from '@linear/sdk';
+import type {GithubPullRequest} from '../api/github';
+import type {SyncRoute} from '../config/config';
+import type {SyncCache} from './cache';
+import {settleWithConcurrency} from './concurrency';
+import {findLinearIssueId} from './hierarchy';
+import {resolveWorkflowState, type StateRef} from './states';
+import type {LinkStore} from './store';
+
+export const PULL_REQUEST_STAGES = ['opened', 'reviewRequested', 'merged'] as const;
+export type PullRequestStage = typeof PULL_REQUEST_STAGES[number];
+
+/**
+ * How pull requests referencing synced issues show up in Linear. They are
+ * always attached to the referenced issues; each stage of the pull request
+ * moves those issues to a state, or leaves it alone when set to `false`.
+ */
+export interface PullRequestConfig {
+    states?: Partial<Record<PullRequestStage, StateRef | false>>;
+}
+
+export const DEFAULT_PULL_REQUEST_STATES: Record<PullRequestStage, StateRef> = {
+    opened: { name: 'In Progress', type: 'started' },
+    reviewRequested: { name: 'In Review', type: 'started' },
+    merged: { name: 'Done', type: 'completed' }
+};
+
+const STAGE_LABELS: Record<PullRequestStage, string> = {
+    opened: 'Open',
+    reviewRequested: 'In review',
+    merged: 'Merged'
+};
+
+/**
+ * @returns the stage of an open or merged pull request, undefined when it was
+ * closed without merging
+ */
+export function pullRequestStage(pr: GithubPullRequest): PullRequestStage | undefined {
+    if (pr.merged_at) {
+        return 'merged';
+    }
+    if (pr.state === 'closed') {
+        return undefined;
+    }
+    return pr.requested_reviewers?.length || pr.requested_teams?.length ? 'reviewRequested' : 'opened';
+}
+
+export function pullRequestStates(config: PullRequestConfig | undefined): Record<PullRequestStage, StateRef | false> {
+    return { ...DEFAULT_PULL_REQUEST_STATES, ...config?.states };
+}
+
+// "Fixes #12", "closes owner/repo#12" or "resolves https://github.com/owner/repo/issues/12"
+const CLOSING_REFERENCE =
+    /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:https:\/\/[\w.-]+(?::\d+)?\/([\w.-]+)\/([\w.-]+)\/issues\/|(?:([\w.-]+)\/([\w.-]+))?#)(\d+)\b/gi;
+
+// ENG-123, or eng-123 as branch names usually have it
+const LINEAR_IDENTIFIER = /\b([a-z][a-z0-9]*)-(\d+)\b/gi;
+
+export interface PullRequestReferences {
+    // Issues the pull request closes, as GitHub issue URLs
+    githubUrls: string[];
+    // Linear identifiers in the branch name or title
+    identifiers: string[];
+}
+
+/**
+ * Finds the issues a pull request refers to. Only identifiers whose prefix
+ * is one of `teamKeys` count, so e.g. "utf-8" in a title is ignored.
+ */
+export function findPullRequestReferences(pr: GithubPullRequest, teamKeys: string[]): PullRequestReferences {
+    const [baseOwner, baseRepo] = pr.base.repo.full_name.split('/');
+    // github.com, or the GitHub Enterprise Server host
+    const host = new URL(pr.html_url).origin;
+
+    const githubUrls = [...`${pr.title}\n${pr.body ?? ''}`.matchAll(CLOSING_REFERENCE)]
+        .map(([, urlOwner, urlRepo, refOwner, refRepo, number]) => {
+            const owner = urlOwner ?? refOwner ?? baseOwner;
+            const repo = urlRepo ?? refRepo ?? baseRepo;
+            return `${host}/${owner}/${repo}/issues/${number}`;
+        });
+
+    const keys = teamKeys.map(key => key.toUpperCase());
+    const identifiers = [...`${pr.head.ref} ${pr.title}`.matchAll(LINEAR_IDENTIFIER)]
+        .map(([, key, number]) => ({ key: key.toUpperCase(), number }))
+        .filter(({ key }) => keys.includes(key))
+        .map(({ key, number }) => `${key}-${number}`);
+
+    return {
+        githubUrls: [...new Set(githubUrls)],
+        identifiers: [...new Set(identifiers)]
+    };
+}
+
+// Linear issue IDs of the referenced issues that are in Linear
+async function findReferencedIssues(
+    client: LinearClient,
+    { githubUrls, identifiers }: PullRequestReferences,
+    store: LinkStore,
+    cache: SyncCache
+): Promise<string[]> {
+    const byUrl = githubUrls.map(url => findLinearIssueId(client, url, store, cache));
+
+    const byIdentifier = identifiers.map(identifier => cache.get(`issue-for:${identifier}`, () =>
+        // Linear resolves identifiers where it expects an issue ID
+        client.issue(identifier).then(issue => issue.id, () => undefined)
+    ));
+
+    const ids = await Promise.all([...byUrl, ...byIdentifier]);
+    return [...new Set(ids.filter(id => id !== undefined))];
+}
+
+// Workflow state types in the order an issue moves through them
+const STATE_PROGRESS = ['triage', 'backlog', 'unstarted', 'started', 'completed'];
+
+// Canceled issues count as finished, like completed ones
+const progressOf = (state: Pick<WorkflowState, 'type' | 'position'>) => ({
+    stage: state.type === 'canceled' ? STATE_PROGRESS.length - 1 : STATE_PROGRESS.indexOf(state.type),
+    position: state.position
+});
+
+// Pull requests only move issues forward, e.g. a new pull request doesn't reopen a finished issue
+function isAhead(target: WorkflowState, current: WorkflowState | undefined) {
+    if (!current) {
+        return true;
+    }
+    const to = progressOf(target);
+    const from = progressOf(current);
+    return to.stage > from.stage || (to.stage === from.stage && to.position > from.position);
+}
+
+export interface PullRequestSyncOutcome {
+    // Identifiers of the Linear issues the pull request is attached to
+    linked: string[];
+    moved: Array<{ identifier: string; state: string }>;
+}
+
+/**
+ * Attaches a pull request to the Linear issues it references and moves them
+ * to the state configured for its stage
+ */
+export async function syncPullRequest(
+    client: LinearClient,
+    pr: GithubPullRequest,
+    config: PullRequestConfig | undefined,
+    store: LinkStore,
+    cache: SyncCache
+): Promise<PullRequestSyncOutcome> {
+    const teamKeys = (await cache.teams()).map(team => team.key);
+    const issueIds = await findReferencedIssues(client, findPullRequestReferences(pr, teamKeys), store, cache);
+    const stage = pullRequestStage(pr);
+    const stateRef = stage && pullRequestStates(config)[stage];
+    const outcome: PullRequestSyncOutcome = { linked: [], moved: [] };
+
+    for (const issueId of issueIds) {
+        const issue = await cache.snapshot(issueId);
+        if (!issue) {
+            continue;
+        }
+
+        await client.createAttachment({
+            issueId,
+            url: pr.html_url,
+            title: `${pr.base.repo.full_name}#${pr.number}`,
+            subtitle: `${stage ? STAGE_LABELS[stage] : 'Closed'} · ${pr.title}`,
+            metadata: {
+                githubNodeId: pr.node_id,
+                githubUrl: pr.html_url,
+                repository: pr.base.repo.full_name,
+                number: pr.number,
+                pullRequest: true,
+                stage: stage ?? 'closed'
+            }
+        });
+        outcome.linked.push(issue.identifier);
+
+        if (!stateRef) {
+            continue;
+        }
+        const states = await cache.workflowStates(issue.team.id);
+        const target = resolveWorkflowState(states, stateRef);
+        const current = states.find(state => state.id === issue.state?.id);
+        if (target && isAhead(target, current)) {
+            // Updated before the write, so other pull requests of this run compare against the new state
+            issue.state = { id: target.id, name: target.name, type: target.type };
+            await client.updateIssue(issueId, { stateId: target.id });
+            outcome.moved.push({ identifier: issue.identifier, state: target.name });
+        }
+    }
+
+    return outcome;
+}
+
+export interface PullRequestSyncResults {
+    linked: Array<{ url: string; identifiers: string[] }>;
+    moved: Array<{ url: string; identifier: string; state: string }>;
+    failed: Array<{
+        url: string;
+        error: unknown;
+        message: string;
+    }>;
+}
+
+/**
+ * Reflects pull requests in Linear, each through the first route of its
+ * repository. Routes with `pullRequests: false` are left out.
+ */
+export async function syncPullRequests(
+    client: LinearClient,
+    pulls: GithubPullRequest[],
+    routes: SyncRoute[],
+    store: LinkStore,
+    { cache, concurrency }: { cache: SyncCache; concurrency: number }
+): Promise<PullRequestSyncResults> {
+    const jobs = pulls.flatMap(pr => {
+        const repo = pr.base.repo.full_name.toLowerCase();
+        const route = routes.find(route => route.repo.toLowerCase() === repo);
+        return route && route.pullRequests !== false ? [{ pr, config: route.pullRequests }] : [];
+    });
+
+    const settled = await settleWithConcurrency(jobs, concurrency, ({ pr, config }) =>
+        syncPullRequest(client, pr, config, store, cache)
+    );
+
+    const results: PullRequestSyncResults = { linked: [], moved: [], failed: [] };
+    settled.forEach((result, i) => {
+        const url = jobs[i].pr.html_url;
+        if (result.status === 'rejected') {
+            results.failed.push({
+                url,
+                error: result.reason,
+                message: result.reason instanceof Error ? result.reason.message : 'Unknown error'
+            });
+        } else if (result.value.linked.length) {
+            results.linked.push({ url, identifiers: result.value.linked });
+            results.moved.push(...result.value.moved.map(move => ({ url, ...move })));
+        }
+    });
+    return results;
+}
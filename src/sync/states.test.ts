@@ -0,0 +1,66 @@
+import {describe, expect, test} from 'bun:test';
+import type {WorkflowState} from '@linear/sdk';
+import type {GithubIssue} from '../api/linear';
+import {matchStateRule, resolveIssueState, resolveWorkflowState, stateMappingErrors, type StateMappingRule} from './states';
+
+// A team without Backlog or Done
+const STATES = [
+    { id: 's-shipped', name: 'Shipped', type: 'completed', position: 3 },
+    { id: 's-todo', name: 'Todo', type: 'unstarted', position: 1 },
+    { id: 's-triage', name: 'Triage', type: 'triage', position: 0 },
+    { id: 's-review', name: 'In Review', type: 'started', position: 2 },
+    { id: 's-wontfix', name: "Won't fix", type: 'canceled', position: 4 }
+] as WorkflowState[];
+
+const githubIssue = (state: 'open' | 'closed', fields: Partial<GithubIssue> = {}) =>
+    ({ state, state_reason: null, labels: [], ...fields }) as unknown as GithubIssue;
+
+describe('resolveWorkflowState', () => {
+    test('matches IDs, then names case-insensitively, then state types', () => {
+        expect(resolveWorkflowState(STATES, 's-todo')?.name).toBe('Todo');
+        expect(resolveWorkflowState(STATES, 'in review')?.name).toBe('In Review');
+        expect(resolveWorkflowState(STATES, { name: 'Done', type: 'completed' })?.name).toBe('Shipped');
+        expect(resolveWorkflowState(STATES, 'Backlog')).toBeUndefined();
+    });
+
+    test('falls back to the first state of the fallback types by position', () => {
+        expect(resolveWorkflowState(STATES, 'Backlog', ['backlog', 'unstarted', 'triage'])?.name).toBe('Todo');
+    });
+});
+
+describe('resolveIssueState', () => {
+    test('maps open and closed issues on teams without Backlog and Done', () => {
+        expect(resolveIssueState(STATES, githubIssue('open'), []).state.name).toBe('Todo');
+        expect(resolveIssueState(STATES, githubIssue('closed', { state_reason: 'completed' }), []).state.name).toBe('Shipped');
+        expect(resolveIssueState(STATES, githubIssue('closed', { state_reason: 'not_planned' }), []).state.name).toBe("Won't fix");
+    });
+
+    test('applies the first matching rule before the defaults', () => {
+        const mapping: StateMappingRule[] = [
+            { labels: ['In-Review'], linear: 'In Review' },
+            { state: 'open', linear: { type: 'triage' } }
+        ];
+        const labelled = githubIssue('open', { labels: [{ name: 'in-review' }] } as Partial<GithubIssue>);
+
+        expect(matchStateRule(labelled, mapping)).toBe(mapping[0]);
+        expect(resolveIssueState(STATES, labelled, mapping).state.name).toBe('In Review');
+        expect(resolveIssueState(STATES, githubIssue('open'), mapping).state.name).toBe('Triage');
+    });
+
+    test('names the available states when nothing matches', () => {
+        const closedOnly = STATES.filter(state => state.type === 'canceled');
+
+        expect(() => resolveIssueState(closedOnly, githubIssue('open'), [])).toThrow("available: Won't fix (canceled)");
+    });
+});
+
+describe('stateMappingErrors', () => {
+    test('reports rules without a state or with an unknown type', () => {
+        const rules = [{ state: 'open' }, { linear: { type: 'done' } }, { linear: 'Todo' }] as StateMappingRule[];
+
+        expect(stateMappingErrors(rules)).toEqual([
+            'rule 1 has no "linear" state',
+            'rule 2 has unknown state type "done", expected one of: triage, backlog, unstarted, started, completed, canceled'
+        ]);
+    });
+});
@@ -0,0 +1,153 @@
+import type {LinearClient, WorkflowState} from '@linear/sdk';
+import {readFileSync} from 'node:fs';
+import {fetchAllNodes, githubIssueLabels, type GithubIssue} from '../api/linear';
+
+export const LINEAR_STATE_TYPES = ['triage', 'backlog', 'unstarted', 'started', 'completed', 'canceled'] as const;
+export type LinearStateType = typeof LINEAR_STATE_TYPES[number];
+
+/**
+ * A Linear workflow state referenced by ID, name or state type.
+ * A plain string is matched against IDs first, then names.
+ * When both name and type are given, the type is the fallback for teams
+ * that don't have a state with that name.
+ */
+export type StateRef = string | {
+    id?: string;
+    name?: string;
+    type?: LinearStateType;
+};
+
+/**
+ * Maps a GitHub issue to a Linear state. Every condition present must match;
+ * the first matching rule wins.
+ */
+export interface StateMappingRule {
+    state?: 'open' | 'closed';
+    stateReason?: 'completed' | 'not_planned' | 'reopened';
+    // All of these labels must be on the issue (case-insensitive)
+    labels?: string[];
+    linear: StateRef;
+}
+
+export const DEFAULT_STATE_MAPPING: StateMappingRule[] = [
+    { state: 'closed', stateReason: 'not_planned', linear: { name: 'Canceled', type: 'canceled' } },
+    { state: 'closed', linear: { name: 'Done', type: 'completed' } },
+    { state: 'open', linear: { name: 'Backlog', type: 'backlog' } }
+];
+
+export function matchStateRule(issue: GithubIssue, mapping: StateMappingRule[]): StateMappingRule {
+    const { state, state_reason: stateReason } = issue;
+    const labels = githubIssueLabels(issue);
+
+    const rule = [...mapping, ...DEFAULT_STATE_MAPPING].find(rule =>
+        (!rule.state || rule.state === state) &&
+        (!rule.stateReason || rule.stateReason === stateReason) &&
+        (!rule.labels || rule.labels.every(l => labels.includes(l.toLowerCase())))
+    );
+    // The defaults cover both open and closed, so a rule is always found
+    return rule!;
+}
+
+// State types tried when a rule's state can't be found, by GitHub open/closed
+export const fallbackStateTypes = (closed: boolean) =>
+    closed ? ['completed'] : ['backlog', 'unstarted', 'triage'];
+
+export function describeStateRef(ref: StateRef) {
+    if (typeof ref === 'string') {
+        return ref;
+    }
+    return ref.name ?? ref.id ?? `type:${ref.type}`;
+}
+
+/**
+ * Resolves a state reference against a team's workflow states: ID, then name,
+ * then state type, then the fallback types in order. Returns undefined when
+ * nothing matches.
+ */
+export function resolveWorkflowState(
+    states: WorkflowState[],
+    ref: StateRef,
+    fallbackTypes: string[] = []
+): WorkflowState | undefined {
+    const { id, name, type } = typeof ref === 'string'
+        ? { id: ref, name: ref, type: undefined }
+        : ref;
+
+    const sorted = [...states].sort((a, b) => a.position - b.position);
+    const byType = (t: string) => sorted.find(s => s.type === t);
+
+    return states.find(s => s.id === id)
+        ?? states.find(s => s.name.toLowerCase() === name?.toLowerCase())
+        ?? [...(type ? [type] : []), ...fallbackTypes]
+            .map(byType)
+            .find(Boolean);
+}
+
+export async function getTeamWorkflowStates(
+    client: LinearClient,
+    teamId: string
+): Promise<WorkflowState[]> {
+    return fetchAllNodes(client.workflowStates({
+        first: 250,
+        filter: {
+            team: { id: { eq: teamId } }
+        }
+    }));
+}
+
+/**
+ * Picks the Linear state for a GitHub issue from a team's workflow states
+ * @throws when the matched rule can't be resolved for the team
+ */
+export function resolveIssueState(
+    states: WorkflowState[],
+    issue: GithubIssue,
+    mapping: StateMappingRule[]
+): { state: WorkflowState; rule: StateMappingRule } {
+    const rule = matchStateRule(issue, mapping);
+    const state = resolveWorkflowState(states, rule.linear, fallbackStateTypes(issue.state === 'closed'));
+
+    if (!state) {
+        const available = states.map(s => `${s.name} (${s.type})`).join(', ');
+        throw new Error(
+            `No workflow state matching "${describeStateRef(rule.linear)}", available: ${available}`
+        );
+    }
+    return { state, rule };
+}
+
+/**
+ * Reads a JSON array of state mapping rules
+ * @example
+ * ```json
+ * [
+ *   { "labels": ["in-progress"], "linear": "In Progress" },
+ *   { "state": "closed", "linear": { "name": "Shipped", "type": "completed" } },
+ *   { "state": "open", "linear": { "name": "Triage", "type": "triage" } }
+ * ]
+ * ```
+ */
+export function loadStateMapping(path: string): StateMappingRule[] {
+    const rules = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(rules)) {
+        throw new Error(`State mapping in ${path} must be an array of rules`);
+    }
+
+    const [error] = stateMappingErrors(rules);
+    if (error) {
+        throw new Error(`Invalid state mapping in ${path}: ${error}`);
+    }
+    return rules;
+}
+
+export function stateMappingErrors(rules: StateMappingRule[]): string[] {
+    return rules.flatMap((rule, i) => {
+        if (!rule?.linear) {
+            return [`rule ${i + 1} has no "linear" state`];
+        }
+        if (typeof rule.linear === 'object' && rule.linear.type && !LINEAR_STATE_TYPES.includes(rule.linear.type)) {
+            return [`rule ${i + 1} has unknown state type "${rule.linear.type}", expected one of: ${LINEAR_STATE_TYPES.join(', ')}`];
+        }
+        return [];
+    });
+}
@@ -0,0 +1,151 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { SyncedFields } from './conflicts';
+import type { GithubParent } from './hierarchy';
+import type { GithubIssueOutcome } from './lifecycle';
+
+export const DEFAULT_STORE_PATH = '.github-linear-sync/links.json';
+
+/**
+ * A persisted link between a GitHub issue and its Linear counterpart.
+ * The GitHub node ID is the stable key: it survives title edits,
+ * description edits and repository renames.
+ *
+ * Deleted or converted GitHub issues found by `doctor --fix` without a link
+ * get a tombstone keyed by their URL instead, since a gone issue's node ID
+ * can't be looked up: `githubNodeId` and `githubUrl` both hold the URL,
+ * `isDeleted` is set and `lifecycle` records the outcome acted on.
+ */
+export interface LinkedIssue {
+    githubNodeId: string;
+    githubUrl: string;
+    linearId: string;
+    linearIdentifier?: string;
+    // Content hashes recorded at the last successful sync
+    githubHash?: string;
+    linearHash?: string;
+    lastSyncedAt?: string;
+    isDeleted?: boolean;
+    comments?: LinkedComment[];
+    // GitHub label names applied at the last sync
+    syncedLabels?: string[];
+    // Where the issue was first written, GitHub unless it was imported from Linear
+    origin?: 'github' | 'linear';
+    // Last deleted, locked or converted outcome acted on, so its actions run once
+    lifecycle?: GithubIssueOutcome;
+    // GitHub-hosted image URL → Linear asset URL, for images uploaded to Linear
+    images?: Record<string, string>;
+    // GitHub's title, description, state, assignee and priority at the last sync, the base of conflict detection
+    synced?: SyncedFields;
+    // GitHub parent at the last sync, null for none, the base of re-parenting detection
+    parent?: GithubParent | null;
+    // Linear comments the sync posted itself, conflict and lifecycle notices that are never mirrored to GitHub
+    notices?: string[];
+}
+
+/**
+ * A comment mirrored between the two issues. `origin` is the side the
+ * comment was written on, the other side only holds the mirrored copy.
+ */
+export interface LinkedComment {
+    origin: 'github' | 'linear';
+    githubCommentId: number;
+    linearCommentId: string;
+    // Hash of the original comment's body at the last sync
+    hash: string;
+}
+
+interface StoreFile {
+    version: 1;
+    links: Record<string, LinkedIssue>;
+    // Per repository ('owner/repo', lowercase): last GitHub `updated_at` synced
+    cursors?: Record<string, string>;
+}
+
+export const hashContent = (...parts: Array<string | null | undefined>) =>
+    createHash('sha256')
+        .update(parts.map(p => p ?? '').join('\u0000'))
+        .digest('hex');
+
+/**
+ * JSON file backed store of GitHub ↔ Linear links.
+ * Changes are kept in memory until `save()` is called.
+ */
+export class LinkStore {
+    private links = new Map<string, LinkedIssue>();
+    private cursors = new Map<string, string>();
+
+    constructor(readonly path: string = DEFAULT_STORE_PATH) {}
+
+    static load(path: string = DEFAULT_STORE_PATH): LinkStore {
+        const store = new LinkStore(path);
+        if (!existsSync(path)) {
+            return store;
+        }
+
+        const data = JSON.parse(readFileSync(path, 'utf8')) as StoreFile;
+        for (const link of Object.values(data.links ?? {})) {
+            store.links.set(link.githubNodeId, link);
+        }
+        for (const [repo, cursor] of Object.entries(data.cursors ?? {})) {
+            store.cursors.set(repo, cursor);
+        }
+        return store;
+    }
+
+    save() {
+        mkdirSync(dirname(this.path), { recursive: true });
+        const data: StoreFile = {
+            version: 1,
+            links: Object.fromEntries(this.links),
+            cursors: Object.fromEntries(this.cursors)
+        };
+        writeFileSync(this.path, JSON.stringify(data, null, 2));
+    }
+
+    get(githubNodeId: string): LinkedIssue | undefined {
+        return this.links.get(githubNodeId);
+    }
+
+    findByLinearId(linearId: string): LinkedIssue | undefined {
+        return this.all().find(l => l.linearId === linearId);
+    }
+
+    findByGithubUrl(githubUrl: string): LinkedIssue | undefined {
+        // Owner and repository names are case-insensitive on GitHub
+        return this.all().find(l => l.githubUrl.toLowerCase() === githubUrl.toLowerCase());
+    }
+
+    set(link: LinkedIssue) {
+        this.links.set(link.githubNodeId, link);
+    }
+
+    delete(githubNodeId: string) {
+        this.links.delete(githubNodeId);
+    }
+
+    clear() {
+        this.links.clear();
+    }
+
+    all(): LinkedIssue[] {
+        return [...this.links.values()];
+    }
+
+    getCursor(repo: string): string | undefined {
+        return this.cursors.get(repo.toLowerCase());
+    }
+
+    setCursor(repo: string, updatedAt: string) {
+        this.cursors.set(repo.toLowerCase(), updatedAt);
+    }
+
+    deleteCursor(repo: string) {
+        this.cursors.delete(repo.toLowerCase());
+    }
+
+    allCursors(): Array<{ repo: string; cursor: string }> {
+        return [...this.cursors].map(([repo, cursor]) => ({ repo, cursor }));
+    }
+}
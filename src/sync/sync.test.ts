@@ -0,0 +1,84 @@
+import {describe, expect, test} from 'bun:test';
+import type {LinearClient} from '@linear/sdk';
+import type {Octokit} from '@octokit/rest';
+import {hashGithubIssue, hashLinearIssue, type GithubIssue} from '../api/linear';
+import {LinkStore, type LinkedIssue} from './store';
+import {syncLinearIssueToGithub} from './sync';
+import {mergeSyncedBlock} from './template';
+
+const GITHUB_URL = 'https://github.com/acme/app/issues/1';
+const OPEN = { id: 'todo', type: 'unstarted' };
+
+const linearIssue = (title: string, body = 'Body') => ({
+    title: `[🛠️GH] acme/app#1: ${title}`,
+    description: mergeSyncedBlock(undefined, `${body}\n\nGitHub: ${GITHUB_URL}`)
+});
+
+// GitHub holding one issue, recording the updates written to it
+function fakeGithub(issue: Pick<GithubIssue, 'title' | 'body' | 'state'>) {
+    const updates: object[] = [];
+    let current = { ...issue, labels: [], html_url: GITHUB_URL, repository_url: 'https://api.github.com/repos/acme/app' } as unknown as GithubIssue;
+    const client = {
+        issues: {
+            get: async () => ({ data: current }),
+            update: async ({ owner, repo, issue_number, ...update }: Record<string, unknown>) => {
+                updates.push(update);
+                current = { ...current, ...update };
+                return { data: current };
+            }
+        }
+    } as unknown as Octokit;
+    return { client, updates, current: () => current };
+}
+
+const fakeLinear = (issue: { title: string; description: string }, state = OPEN) =>
+    ({ issue: async () => ({ ...issue, state: Promise.resolve(state) }) }) as unknown as LinearClient;
+
+function storeWith(link: Partial<LinkedIssue>) {
+    const store = new LinkStore('/dev/null');
+    store.set({ githubNodeId: 'I_1', githubUrl: GITHUB_URL, linearId: 'lin-1', ...link });
+    return store;
+}
+
+describe('syncLinearIssueToGithub', () => {
+    test('does not write back what the sync itself wrote to Linear', async () => {
+        const written = linearIssue('Crash on start');
+        const github = fakeGithub({ title: 'Crash on start', body: 'Body', state: 'open' });
+        const store = storeWith({ linearHash: hashLinearIssue(written, OPEN.id), githubHash: hashGithubIssue(github.current()) });
+
+        const outcome = await syncLinearIssueToGithub(fakeLinear(written), github.client, store.get('I_1')!, store);
+
+        expect(outcome).toEqual({ action: 'skipped', reason: 'No Linear changes since last sync' });
+        expect(github.updates).toEqual([]);
+    });
+
+    test('pushes a Linear edit once, and not its echo on the next run', async () => {
+        const github = fakeGithub({ title: 'Crash on start', body: 'Body', state: 'open' });
+        const store = storeWith({
+            linearHash: hashLinearIssue(linearIssue('Crash on start'), OPEN.id),
+            githubHash: hashGithubIssue(github.current())
+        });
+        const linear = fakeLinear(linearIssue('Crash on startup'), { id: 'done', type: 'completed' });
+
+        expect(await syncLinearIssueToGithub(linear, github.client, store.get('I_1')!, store)).toEqual({ action: 'updated' });
+        expect(github.updates).toEqual([{ title: 'Crash on startup', state: 'closed', state_reason: 'completed' }]);
+        expect(store.get('I_1')?.githubHash).toBe(hashGithubIssue(github.current()));
+
+        const again = await syncLinearIssueToGithub(linear, github.client, store.get('I_1')!, store);
+        expect(again.action).toBe('skipped');
+        expect(github.updates).toHaveLength(1);
+    });
+
+    test('leaves issues changed on both sides to the GitHub pass', async () => {
+        const github = fakeGithub({ title: 'Renamed on GitHub', body: 'Body', state: 'open' });
+        const store = storeWith({
+            linearHash: hashLinearIssue(linearIssue('Crash on start'), OPEN.id),
+            githubHash: hashGithubIssue({ title: 'Crash on start', body: 'Body', state: 'open' } as GithubIssue)
+        });
+
+        const outcome = await syncLinearIssueToGithub(fakeLinear(linearIssue('Renamed in Linear')), github.client, store.get('I_1')!, store);
+
+        expect(outcome.action).toBe('skipped');
+        expect(github.updates).toEqual([]);
+    });
+});
@@ -0,0 +1,342 @@
+import type {Issue as LinearIssue, LinearClient} from '@linear/sdk';
+import type {IssueFilter} from '@linear/sdk/dist/_generated_documents';
+import type {Octokit} from '@octokit/rest';
+import {
+    CLOSED_STATE_TYPES,
+    fetchAllNodes,
+    findLinearProject,
+    findLinkedGithubIssue,
+    hashGithubIssue,
+    hashLinearIssue,
+    linkGithubIssue,
+    parseGithubDescription,
+    parseGithubIssueUrl,
+    parseGithubTitle,
+    type GithubIssue
+} from '../api/linear';
+import type {LinkedIssue, LinkStore} from './store';
+import {findRoute, type ResolvedRoute, type SyncRoute} from '../config/config';
+import {SyncCache} from './cache';
+import {githubMarkdownContext, githubToLinearMarkdown, linearMarkdownContext, linearToGithubMarkdown} from './markdown';
+import {describeStateRef, resolveWorkflowState, type StateRef} from './states';
+
+export interface ReverseSyncResults {
+    updated: string[];
+    skipped: Array<{
+        url: string;
+        reason: string;
+    }>;
+    failed: Array<{
+        error: unknown;
+        message: string;
+    }>;
+}
+
+type GithubIssueUpdate = NonNullable<Parameters<Octokit['issues']['update']>[0]>;
+
+type ReverseSyncOutcome =
+    | { action: 'updated' }
+    | { action: 'skipped'; reason: string };
+
+// Reason to close the GitHub issue with, per closed Linear state type (see CLOSED_STATE_TYPES)
+const CLOSING_STATE_REASONS: Record<string, 'completed' | 'not_planned'> = {
+    completed: 'completed',
+    canceled: 'not_planned'
+};
+
+/**
+ * Pushes Linear-side edits of a linked issue back to GitHub.
+ *
+ * The hashes recorded at the last sync decide the direction: only a Linear
+ * issue that changed while its GitHub issue did not is written back, and both
+ * hashes are re-recorded afterwards so the forward pass sees nothing new.
+ */
+export async function syncLinearIssueToGithub(
+    client: LinearClient,
+    githubClient: Octokit,
+    link: LinkedIssue,
+    store: LinkStore,
+    routes: SyncRoute[] = []
+): Promise<ReverseSyncOutcome> {
+    const url = parseGithubIssueUrl(link.githubUrl);
+    if (!url) {
+        return { action: 'skipped', reason: `Not a GitHub issue URL: ${link.githubUrl}` };
+    }
+
+    const linearIssue = await client.issue(link.linearId);
+    const state = await linearIssue.state;
+    const linearHash = hashLinearIssue(linearIssue, state?.id);
+
+    if (linearHash === link.linearHash) {
+        return { action: 'skipped', reason: 'No Linear changes since last sync' };
+    }
+
+    const { data: githubIssue } = await githubClient.issues.get({
+        owner: url.owner,
+        repo: url.repo,
+        issue_number: url.number
+    });
+
+    // Both sides changed: leave it to the forward pass
+    if (link.githubHash && hashGithubIssue(githubIssue) !== link.githubHash) {
+        return { action: 'skipped', reason: 'Changed on both sides, GitHub takes precedence' };
+    }
+
+    const update: Partial<GithubIssueUpdate> = {};
+
+    // Issues imported from Linear keep their plain title on both sides
+    const route = findRoute(routes, githubIssue);
+    const title = link.origin === 'linear'
+        ? linearIssue.title
+        : parseGithubTitle(linearIssue.title, route?.titleTemplate);
+    if (title !== githubIssue.title) {
+        update.title = title;
+    }
+
+    // Only the synced block goes back to GitHub, notes added around it in Linear stay there
+    const body = link.origin === 'linear'
+        ? linearIssue.description ?? ''
+        : parseGithubDescription(linearIssue.description, route?.descriptionTemplate);
+    if (body !== undefined) {
+        const cache = new SyncCache(client);
+        const target = { repo: `${url.owner}/${url.repo}`, fields: route?.fields };
+        const toGithub = linearMarkdownContext(cache, store, target);
+        // Compared after a round trip, so what the conversion can't restore exactly isn't taken for an edit
+        const current = await linearToGithubMarkdown(
+            await githubToLinearMarkdown(githubIssue.body ?? '', githubMarkdownContext(githubClient, cache, store, target)),
+            toGithub
+        );
+        const converted = await linearToGithubMarkdown(body, toGithub);
+        if (converted !== current) {
+            update.body = converted;
+        }
+    }
+
+    const stateReason = state ? CLOSING_STATE_REASONS[state.type] : undefined;
+    if (stateReason && githubIssue.state === 'open') {
+        update.state = 'closed';
+        update.state_reason = stateReason;
+    } else if (!stateReason && githubIssue.state === 'closed') {
+        update.state = 'open';
+        update.state_reason = 'reopened';
+    }
+
+    let githubHash = link.githubHash;
+    if (Object.keys(update).length) {
+        const { data } = await githubClient.issues.update({
+            ...update,
+            owner: url.owner,
+            repo: url.repo,
+            issue_number: url.number
+        });
+        githubHash = hashGithubIssue(data);
+    }
+
+    store.set({
+        ...link,
+        githubHash,
+        linearHash,
+        lastSyncedAt: new Date().toISOString()
+    });
+    return { action: 'updated' };
+}
+
+/**
+ * Reverse pass over every linked issue of the repositories the routes sync
+ */
+export async function syncLinearIssuesToGithub(
+    client: LinearClient,
+    githubClient: Octokit,
+    store: LinkStore,
+    routes: SyncRoute[]
+): Promise<ReverseSyncResults> {
+    const repos = routes.map(r => r.repo.toLowerCase());
+    const links = store.all()
+        .filter(link => !link.isDeleted)
+        .filter(link => {
+            const url = parseGithubIssueUrl(link.githubUrl);
+            return url && repos.includes(`${url.owner}/${url.repo}`.toLowerCase());
+        });
+
+    const results: ReverseSyncResults = { updated: [], skipped: [], failed: [] };
+
+    // Sequential on purpose: each write is followed by a hash update in the store
+    for (const link of links) {
+        try {
+            const outcome = await syncLinearIssueToGithub(client, githubClient, link, store, routes);
+            if (outcome.action === 'updated') {
+                results.updated.push(link.githubUrl);
+            } else {
+                results.skipped.push({ url: link.githubUrl, reason: outcome.reason });
+            }
+        } catch (error) {
+            results.failed.push({
+                error,
+                message: `${link.githubUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Which Linear issues of a route's team `sync --direction linear-to-github`
+ * creates GitHub issues for. Every condition present must match.
+ */
+export interface LinearImportFilter {
+    // All of these labels (case-insensitive)
+    labels?: string[];
+    // Linear project ID, slug or name, the route's project by default
+    project?: string;
+    // Any of these states; without it, issues in completed and canceled states are left out
+    states?: StateRef[];
+}
+
+export interface LinearImportResults {
+    // Without a URL in a dry run
+    created: Array<{ identifier: string; repo: string; url?: string }>;
+    // Matching issues that already have a GitHub issue
+    linked: string[];
+    failed: Array<{
+        identifier: string;
+        error: unknown;
+        message: string;
+    }>;
+}
+
+// A route's own filter, falling back to the one given on the command line
+export const importFilterOf = (route: SyncRoute, defaults: LinearImportFilter = {}): LinearImportFilter =>
+    ({ ...defaults, ...route.linearToGithub });
+
+// Without any condition every issue of the team would be published
+export const hasImportFilter = (route: SyncRoute, defaults?: LinearImportFilter) => {
+    const { labels, project, states } = importFilterOf(route, defaults);
+    return Boolean(labels?.length || project || states?.length || route.project);
+};
+
+async function toIssueFilter(
+    client: LinearClient,
+    route: ResolvedRoute,
+    { labels, project, states }: LinearImportFilter,
+    cache: SyncCache
+): Promise<IssueFilter> {
+    const projectId = project ? (await findLinearProject(client, project, cache))?.id : route.projectId;
+    if (project && !projectId) {
+        throw new Error(`Linear project not found: ${project}`);
+    }
+
+    const teamStates = await cache.workflowStates(route.teamId);
+    const stateIds = states
+        ? states.map(ref => {
+            const state = resolveWorkflowState(teamStates, ref);
+            if (!state) {
+                throw new Error(`Linear team ${route.team} has no workflow state matching "${describeStateRef(ref)}"`);
+            }
+            return state.id;
+        })
+        : teamStates.filter(state => !CLOSED_STATE_TYPES.includes(state.type)).map(state => state.id);
+
+    return {
+        team: { id: { eq: route.teamId } },
+        state: { id: { in: stateIds } },
+        ...(projectId ? { project: { id: { eq: projectId } } } : {}),
+        ...(labels?.length ? { and: labels.map(name => ({ labels: { some: { name: { eqIgnoreCase: name } } } })) } : {})
+    };
+}
+
+/**
+ * Creates the GitHub issue for a Linear issue in the route's repository and
+ * links the two, so later syncs in either direction keep them in step
+ */
+export async function createGithubIssueFromLinear(
+    client: LinearClient,
+    githubClient: Octokit,
+    linearIssue: LinearIssue,
+    route: SyncRoute,
+    store: LinkStore,
+    cache: SyncCache
+): Promise<GithubIssue> {
+    const [owner, repo] = route.repo.split('/');
+    const state = await linearIssue.state;
+    const body = await linearToGithubMarkdown(
+        linearIssue.description ?? '',
+        linearMarkdownContext(cache, store, { repo: route.repo, fields: route.fields })
+    );
+
+    let { data: githubIssue } = await githubClient.issues.create({
+        owner,
+        repo,
+        title: linearIssue.title,
+        body,
+        // Lets the issue find its way back to this route
+        labels: route.labels
+    });
+
+    const stateReason = state ? CLOSING_STATE_REASONS[state.type] : undefined;
+    if (stateReason) {
+        ({ data: githubIssue } = await githubClient.issues.update({
+            owner,
+            repo,
+            issue_number: githubIssue.number,
+            state: 'closed',
+            state_reason: stateReason
+        }));
+    }
+
+    await linkGithubIssue(client, linearIssue, githubIssue, store);
+    store.set({
+        ...store.get(githubIssue.node_id)!,
+        origin: 'linear',
+        githubHash: hashGithubIssue(githubIssue),
+        linearHash: hashLinearIssue(linearIssue, state?.id),
+        lastSyncedAt: new Date().toISOString()
+    });
+    return githubIssue;
+}
+
+/**
+ * Creates GitHub issues for the Linear issues matching each route's filter
+ * that aren't linked to a GitHub issue yet. An issue matching several routes
+ * goes to the first one.
+ */
+export async function importLinearIssuesToGithub(
+    client: LinearClient,
+    githubClient: Octokit,
+    routes: ResolvedRoute[],
+    store: LinkStore,
+    { cache, filter, dryRun = false }: { cache: SyncCache; filter?: LinearImportFilter; dryRun?: boolean }
+): Promise<LinearImportResults> {
+    const results: LinearImportResults = { created: [], linked: [], failed: [] };
+    const seen = new Set<string>();
+
+    for (const route of routes) {
+        const issueFilter = await toIssueFilter(client, route, importFilterOf(route, filter), cache);
+        const issues = await fetchAllNodes(client.issues({ first: 100, filter: issueFilter }));
+
+        // Sequential on purpose: GitHub's secondary rate limits are strict about creating content
+        for (const issue of issues.filter(issue => !seen.has(issue.id))) {
+            seen.add(issue.id);
+            try {
+                if (await findLinkedGithubIssue(issue, store)) {
+                    results.linked.push(issue.identifier);
+                    continue;
+                }
+                if (dryRun) {
+                    results.created.push({ identifier: issue.identifier, repo: route.repo });
+                    continue;
+                }
+                const githubIssue = await createGithubIssueFromLinear(client, githubClient, issue, route, store, cache);
+                results.created.push({ identifier: issue.identifier, repo: route.repo, url: githubIssue.html_url });
+            } catch (error) {
+                results.failed.push({
+                    identifier: issue.identifier,
+                    error,
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+    }
+
+    return results;
+}
@@ -0,0 +1,77 @@
+import {describe, expect, test} from 'bun:test';
+import type {GithubIssue} from '../api/linear';
+import {
+    DEFAULT_TITLE_TEMPLATE,
+    extractSyncedBlock,
+    mergeSyncedBlock,
+    parseTemplate,
+    renderTemplate,
+    SYNCED_BLOCK_END,
+    SYNCED_BLOCK_START,
+    templateVariables,
+    unknownTemplateVariables
+} from './template';
+
+const githubIssue = {
+    number: 12,
+    title: 'Crash on start',
+    user: { login: 'octocat' },
+    labels: ['bug', { name: 'ui' }],
+    state: 'open',
+    body: null,
+    html_url: 'https://github.com/acme/app/issues/12',
+    repository_url: 'https://api.github.com/repos/acme/app'
+} as unknown as GithubIssue;
+
+const block = (content: string) => [SYNCED_BLOCK_START, '', content, '', SYNCED_BLOCK_END].join('\n');
+
+describe('templates', () => {
+    test('render the issue\'s variables and keep unknown ones', () => {
+        const variables = templateVariables(githubIssue);
+
+        expect(renderTemplate(DEFAULT_TITLE_TEMPLATE, variables)).toBe('[🛠️GH] acme/app#12: Crash on start');
+        expect(renderTemplate('{labels} by {author}: {body}{typo}', variables)).toBe('bug, ui by octocat: {typo}');
+        expect(unknownTemplateVariables('{repo} {typo} {title} {Title}')).toEqual(['typo', 'Title']);
+    });
+
+    test('parse a variable back out of a rendered text', () => {
+        expect(parseTemplate('[🛠️GH] acme/app#12: Crash on start', DEFAULT_TITLE_TEMPLATE, 'title')).toBe('Crash on start');
+        expect(parseTemplate('Crash on start', '{title}', 'title')).toBe('Crash on start');
+        expect(parseTemplate('Renamed', DEFAULT_TITLE_TEMPLATE, 'title')).toBeUndefined();
+        expect(parseTemplate('acme/app#12', '{repo}#{number}', 'title')).toBeUndefined();
+    });
+});
+
+describe('synced block', () => {
+    test('replaces only the block, keeping notes around it', () => {
+        const description = `Notes\n\n${block('Old body')}\n\nMore notes`;
+
+        const merged = mergeSyncedBlock(description, 'New body');
+
+        expect(merged).toBe(`Notes\n\n${block('New body')}\n\nMore notes`);
+        expect(extractSyncedBlock(merged)).toBe('New body');
+    });
+
+    test('replaces descriptions from before synced blocks, and appends to others', () => {
+        expect(mergeSyncedBlock('Body\n\nGitHub: https://github.com/acme/app/issues/12', 'Body')).toBe(block('Body'));
+        expect(mergeSyncedBlock('Body\n\nGitHub: https://github.com/acme/app/issues/12\nLast Synced: 2024-03-01T10:00:00.000Z', 'Body'))
+            .toBe(block('Body'));
+        expect(mergeSyncedBlock(null, 'Body')).toBe(block('Body'));
+        expect(mergeSyncedBlock('Written in Linear\n', 'Body')).toBe(`Written in Linear\n\n${block('Body')}`);
+        expect(extractSyncedBlock('Written in Linear')).toBeUndefined();
+    });
+
+    test('keeps notes that merely mention GitHub', () => {
+        const description = 'GitHub: reported by a customer, see the support ticket\n\nTriage notes';
+
+        expect(mergeSyncedBlock(description, 'Body')).toBe(`${description}\n\n${block('Body')}`);
+        expect(mergeSyncedBlock('Blocked upstream\nGitHub: see the acme/lib issue', 'Body'))
+            .toBe(`Blocked upstream\nGitHub: see the acme/lib issue\n\n${block('Body')}`);
+    });
+
+    test('replaces only the footer of legacy descriptions edited in Linear', () => {
+        const description = 'Body, with a workaround added in Linear\n\nGitHub: https://github.com/acme/app/issues/12\nLast Synced: 2024-03-01T10:00:00.000Z';
+
+        expect(mergeSyncedBlock(description, 'Body')).toBe(`Body, with a workaround added in Linear\n\n${block('Body')}`);
+    });
+});
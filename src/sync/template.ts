@@ -0,0 +1,112 @@
+import {githubIssueRepo, type GithubIssue} from '../api/linear';
+
+export const DEFAULT_TITLE_TEMPLATE = '[🛠️GH] {repo}#{number}: {title}';
+export const DEFAULT_DESCRIPTION_TEMPLATE = '{body}\n\nGitHub: {url}';
+
+export const TEMPLATE_VARIABLES = ['repo', 'number', 'title', 'author', 'labels', 'state', 'body', 'url'] as const;
+
+// Lines around the part of a Linear description the sync owns; notes outside them are kept
+export const SYNCED_BLOCK_START = '🔄 Synced from GitHub';
+export const SYNCED_BLOCK_END = '🔄 End of synced content';
+
+export const DELETED_NOTICE = '⚠️ Original GitHub issue was deleted';
+
+export function templateVariables(issue: GithubIssue): Record<string, string> {
+    return {
+        repo: githubIssueRepo(issue),
+        number: String(issue.number),
+        title: issue.title,
+        author: issue.user?.login ?? '',
+        labels: issue.labels.map(l => typeof l === 'string' ? l : l.name ?? '').filter(Boolean).join(', '),
+        state: issue.state,
+        body: issue.body ?? '',
+        url: issue.html_url
+    };
+}
+
+export const renderTemplate = (template: string, variables: Record<string, string>) =>
+    template.replace(/\{(\w+)\}/g, (match, name) => variables[name] ?? match);
+
+// Variables a template uses that don't exist, e.g. typos
+export const unknownTemplateVariables = (template: string) =>
+    [...template.matchAll(/\{(\w+)\}/g)]
+        .map(([, name]) => name)
+        .filter(name => !(TEMPLATE_VARIABLES as readonly string[]).includes(name));
+
+/**
+ * Inverse of renderTemplate for one variable, the other variables matching
+ * any text
+ * @returns the variable's value, undefined when the template doesn't use it
+ * or the text doesn't match
+ */
+export function parseTemplate(text: string, template: string, variable: string): string | undefined {
+    const [prefix, ...rest] = template.split(`{${variable}}`);
+    if (!rest.length) {
+        return undefined;
+    }
+
+    const toPattern = (part: string) => part
+        .split(/\{\w+\}/)
+        .map(literal => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.+?');
+    const match = text.match(new RegExp(`^${toPattern(prefix)}(.*)${toPattern(rest.join(`{${variable}}`))}$`, 's'));
+    return match?.[1];
+}
+
+/**
+ * The synced block of a description
+ * @returns its content, undefined when the description has no block
+ */
+export function extractSyncedBlock(description: string | null | undefined): string | undefined {
+    const lines = (description ?? '').split('\n');
+    const start = lines.findIndex(line => line.trim() === SYNCED_BLOCK_START);
+    const end = lines.findIndex((line, i) => i > start && line.trim() === SYNCED_BLOCK_END);
+    if (start === -1 || end === -1) {
+        return undefined;
+    }
+    return lines.slice(start + 1, end).join('\n').trim();
+}
+
+/**
+ * The text above the footer descriptions from before synced blocks end in:
+ * `GitHub: {url}`, then the deleted notice and `Last Synced:` when there
+ * @returns undefined when the description doesn't end in that footer
+ */
+function stripLegacyFooter(description: string): string | undefined {
+    const lines = description.trimEnd().split('\n');
+    if (lines.at(-1)?.startsWith('Last Synced: ')) {
+        lines.pop();
+    }
+    if (lines.at(-1) === DELETED_NOTICE) {
+        lines.pop();
+    }
+    if (!/^GitHub: https?:\/\/\S+$/.test(lines.at(-1) ?? '')) {
+        return undefined;
+    }
+    return lines.slice(0, -1).join('\n').trim();
+}
+
+/**
+ * Puts `content` in the synced block of a description, keeping everything
+ * around the block. The footer of descriptions from before synced blocks is
+ * replaced by the block; the synced body above it goes too, unless it was
+ * edited since.
+ */
+export function mergeSyncedBlock(description: string | null | undefined, content: string): string {
+    const block = [SYNCED_BLOCK_START, '', content, '', SYNCED_BLOCK_END].join('\n');
+    const lines = (description ?? '').split('\n');
+    const start = lines.findIndex(line => line.trim() === SYNCED_BLOCK_START);
+    const end = lines.findIndex((line, i) => i > start && line.trim() === SYNCED_BLOCK_END);
+
+    if (start !== -1 && end !== -1) {
+        return [...lines.slice(0, start), block, ...lines.slice(end + 1)].join('\n');
+    }
+    if (!description?.trim()) {
+        return block;
+    }
+    const legacy = stripLegacyFooter(description);
+    if (legacy !== undefined) {
+        return !legacy || content.includes(legacy) ? block : `${legacy}\n\n${block}`;
+    }
+    return `${description.trimEnd()}\n\n${block}`;
+}